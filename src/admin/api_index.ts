@@ -1,6 +1,8 @@
 import HttpError from '../lib/HttpError.js';
 import {evictCache} from '../lib/Cache.js';
 import {Item} from '../lib/ItemInterfaces.js';
+import {setIndexedAt} from '../lib/ConditionalGet.js';
+import {fireWebhooks} from '../lib/Webhook.js';
 import {createItem, indexItems, deleteItems} from '../lib/Item.js';
 
 export default async function indexCollection(collection: { id?: string; name?: string, items?: Item[] }): Promise<void> {
@@ -10,20 +12,32 @@ export default async function indexCollection(collection: { id?: string; name?:
     if (!('items' in collection) || !collection.items)
         throw new HttpError(400, 'Items missing');
 
-    await Promise.all([
-        deleteItems(collection.id),
-        evictCache('collection', collection.id),
-        evictCache('manifest', collection.id),
-        evictCache('annopage', collection.id)
-    ]);
+    try {
+        await Promise.all([
+            deleteItems(collection.id),
+            evictCache('collection', collection.id),
+            evictCache('manifest', collection.id),
+            evictCache('annopage', collection.id),
+            evictCache('collection-v2', collection.id),
+            evictCache('manifest-v2', collection.id),
+            evictCache('annolist-v2', collection.id),
+            setIndexedAt(collection.id)
+        ]);
 
-    const items = [createItem({
-        'id': collection.id,
-        'collection_id': collection.id,
-        'type': 'folder',
-        'label': collection.name || collection.id,
-    })];
-    items.concat(...collection.items.map(item => createItem(item)));
+        const items = [createItem({
+            'id': collection.id,
+            'collection_id': collection.id,
+            'type': 'folder',
+            'label': collection.name || collection.id,
+        })];
+        items.concat(...collection.items.map(item => createItem(item)));
 
-    await indexItems(items);
+        await indexItems(items);
+
+        fireWebhooks('index.succeeded', {collection_id: collection.id});
+    }
+    catch (e: any) {
+        fireWebhooks('index.failed', {collection_id: collection.id, error: e.message});
+        throw e;
+    }
 }
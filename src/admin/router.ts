@@ -4,8 +4,11 @@ import Router from '@koa/router';
 
 import HttpError from '../lib/HttpError.js';
 import {runTask} from '../lib/Task.js';
-import {workerStatus} from '../lib/Worker.js';
+import {allServices} from '../lib/Service.js';
+import {workerStatus, failedTasks, retryFailedTasks, purgeFailedTasks} from '../lib/Worker.js';
 import {ExtendedContext} from '../lib/Koa.js';
+import {getJob} from '../lib/Job.js';
+import {getDeliveries, WebhookDeliveryStatus} from '../lib/Webhook.js';
 import {hasAdminAccess, getIpAddress} from '../lib/Security.js';
 import {EmptyParams, CollectionPathParams, MetadataParams, ProcessUpdateParams, ReindexParams} from '../lib/ServiceTypes.js';
 
@@ -24,6 +27,42 @@ router.get('/worker_status', async ctx => {
     ctx.body = await workerStatus();
 });
 
+router.get('/failed_tasks', async ctx => {
+    const type = ctx.queryFirst('type');
+    if (type)
+        checkWorkerType(type);
+
+    ctx.body = await failedTasks(type);
+});
+
+router.post('/retry_failed_tasks', async ctx => {
+    const [type, index] = getFailedTaskParams(ctx);
+    const count = await retryFailedTasks(type, index);
+    ctx.body = `${count} failed task(s) of type '${type}' sent back to the queue`;
+});
+
+router.post('/purge_failed_tasks', async ctx => {
+    const [type, index] = getFailedTaskParams(ctx);
+    const count = await purgeFailedTasks(type, index);
+    ctx.body = `${count} failed task(s) of type '${type}' purged`;
+});
+
+router.get('/jobs/:id', async ctx => {
+    const job = await getJob(ctx.params.id);
+    if (!job)
+        throw new HttpError(404, `No job found with id ${ctx.params.id}`);
+
+    ctx.body = job;
+});
+
+router.get('/webhook_deliveries', async ctx => {
+    const status = ctx.queryFirst('status');
+    if (status && status !== 'delivered' && status !== 'failed')
+        throw new HttpError(400, `Invalid status ${status}`);
+
+    ctx.body = await getDeliveries(ctx.queryFirst('event'), status as WebhookDeliveryStatus | undefined);
+});
+
 router.get('/headers', async ctx => {
     ctx.body = {
         ips: ctx.ips,
@@ -45,7 +84,7 @@ router.post('/index', async ctx => {
     if (!existsSync(body.path))
         throw new HttpError(400, `The provided path "${body.path}" does not seem to exist`);
 
-    runTask<CollectionPathParams>('index', {collectionPath: body.path});
+    runTask<CollectionPathParams>('index', {collectionPath: body.path}, {dedupeKey: body.path});
     ctx.body = 'Collection is sent to the queue for indexing';
 });
 
@@ -79,7 +118,7 @@ router.post('/update_metadata', async ctx => {
 });
 
 router.post('/all_metadata_update', async ctx => {
-    runTask<EmptyParams>('all-metadata-update', {});
+    runTask<EmptyParams>('all-metadata-update', {}, {priority: 'bulk', dedupeKey: 'all'});
     ctx.body = 'All metadata update triggered';
 });
 
@@ -101,3 +140,22 @@ router.post('/register_token', async ctx => {
     const body = ctx.request.body as Record<'token' | 'id' | 'from' | 'to', string | undefined>;
     ctx.body = await registerToken(body.token, body.id, body.from, body.to);
 });
+
+function getFailedTaskParams(ctx: ExtendedContext): [string, number | undefined] {
+    const body = ctx.request.body as { type?: string, index?: number | string };
+    if (!body.type)
+        throw new HttpError(400, 'Please provide the type of the failed tasks');
+
+    checkWorkerType(body.type);
+
+    const index = body.index !== undefined ? Number(body.index) : undefined;
+    if (index !== undefined && (!Number.isInteger(index) || index < 0))
+        throw new HttpError(400, `Invalid index ${body.index}`);
+
+    return [body.type, index];
+}
+
+function checkWorkerType(type: string): void {
+    if (!allServices.find(service => service.runAs === 'worker' && service.type === type))
+        throw new HttpError(400, `No worker found of type '${type}'`);
+}
@@ -0,0 +1,166 @@
+import Router from '@koa/router';
+import {DefaultState} from 'koa';
+import {randomUUID} from 'crypto';
+
+import logger from '../lib/Logger.js';
+import HttpError from '../lib/HttpError.js';
+import {hash} from '../lib/ConditionalGet.js';
+import {ExtendedContext} from '../lib/Koa.js';
+import {Item} from '../lib/ItemInterfaces.js';
+import {getChildItems, getItem} from '../lib/Item.js';
+import {AccessState, hasAccess} from '../lib/Security.js';
+import {
+    UserAnnotation, WebAnnotation, indexUserAnnotation, deleteUserAnnotation, getUserAnnotation, getUserAnnotations
+} from '../lib/UserAnnotation.js';
+import {isManifest} from '../builder/PresentationBuilder.js';
+
+import {
+    ANNO_PROFILE, ANNOTATIONS_PER_PAGE, checkCreator, createUserAnnotation, getContainer, getContainerPreference,
+    getIdentitiesForWriting, getPage
+} from './webAnnotation.js';
+
+export const router = new Router<DefaultState, ExtendedContext>({prefix: '/annotations'});
+
+router.get('/:manifestId', async ctx => {
+    logger.info(`Received a request for the annotation container of manifest ${ctx.params.manifestId}`);
+
+    const item = await getManifestItem(ctx);
+
+    ctx.vary('Prefer');
+    ctx.set('Allow', 'GET, HEAD, POST, OPTIONS');
+    ctx.set('Cache-Control', 'private, no-cache');
+    ctx.set('Content-Type', ANNO_PROFILE);
+
+    const page = ctx.queryFirst('page');
+    if (page !== undefined) {
+        const pageNumber = Number(page);
+        if (!Number.isInteger(pageNumber) || pageNumber < 0)
+            throw new HttpError(400, `Invalid page ${page}!`);
+
+        const userAnnotations = await getUserAnnotations(item.id, pageNumber, ANNOTATIONS_PER_PAGE);
+        if (pageNumber > 0 && userAnnotations.annotations.length === 0)
+            throw new HttpError(404, `No page ${pageNumber} found in the annotation container of manifest ${item.id}`);
+
+        ctx.body = getPage(item.id, userAnnotations, pageNumber);
+    }
+    else {
+        const userAnnotations = await getUserAnnotations(item.id, 0, ANNOTATIONS_PER_PAGE);
+
+        ctx.set('Link', '<http://www.w3.org/ns/ldp#BasicContainer>; rel="type", ' +
+            '<http://www.w3.org/TR/annotation-protocol/>; rel="http://www.w3.org/ns/ldp#constrainedBy"');
+        ctx.body = getContainer(item.id, userAnnotations, getContainerPreference(ctx.get('Prefer')));
+    }
+
+    logger.info(`Sending the annotation container of manifest ${ctx.params.manifestId}`);
+});
+
+router.post('/:manifestId', async ctx => {
+    logger.info(`Received a new annotation for manifest ${ctx.params.manifestId}`);
+
+    const item = await getManifestItem(ctx);
+    const identities = await getIdentitiesForWriting(ctx);
+    const userAnnotation = createUserAnnotation(randomUUID(),
+        ctx.request.body as WebAnnotation, item, await getChildItems(item), identities[0] || null);
+
+    await indexUserAnnotation(userAnnotation);
+
+    ctx.status = 201;
+    ctx.set('Location', userAnnotation.annotation.id);
+    setAnnotation(ctx, userAnnotation);
+
+    logger.info(`Created annotation ${userAnnotation.id} for manifest ${ctx.params.manifestId}`);
+});
+
+router.get('/:manifestId/:annotationId', async ctx => {
+    logger.info(`Received a request for annotation ${ctx.params.annotationId} of manifest ${ctx.params.manifestId}`);
+
+    const item = await getManifestItem(ctx);
+    const userAnnotation = await getUserAnnotationOfManifest(ctx, item);
+
+    ctx.set('Cache-Control', 'private, no-cache');
+    setAnnotation(ctx, userAnnotation);
+
+    logger.info(`Sending annotation ${ctx.params.annotationId} of manifest ${ctx.params.manifestId}`);
+});
+
+router.put('/:manifestId/:annotationId', async ctx => {
+    logger.info(`Received an update of annotation ${ctx.params.annotationId} of manifest ${ctx.params.manifestId}`);
+
+    const item = await getManifestItem(ctx);
+    const identities = await getIdentitiesForWriting(ctx);
+    const existing = await getUserAnnotationOfManifest(ctx, item);
+    checkCreator(ctx, existing, identities);
+    checkIfMatch(ctx, existing);
+
+    const body = ctx.request.body as WebAnnotation;
+    if (body && body.id && body.id !== existing.annotation.id)
+        throw new HttpError(400, `The annotation id ${body.id} does not match ${existing.annotation.id}`);
+
+    const userAnnotation = createUserAnnotation(existing.id, body, item, await getChildItems(item), null, existing);
+    await indexUserAnnotation(userAnnotation);
+
+    setAnnotation(ctx, userAnnotation);
+
+    logger.info(`Updated annotation ${ctx.params.annotationId} of manifest ${ctx.params.manifestId}`);
+});
+
+router.delete('/:manifestId/:annotationId', async ctx => {
+    logger.info(`Received a removal of annotation ${ctx.params.annotationId} of manifest ${ctx.params.manifestId}`);
+
+    const item = await getManifestItem(ctx);
+    const identities = await getIdentitiesForWriting(ctx);
+    const existing = await getUserAnnotationOfManifest(ctx, item);
+    checkCreator(ctx, existing, identities);
+    checkIfMatch(ctx, existing);
+
+    await deleteUserAnnotation(existing.id);
+
+    ctx.status = 204;
+
+    logger.info(`Removed annotation ${ctx.params.annotationId} of manifest ${ctx.params.manifestId}`);
+});
+
+async function getManifestItem(ctx: ExtendedContext): Promise<Item> {
+    const item = await getItem(ctx.params.manifestId);
+    if (!item || !isManifest(item))
+        throw new HttpError(404, `No manifest found with id ${ctx.params.manifestId}`);
+
+    const access = await hasAccess(ctx, item, true);
+    if (access.state === AccessState.CLOSED)
+        throw new HttpError(401, 'Access denied');
+
+    return item;
+}
+
+async function getUserAnnotationOfManifest(ctx: ExtendedContext, item: Item): Promise<UserAnnotation> {
+    const userAnnotation = await getUserAnnotation(ctx.params.annotationId);
+    if (!userAnnotation || userAnnotation.manifest_id !== item.id)
+        throw new HttpError(404,
+            `No annotation found with id ${ctx.params.annotationId} in the container of manifest ${item.id}`);
+
+    return userAnnotation;
+}
+
+function checkIfMatch(ctx: ExtendedContext, userAnnotation: UserAnnotation): void {
+    const ifMatch = ctx.get('If-Match');
+    if (!ifMatch)
+        throw new HttpError(428, 'An If-Match header is required to change an annotation');
+
+    const etag = getETag(userAnnotation);
+    if (ifMatch.trim() !== '*' && !ifMatch.split(',').map(tag => tag.trim()).includes(etag))
+        throw new HttpError(412, `The annotation ${userAnnotation.annotation.id} has been changed in the meantime`);
+}
+
+function setAnnotation(ctx: ExtendedContext, userAnnotation: UserAnnotation): void {
+    ctx.set('Allow', 'GET, HEAD, PUT, DELETE, OPTIONS');
+    ctx.set('Link', '<http://www.w3.org/ns/ldp#Resource>; rel="type"');
+    ctx.set('Content-Type', ANNO_PROFILE);
+    ctx.vary('Accept');
+
+    ctx.etag = getETag(userAnnotation);
+    ctx.body = userAnnotation.annotation;
+}
+
+function getETag(userAnnotation: UserAnnotation): string {
+    return `"${hash(userAnnotation.annotation)}"`;
+}
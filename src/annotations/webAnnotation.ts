@@ -0,0 +1,178 @@
+import HttpError from '../lib/HttpError.js';
+import {ExtendedContext} from '../lib/Koa.js';
+import {Item} from '../lib/ItemInterfaces.js';
+import {hasAdminAccess, isAuthenticationEnabled, getIdentitiesFromRequest} from '../lib/Security.js';
+import {UserAnnotation, UserAnnotations, WebAnnotation} from '../lib/UserAnnotation.js';
+import {
+    annoContainerPageUri, annoContainerUri, canvasUri, canvasV2Uri, manifestUri, manifestV2Uri, userAnnoUri
+} from '../builder/UriHelper.js';
+
+export const ANNO_CONTEXT = 'http://www.w3.org/ns/anno.jsonld';
+export const LDP_CONTEXT = 'http://www.w3.org/ns/ldp.jsonld';
+export const ANNO_PROFILE = `application/ld+json; profile="${ANNO_CONTEXT}"`;
+export const ANNOTATIONS_PER_PAGE = 100;
+
+export type ContainerPreference = 'minimal' | 'iris' | 'descriptions';
+
+export interface AnnotationPage {
+    '@context'?: string;
+    id: string;
+    type: 'AnnotationPage';
+    partOf: { id: string, total: number };
+    startIndex: number;
+    prev?: string;
+    next?: string;
+    items: (WebAnnotation | string)[];
+}
+
+export interface AnnotationContainer {
+    '@context': string[];
+    id: string;
+    type: string[];
+    total: number;
+    first?: AnnotationPage | string;
+    last?: string;
+}
+
+export function createUserAnnotation(annotationId: string, annotation: WebAnnotation, manifest: Item,
+                                     items: Item[], creator: string | null = null,
+                                     existing?: UserAnnotation): UserAnnotation {
+    const types = annotation && typeof annotation === 'object' ? [annotation.type].flat() : [];
+    if (!types.includes('Annotation'))
+        throw new HttpError(400, 'The request body is not a Web Annotation!');
+
+    const target = getTarget(annotation);
+    if (!target)
+        throw new HttpError(400, 'The annotation has no target!');
+
+    // Annotations may only target the manifest itself or one of its canvases
+    const source = target.split('#')[0];
+    const item = items.find(item =>
+        [canvasUri, canvasV2Uri].some(uri => uri(manifest.id, item.order || 0) === source));
+    if (!item && ![manifestUri(manifest.id), manifestV2Uri(manifest.id)].includes(source))
+        throw new HttpError(400, `The target ${target} is not part of the manifest with id ${manifest.id}`);
+
+    const now = new Date().toISOString();
+    const createdAt = existing ? existing.created_at : now;
+
+    return {
+        id: annotationId,
+        manifest_id: manifest.id,
+        item_id: item ? item.id : null,
+        collection_id: manifest.collection_id,
+        motivation: getMotivations(annotation),
+        target,
+        text: getBodyText(annotation),
+        annotation: {
+            ...annotation,
+            '@context': ANNO_CONTEXT,
+            id: userAnnoUri(manifest.id, annotationId),
+            created: createdAt,
+            modified: existing ? now : undefined
+        },
+        creator: existing ? existing.creator : creator,
+        created_at: createdAt,
+        modified_at: now
+    };
+}
+
+// Besides an administrator, only users with a known identity may contribute annotations
+export async function getIdentitiesForWriting(ctx: ExtendedContext): Promise<string[]> {
+    if (hasAdminAccess(ctx))
+        return [];
+
+    const identities = isAuthenticationEnabled() ? await getIdentitiesFromRequest(ctx, true) : [];
+    if (identities.length === 0)
+        throw new HttpError(403, 'Only authenticated users may change annotations');
+
+    return identities;
+}
+
+export function checkCreator(ctx: ExtendedContext, userAnnotation: UserAnnotation, identities: string[]): void {
+    if (!hasAdminAccess(ctx) && !(userAnnotation.creator && identities.includes(userAnnotation.creator)))
+        throw new HttpError(403, `Only the creator of annotation ${userAnnotation.annotation.id} may change it`);
+}
+
+export function getMotivations(annotation: WebAnnotation): string[] {
+    const bodies = [annotation.body].flat().filter(body => body && typeof body === 'object');
+    const motivations = [annotation.motivation, ...bodies.map(body => body.purpose)]
+        .flat()
+        .filter(motivation => typeof motivation === 'string')
+        .map(motivation => motivation.replace(/^(oa|sc):/, ''));
+
+    return [...new Set(motivations)];
+}
+
+export function getBodyText(annotation: WebAnnotation): string {
+    const textualBodies = [annotation.body].flat().filter(body => body && typeof body === 'object'
+        && typeof body.value === 'string' && (!body.type || body.type === 'TextualBody'));
+
+    return [annotation.bodyValue, ...textualBodies.map(body => body.value)]
+        .filter(text => typeof text === 'string' && text.length > 0)
+        .join(' ');
+}
+
+export function getTarget(annotation: WebAnnotation): string | null {
+    const target = [annotation.target].flat()[0];
+    if (typeof target === 'string')
+        return target;
+
+    if (!target || typeof target !== 'object')
+        return null;
+
+    const source = typeof target.source === 'string' ? target.source : target.id;
+    if (typeof source !== 'string')
+        return null;
+
+    const selector = [target.selector].flat()
+        .find(selector => selector && selector.type === 'FragmentSelector' && typeof selector.value === 'string');
+
+    return selector ? `${source}#${selector.value}` : source;
+}
+
+export function getContainer(manifestId: string, userAnnotations: UserAnnotations,
+                             preference: ContainerPreference): AnnotationContainer {
+    const lastPage = Math.max(Math.ceil(userAnnotations.total / ANNOTATIONS_PER_PAGE) - 1, 0);
+    const container: AnnotationContainer = {
+        '@context': [ANNO_CONTEXT, LDP_CONTEXT],
+        id: annoContainerUri(manifestId),
+        type: ['BasicContainer', 'AnnotationCollection'],
+        total: userAnnotations.total
+    };
+
+    if (userAnnotations.total > 0) {
+        const firstPage = getPage(manifestId, userAnnotations, 0, preference === 'iris');
+        delete firstPage['@context'];
+
+        container.first = preference === 'minimal' ? firstPage.id : firstPage;
+        container.last = annoContainerPageUri(manifestId, lastPage);
+    }
+
+    return container;
+}
+
+export function getPage(manifestId: string, userAnnotations: UserAnnotations,
+                        page: number, iris = false): AnnotationPage {
+    const lastPage = Math.max(Math.ceil(userAnnotations.total / ANNOTATIONS_PER_PAGE) - 1, 0);
+
+    return {
+        '@context': ANNO_CONTEXT,
+        id: annoContainerPageUri(manifestId, page),
+        type: 'AnnotationPage',
+        partOf: {id: annoContainerUri(manifestId), total: userAnnotations.total},
+        startIndex: page * ANNOTATIONS_PER_PAGE,
+        prev: page > 0 ? annoContainerPageUri(manifestId, page - 1) : undefined,
+        next: page < lastPage ? annoContainerPageUri(manifestId, page + 1) : undefined,
+        items: userAnnotations.annotations.map(userAnnotation =>
+            iris ? userAnnotation.annotation.id : userAnnotation.annotation)
+    };
+}
+
+export function getContainerPreference(prefer: string): ContainerPreference {
+    const include = prefer.match(/include="([^"]*)"/)?.[1].split(/\s+/) || [];
+    if (include.includes('http://www.w3.org/ns/ldp#PreferMinimalContainer'))
+        return 'minimal';
+    if (include.includes('http://www.w3.org/ns/oa#PreferContainedIRIs'))
+        return 'iris';
+    return 'descriptions';
+}
@@ -35,13 +35,18 @@ async function startWeb() {
     const {default: json} = await import('koa-json');
     const {default: bodyParser} = await import('koa-bodyparser');
     const {default: compress} = await import('koa-compress');
+    const {conditionalGet} = await import('./lib/ConditionalGet.js');
 
     const {router: iiifImageRouter} = await import('./image/router.js');
     const {router: iiifPresentationRouter} = await import('./presentation/router.js');
     const {router: iiifSearchRouter} = await import('./search/router.js');
     const {router: iiifAuthRouter} = await import('./authentication/router.js');
+    const {router: iiifDiscoveryRouter} = await import('./discovery/router.js');
+    const {router: annotationsRouter} = await import('./annotations/router.js');
     const {router: fileRouter} = await import('./file/router.js');
     const {router: pdfRouter} = await import('./pdf/router.js');
+    const {router: downloadRouter} = await import('./download/router.js');
+    const {router: oaiRouter} = await import('./oai/router.js');
     const {router: textRouter} = await import('./text/router.js');
     const {router: helperRouter} = await import('./helper/router.js');
     const {router: adminRouter} = await import('./admin/router.js');
@@ -51,7 +56,10 @@ async function startWeb() {
 
     app.use(async (ctx, next) => {
         ctx.set('Access-Control-Allow-Origin', '*');
-        ctx.set('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+        ctx.set('Access-Control-Allow-Headers',
+            'Origin, X-Requested-With, Content-Type, Accept, Authorization, If-Match, Prefer');
+        ctx.set('Access-Control-Allow-Methods', 'GET, HEAD, POST, PUT, DELETE, OPTIONS');
+        ctx.set('Access-Control-Expose-Headers', 'ETag, Location, Link, Allow');
 
         if (ctx.method === 'OPTIONS')
             ctx.status = 204;
@@ -89,16 +97,21 @@ async function startWeb() {
     }
 
     app.use(compress());
+    app.use(conditionalGet);
     app.use(json({pretty: false, param: 'pretty'}));
-    app.use(bodyParser());
+    app.use(bodyParser({extendTypes: {json: ['application/ld+json']}}));
 
     app.use(iiifImageRouter.routes());
     app.use(iiifPresentationRouter.routes());
     app.use(iiifSearchRouter.routes());
     app.use(iiifAuthRouter.routes());
+    app.use(iiifDiscoveryRouter.routes());
+    app.use(annotationsRouter.routes());
 
     app.use(fileRouter.routes());
     app.use(pdfRouter.routes());
+    app.use(downloadRouter.routes());
+    app.use(oaiRouter.routes());
     app.use(textRouter.routes());
     app.use(helperRouter.routes());
     app.use(adminRouter.routes());
@@ -3,21 +3,35 @@ import {createReadStream} from 'fs';
 import Router from '@koa/router';
 
 import config from '../lib/Config.js';
+import HttpError from '../lib/HttpError.js';
+import {determineItem} from '../lib/Item.js';
 import {ExtendedContext} from '../lib/Koa.js';
 import {
     checkTokenDb,
+    hasAccess,
     getAccessIdFromRequest,
     removeAccessIdFromRequest,
     setAccessIdForIdentity,
     setAccessTokenForAccessId
 } from '../lib/Security.js';
 
+import {getAuthProbeResult} from '../builder/PresentationBuilder.js';
+
 type TokenBody = Record<'token', string | undefined>;
 
 type Message = { messageId?: string };
 type AccessTokenMessage = Message & { accessToken: string, expiresIn: number };
 type ErrorMessage = Message & { error: string, description: string };
 
+type Message2 = { '@context': string, messageId?: string };
+type AccessTokenMessage2 = Message2 & { type: 'AuthAccessToken2', accessToken: string, expiresIn: number };
+type ErrorMessage2 = Message2 & {
+    type: 'AuthAccessTokenError2',
+    profile: string,
+    heading: Record<string, string[]>,
+    note: Record<string, string[]>
+};
+
 const prefix = '/iiif/auth';
 export const router = new Router<DefaultState, ExtendedContext>({prefix});
 
@@ -68,6 +82,52 @@ router.get('/token', async ctx => {
         ctx.body = message;
 });
 
+router.get('/token2', async ctx => {
+    const accessId = await getAccessIdFromRequest(ctx, false);
+    const token = (accessId) ? await setAccessTokenForAccessId(accessId) : null;
+
+    const message: AccessTokenMessage2 | ErrorMessage2 = (token)
+        ? {
+            '@context': 'http://iiif.io/api/auth/2/context.json',
+            type: 'AuthAccessToken2',
+            accessToken: token,
+            expiresIn: config.accessTtl
+        }
+        : {
+            '@context': 'http://iiif.io/api/auth/2/context.json',
+            type: 'AuthAccessTokenError2',
+            profile: 'missingAspect',
+            heading: {en: ['Access denied']},
+            note: {en: ['No access cookie found!']}
+        };
+
+    const messageId = ctx.queryFirst('messageId');
+    const origin = ctx.queryFirst('origin');
+    if (messageId && origin) {
+        message.messageId = messageId;
+
+        ctx.type = 'text/html';
+        ctx.body = `<html>
+            <body>
+            <script>
+                window.parent.postMessage(${JSON.stringify(message)}, ${JSON.stringify(origin)});
+            </script>
+            </body>
+            </html>`;
+    }
+    else
+        ctx.body = message;
+});
+
+router.get('/probe/:id', async ctx => {
+    const item = await determineItem(ctx.params.id);
+    if (!item)
+        throw new HttpError(404, `No item found with id ${ctx.params.id}`);
+
+    const access = await hasAccess(ctx, item, true);
+    ctx.body = await getAuthProbeResult(item, access);
+});
+
 router.get('/logout', async ctx => {
     await removeAccessIdFromRequest(ctx);
 
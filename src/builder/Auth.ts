@@ -0,0 +1,116 @@
+import {AuthTexts, Internationalized, Service} from '@archival-iiif/presentation-builder/v3';
+
+import config from '../lib/Config.js';
+import {Item} from '../lib/ItemInterfaces.js';
+import {AuthTextsByType} from '../lib/ServiceTypes.js';
+import {Access, AccessState, getAuthTexts} from '../lib/Security.js';
+
+import {authUri, authProbeUri, imageResourceUri, imageV3ResourceUri} from './UriHelper.js';
+
+const AUTH_CONTEXT_2 = 'http://iiif.io/api/auth/2/context.json';
+
+type AuthAccessProfile = 'active' | 'external';
+type ResourceRef = { id: string, type: string };
+
+export interface AuthProbeResult {
+    '@context': string;
+    id: string;
+    type: 'AuthProbeResult2';
+    status: number;
+    substitute?: ResourceRef[];
+    heading?: Internationalized;
+    note?: Internationalized;
+}
+
+export class AuthService2 extends Service {
+    label?: Internationalized;
+    heading?: Internationalized;
+    note?: Internationalized;
+    confirmLabel?: Internationalized;
+    errorHeading?: Internationalized;
+    errorNote?: Internationalized;
+
+    constructor(id: string | undefined, type: string, profile?: string) {
+        super(id, type, profile as string);
+    }
+
+    setAuthTexts(authTexts: AuthTexts): void {
+        if (authTexts.label)
+            this.label = i18n(authTexts.label);
+        if (authTexts.header)
+            this.heading = i18n(authTexts.header);
+        if (authTexts.description)
+            this.note = i18n(authTexts.description);
+        if (authTexts.confirmLabel)
+            this.confirmLabel = i18n(authTexts.confirmLabel);
+    }
+
+    setErrorTexts(authTexts: AuthTexts): void {
+        if (authTexts.failureHeader)
+            this.errorHeading = i18n(authTexts.failureHeader);
+        if (authTexts.failureDescription)
+            this.errorNote = i18n(authTexts.failureDescription);
+    }
+}
+
+export async function getAuthProbeService(item: Item, authTexts?: AuthTextsByType): Promise<AuthService2> {
+    authTexts = authTexts || await getAuthTexts(item);
+
+    const probeService = new AuthService2(authProbeUri(item.id), 'AuthProbeService2');
+    for (const type of ['login', 'external'] as ('login' | 'external')[]) {
+        if (type in authTexts)
+            probeService.setService(getAuthAccessService(type === 'login' ? 'active' : 'external', authTexts));
+    }
+
+    return probeService;
+}
+
+export async function getAuthProbeResult(item: Item, access: Access): Promise<AuthProbeResult> {
+    const probeResult: AuthProbeResult = {
+        '@context': AUTH_CONTEXT_2,
+        id: authProbeUri(item.id),
+        type: 'AuthProbeResult2',
+        status: access.state === AccessState.OPEN ? 200 : 401
+    };
+
+    if (access.state === AccessState.TIERED && item.type === 'image') {
+        const resourceUri = config.imageApiVersion === 3 ? imageV3ResourceUri : imageResourceUri;
+        probeResult.substitute = [{id: resourceUri(item.id, access.tier.name), type: 'Image'}];
+    }
+
+    if (access.state !== AccessState.OPEN) {
+        const authTexts = await getAuthTexts(item);
+        const texts = authTexts.login || authTexts.external;
+        if (texts?.failureHeader)
+            probeResult.heading = i18n(texts.failureHeader);
+        if (texts?.failureDescription)
+            probeResult.note = i18n(texts.failureDescription);
+    }
+
+    return probeResult;
+}
+
+function getAuthAccessService(profile: AuthAccessProfile, authTexts: AuthTextsByType): AuthService2 {
+    const texts = profile === 'active' ? authTexts.login : authTexts.external;
+
+    // Only an active access service has a user interface which is opened by the client
+    const accessService = new AuthService2(
+        profile === 'active' ? authUri('login') : undefined, 'AuthAccessService2', profile);
+    accessService.setAuthTexts(texts);
+
+    const tokenService = new AuthService2(authUri('token2'), 'AuthAccessTokenService2');
+    tokenService.setErrorTexts(texts);
+    accessService.setService(tokenService);
+
+    if (profile === 'active' && authTexts.logout) {
+        const logoutService = new AuthService2(authUri('logout'), 'AuthLogoutService2');
+        logoutService.setAuthTexts(authTexts.logout);
+        accessService.setService(logoutService);
+    }
+
+    return accessService;
+}
+
+function i18n(text: string): Internationalized {
+    return {en: [text]};
+}
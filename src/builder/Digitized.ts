@@ -1,3 +1,4 @@
+import config from '../lib/Config.js';
 import {runLib} from '../lib/Task.js';
 import {getWordsFromStructure} from '../lib/TextStructure.js';
 import {Item, RootItem, FileItem} from '../lib/ItemInterfaces.js';
@@ -18,19 +19,30 @@ import {
     addMetadata,
     addStructures,
     createAnnotationPage,
+    getLegacyRangeId as getLegacyRangeIdFromHierarchy,
 } from './PresentationUtils.js';
 
 import {
     annoCollUri,
+    annoContainerPageUri,
     annoPageUri,
     annoUri,
     fileUri,
+    manifestUri,
     searchUri,
     autocompleteUri,
+    searchV2Uri,
+    autocompleteV2Uri,
     textUri,
     textPlainUri
 } from './UriHelper.js';
 
+export class SearchService2 extends Service {
+    constructor(id: string, type: string, profile?: string) {
+        super(id, type, profile as string);
+    }
+}
+
 export async function getManifest(parentItem: RootItem): Promise<Manifest> {
     const manifest = await createManifest(parentItem);
 
@@ -59,6 +71,9 @@ export async function getManifest(parentItem: RootItem): Promise<Manifest> {
 
     await addStructures(manifest, parentItem, items, ranges);
 
+    // The user annotations on this manifest are maintained in a Web Annotation container
+    manifest.setAnnotations(new AnnotationPage(annoContainerPageUri(parentItem.id, 0)));
+
     if (texts.length > 0)
         setSearchService(manifest, parentItem);
 
@@ -69,6 +84,13 @@ export async function getReference(item: RootItem): Promise<Manifest> {
     return createMinimalManifest(item);
 }
 
+export async function getLegacyRangeId(item: RootItem, rangeNumber: number): Promise<string | null> {
+    const items = await getChildItems(item);
+    const ranges = await getRangeItemsByCollectionId(item.id);
+
+    return getLegacyRangeIdFromHierarchy(items, ranges, rangeNumber);
+}
+
 export async function getAnnotationPage(item: RootItem, text: Text): Promise<AnnotationPage> {
     const annoPage = createAnnotationPage(item, text);
 
@@ -78,25 +100,14 @@ export async function getAnnotationPage(item: RootItem, text: Text): Promise<Ann
     const childItem = items.find(item => item.id === text.item_id) as FileItem;
     const canvas = await createCanvas(childItem, item);
 
-    const firstItem = items.reduce<Text | undefined>((acc, item) =>
-        acc || texts.find(text => item.id === text.item_id), undefined);
-    const lastItem = items.reverse().reduce<Text | undefined>((acc, item) =>
-        acc || texts.find(text => item.id === text.item_id), undefined);
-
-    const prevItem = items.reverse().reduce<Text | undefined>((acc, item) =>
+    const prevItem = [...items].reverse().reduce<Text | undefined>((acc, item) =>
         acc || (item.order && childItem.order && item.order < childItem.order
             && texts.find(text => item.id === text.item_id)) || undefined, undefined);
     const nextItem = items.reduce<Text | undefined>((acc, item) =>
         acc || (item.order && childItem.order && item.order > childItem.order
             && texts.find(text => item.id === text.item_id)) || undefined, undefined);
 
-    const annoCollection = new AnnotationCollection(annoCollUri(item.id, text.type, text.language));
-
-    annoCollection.setLabel(text.type === 'transcription' ? 'Transcription' : `Translation ${text.language}`);
-    annoCollection.setFirstAndLast('AnnotationPage',
-        firstItem ? annoPageUri(item.id, firstItem.id) : undefined,
-        lastItem ? annoPageUri(item.id, lastItem.id) : undefined
-    );
+    const annoCollection = createAnnotationCollection(item, items, texts, text.type, text.language);
 
     annoPage.setParent(annoCollection);
     annoPage.setPrevAndNext('AnnotationPage',
@@ -105,7 +116,6 @@ export async function getAnnotationPage(item: RootItem, text: Text): Promise<Ann
     );
 
     setSearchService(annoPage, text);
-    setSearchService(annoCollection, item, text.type, text.language);
 
     if (text.structure) {
         const annotations: Annotation[] = [];
@@ -113,7 +123,7 @@ export async function getAnnotationPage(item: RootItem, text: Text): Promise<Ann
         for (const word of getWordsFromStructure(text.structure)) {
             if (word.x && word.y && word.width && word.height) {
                 const resource = Resource.createTextResource(word.content, text.language);
-                const annotation = new Annotation(annoUri(item.id, childItem.id, word.idx), resource, 'supplementing');
+                const annotation = new Annotation(annoUri(item.id, text.id, word.idx), resource, 'supplementing');
 
                 annotation.setTextGranularity('word');
                 annotation.setCanvas(canvas, {x: word.x, y: word.y, w: word.width, h: word.height});
@@ -126,7 +136,7 @@ export async function getAnnotationPage(item: RootItem, text: Text): Promise<Ann
     }
     else {
         const resource = Resource.createTextResource(text.text, text.language);
-        const annotation = new Annotation(annoUri(item.id, childItem.id), resource, 'supplementing');
+        const annotation = new Annotation(annoUri(item.id, text.id), resource, 'supplementing');
 
         annotation.setTextGranularity('page');
         annotation.setCanvas(canvas);
@@ -137,6 +147,40 @@ export async function getAnnotationPage(item: RootItem, text: Text): Promise<Ann
     return annoPage;
 }
 
+export async function getAnnotationCollection(item: RootItem, type: string,
+                                              language: string | null): Promise<AnnotationCollection | null> {
+    const items = await getChildItems(item) as FileItem[];
+    const texts = await withTexts(getTextsForCollectionId(item.id, type, language));
+    if (texts.length === 0)
+        return null;
+
+    const annoCollection = createAnnotationCollection(item, items, texts, type, language);
+    annoCollection.setContext();
+    annoCollection.setParent(manifestUri(item.id), 'Manifest');
+
+    return annoCollection;
+}
+
+function createAnnotationCollection(item: RootItem, items: FileItem[], texts: Text[],
+                                    type: string, language: string | null): AnnotationCollection {
+    const firstItem = items.reduce<Text | undefined>((acc, item) =>
+        acc || texts.find(text => item.id === text.item_id), undefined);
+    const lastItem = [...items].reverse().reduce<Text | undefined>((acc, item) =>
+        acc || texts.find(text => item.id === text.item_id), undefined);
+
+    const annoCollection = new AnnotationCollection(annoCollUri(item.id, type, language));
+
+    annoCollection.setLabel(type === 'transcription' ? 'Transcription' : `Translation ${language}`);
+    annoCollection.setFirstAndLast('AnnotationPage',
+        firstItem ? annoPageUri(item.id, firstItem.id) : undefined,
+        lastItem ? annoPageUri(item.id, lastItem.id) : undefined
+    );
+
+    setSearchService(annoCollection, item, type, language);
+
+    return annoCollection;
+}
+
 function addBehavior(manifest: Manifest, item: Item, md: BasicIIIFMetadata, hasMultipleItems = true): void {
     manifest.setViewingDirection('left-to-right');
     manifest.setBehavior(hasMultipleItems && md.behavior ? md.behavior : 'individuals');
@@ -167,6 +211,15 @@ function addText(canvas: Canvas, item: Item, text: Text): void {
 }
 
 function setSearchService(base: Base, item: Item | Text, type?: string, language?: string | null): void {
+    // Search API 2.0 services are identified by their type only and come without a profile
+    if (config.searchApiVersion === 2) {
+        const service = new SearchService2(searchV2Uri(item.id, type, language), 'SearchService2');
+        service.setService(new SearchService2(autocompleteV2Uri(item.id, type, language), 'AutoCompleteService2'));
+
+        base.setService(service);
+        return;
+    }
+
     const service = new Service(
         searchUri(item.id, type, language),
         Service.SEARCH_SERVICE_1,
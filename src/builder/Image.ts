@@ -1,4 +1,5 @@
 import {AuthService, Image, AccessTier, ImageProfile} from '@archival-iiif/presentation-builder/v2';
+import {AuthService as AuthServiceV3, Image as ImageV3} from '@archival-iiif/presentation-builder/v3';
 
 import config from '../lib/Config.js';
 import {Item} from '../lib/ItemInterfaces.js';
@@ -7,20 +8,17 @@ import {DerivativeType} from '../lib/Derivative.js';
 import {getFullDerivativePath, getFullPathFor} from '../lib/Item.js';
 import {AccessState, getAuthTexts, getDefaultAccess} from '../lib/Security.js';
 
-import {authUri, imageUri} from './UriHelper.js';
+import {ImageProfileV3} from '../image/profiles.js';
+import {ImageInfo} from '../image/imageServer.js';
 
-const dimensions: { [type: string]: [number, number] } = {};
+import {getAuthProbeService} from './Auth.js';
+import {authUri, imageUri, imageV3Uri} from './UriHelper.js';
 
-export async function getInfo(item: Item, derivative: DerivativeType | null,
-                              profile: ImageProfile, tier?: AccessTier): Promise<Image> {
-    let width = item.width as number;
-    let height = item.height as number;
+const dimensions: { [type: string]: [number, number] } = {};
 
-    if (derivative && (item.type === 'pdf' || derivative.type === 'video-mosaic')) {
-        const size = await sizeOf(getFullDerivativePath(item, derivative));
-        width = size?.width as number;
-        height = size?.height as number;
-    }
+export async function getInfo(item: Item, derivative: DerivativeType | null, profile: ImageProfile,
+                              tier?: AccessTier, info?: ImageInfo): Promise<Image> {
+    const [width, height] = await getDimensions(item, derivative);
 
     const access = await getDefaultAccess(item);
     if (access.tier)
@@ -30,6 +28,12 @@ export async function getInfo(item: Item, derivative: DerivativeType | null,
     imageInfo.setContext('http://iiif.io/api/image/2/context.json');
     imageInfo.setImageProfile(profile);
 
+    if (info) {
+        const [sizes, tiles] = getSizesAndTiles(info, width, access.tier?.maxSize);
+        imageInfo.setSizes(sizes);
+        imageInfo.setTiles(tiles);
+    }
+
     if (access.state !== AccessState.OPEN) {
         const authTexts = await getAuthTexts(item);
         for (const type of ['login', 'external'] as ('login' | 'external')[]) {
@@ -47,21 +51,107 @@ export async function getInfo(item: Item, derivative: DerivativeType | null,
     return imageInfo;
 }
 
-export async function getStaticImageInfo(type: 'logo' | 'audio', profile?: ImageProfile): Promise<Image> {
-    let width: number | undefined, height: number | undefined;
-    if (type in dimensions)
-        [width, height] = dimensions[type];
-    else {
-        const relativePath = type === 'logo' ? config.logoRelativePath : config.audioRelativePath;
-        const size = await sizeOf(getFullPathFor(relativePath!));
-        width = size?.width as number;
-        height = size?.height as number;
-        dimensions[type] = [width, height];
+export async function getInfoV3(item: Item, derivative: DerivativeType | null, profile: ImageProfileV3,
+                                tier?: AccessTier, info?: ImageInfo): Promise<ImageV3> {
+    const [width, height] = await getDimensions(item, derivative);
+
+    const imageInfo = new ImageV3(imageV3Uri(item.id), width, height);
+    imageInfo.setContext();
+    setImageProfileV3(imageInfo, profile);
+
+    const access = await getDefaultAccess(item);
+    if (access.tier) {
+        const maxSize = ImageV3.computeMaxSize(access.tier, width, height);
+        imageInfo.setMaxWidth(maxSize.width);
+        imageInfo.setMaxHeight(maxSize.height);
+        imageInfo.setMaxArea(maxSize.width * maxSize.height);
+    }
+
+    if (info) {
+        const [sizes, tiles] = getSizesAndTiles(info, width, access.tier?.maxSize);
+        imageInfo.setSizes(sizes);
+        imageInfo.setTiles(tiles);
     }
 
+    if (access.state !== AccessState.OPEN) {
+        const authTexts = await getAuthTexts(item);
+        for (const type of ['login', 'external'] as ('login' | 'external')[]) {
+            const service = AuthServiceV3.getAuthenticationService(authUri, authTexts, type);
+            if (service !== null)
+                imageInfo.setService(service);
+        }
+
+        imageInfo.setService(await getAuthProbeService(item, authTexts));
+    }
+
+    if (derivative?.imageTier)
+        imageInfo.setTier(derivative.imageTier, config.imageTierSeparator);
+    else if (typeof tier === 'object')
+        imageInfo.setTier(tier, config.imageTierSeparator);
+
+    return imageInfo;
+}
+
+export async function getStaticImageInfo(type: 'logo' | 'audio', profile?: ImageProfile): Promise<Image> {
+    const [width, height] = await getStaticDimensions(type);
+
     const imageInfo = new Image(imageUri(type), width, height);
     imageInfo.setContext('http://iiif.io/api/image/2/context.json');
     profile && imageInfo.setImageProfile(profile);
 
     return imageInfo;
 }
+
+export async function getStaticImageInfoV3(type: 'logo' | 'audio', profile?: ImageProfileV3): Promise<ImageV3> {
+    const [width, height] = await getStaticDimensions(type);
+
+    const imageInfo = new ImageV3(imageV3Uri(type), width, height);
+    imageInfo.setContext();
+    profile && setImageProfileV3(imageInfo, profile);
+
+    return imageInfo;
+}
+
+async function getDimensions(item: Item, derivative: DerivativeType | null): Promise<[number, number]> {
+    if (derivative && (item.type === 'pdf' || derivative.type === 'video-mosaic')) {
+        const size = await sizeOf(getFullDerivativePath(item, derivative));
+        return [size?.width as number, size?.height as number];
+    }
+
+    return [item.width as number, item.height as number];
+}
+
+async function getStaticDimensions(type: 'logo' | 'audio'): Promise<[number, number]> {
+    if (!(type in dimensions)) {
+        const relativePath = type === 'logo' ? config.logoRelativePath : config.audioRelativePath;
+        const size = await sizeOf(getFullPathFor(relativePath!));
+        dimensions[type] = [size?.width as number, size?.height as number];
+    }
+
+    return dimensions[type];
+}
+
+function getSizesAndTiles(info: ImageInfo, width: number,
+                          maxSize?: number): [ImageInfo['sizes'], ImageInfo['tiles']] {
+    if (!maxSize)
+        return [info.sizes, info.tiles];
+
+    // Only advertise the sizes and the scale factors that do not exceed the size allowed by the tier
+    const sizes = info.sizes?.filter(size => size.width <= maxSize && size.height <= maxSize);
+    const tiles = info.tiles
+        ?.map(tiles => ({...tiles, scaleFactors: tiles.scaleFactors.filter(factor => width / factor <= maxSize)}))
+        .filter(tiles => tiles.scaleFactors.length > 0);
+
+    return [
+        sizes && sizes.length > 0 ? sizes : undefined,
+        tiles && tiles.length > 0 ? tiles : undefined
+    ];
+}
+
+function setImageProfileV3(imageInfo: ImageV3, profile: ImageProfileV3): void {
+    imageInfo.setProfile('level2');
+    imageInfo.setExtraFormats(profile.extraFormats);
+    imageInfo.setPreferredFormats(profile.preferredFormats);
+    imageInfo.setExtraQualities(profile.extraQualities);
+    imageInfo.setExtraFeatures(profile.extraFeatures);
+}
@@ -1,18 +1,30 @@
-import {Manifest, Collection, AnnotationPage} from '@archival-iiif/presentation-builder/v3';
-import {TermList, Image, ImageProfile, AnnotationList} from '@archival-iiif/presentation-builder/v2';
+import {
+    Manifest, Collection, AnnotationPage, AnnotationCollection, Canvas, Range, Annotation, Image as ImageV3
+} from '@archival-iiif/presentation-builder/v3';
+import {
+    TermList, Image, ImageProfile, Collection as CollectionV2, AnnotationList
+} from '@archival-iiif/presentation-builder/v2';
 
 import {Text} from '../lib/Text.js';
 import {Access} from '../lib/Security.js';
 import {DerivativeType} from '../lib/Derivative.js';
+import {ImageProfileV3} from '../image/profiles.js';
+import {ImageInfo} from '../image/imageServer.js';
 import {FileItem, FolderItem, Item, MetadataItem, RootItem} from '../lib/ItemInterfaces.js';
 
-import {SearchResult} from '../search/search.js';
+import {CollectionSearchResults, ItemSearchResults, SearchResults} from '../search/search.js';
 
 import * as Search from './Search.js';
+import {ItemSearchCollection, SearchCollection, SearchAnnotationList, SearchAnnotationPage, TermPage} from './Search.js';
 import * as Metadata from './Metadata.js';
 import * as Digitized from './Digitized.js';
 import * as DigitalBorn from './DigitalBorn.js';
+import * as PresentationV2 from './PresentationV2.js';
+import {Manifest as ManifestV2} from './PresentationV2.js';
 import * as ImageFunctions from './Image.js';
+import * as AuthFunctions from './Auth.js';
+import * as PresentationUtils from './PresentationUtils.js';
+import {AuthProbeResult} from './Auth.js';
 
 export interface PresentationBuilder {
     isCollection: (item: Item | null) => boolean;
@@ -20,13 +32,34 @@ export interface PresentationBuilder {
     getCollection: (item: Item, access: Access) => Promise<Collection | null>;
     getManifest: (item: Item, access: Access) => Promise<Manifest | null>;
     getReference: (item: Item) => Promise<Collection | Manifest | null>;
-    getSearch: (searchResults: SearchResult[], query: string, ignored: string[], items: Item[],
-                id: string, type?: string, language?: string) => AnnotationList;
+    getCanvas: (item: Item, manifest: Manifest, page: number) => Canvas | null;
+    getRange: (item: Item, manifest: Manifest, rangeId: string) => Range | null;
+    getLegacyRangeId: (item: Item, rangeNumber: number) => Promise<string | null>;
+    getAnnotation: (item: Item, manifest: Manifest, childId: string, page: number,
+                    annoPage?: AnnotationPage) => Annotation | null;
+    getAnnotationCollection: (item: Item, type: string, language: string | null) => Promise<AnnotationCollection | null>;
+    getCollectionV2: (item: Item, access: Access) => Promise<CollectionV2 | null>;
+    getManifestV2: (item: Item, access: Access) => Promise<ManifestV2 | null>;
+    getAnnotationListV2: (item: Item, text: Text) => Promise<AnnotationList>;
+    getSearch: (searchResults: SearchResults, query: string, ignored: string[], items: Item[],
+                id: string, type?: string, language?: string) => SearchAnnotationList;
     getAutocomplete: (suggestions: Set<string>, query: string, ignored: string[],
                       id: string, type?: string, language?: string) => TermList;
+    getSearchV2: (searchResults: SearchResults, query: string, ignored: string[], items: Item[],
+                  id: string, type?: string, language?: string) => SearchAnnotationPage;
+    getAutocompleteV2: (suggestions: Set<string>, query: string, ignored: string[],
+                        id: string, type?: string, language?: string) => TermPage;
+    getSearchCollection: (searchResults: CollectionSearchResults, items: Item[], query: string,
+                          filters: { [name: string]: string | undefined }) => Promise<SearchCollection>;
+    getItemSearchCollection: (searchResults: ItemSearchResults, query: string,
+                              filters: { [name: string]: string | undefined }) => Promise<ItemSearchCollection>;
     getImageInfo: (item: Item, derivative: DerivativeType | null,
-                   profile: ImageProfile, access: Access) => Promise<Image>;
+                   profile: ImageProfile, access: Access, info?: ImageInfo) => Promise<Image>;
     getStaticImageInfo: (type: 'logo' | 'audio', profile?: ImageProfile) => Promise<Image>;
+    getImageInfoV3: (item: Item, derivative: DerivativeType | null,
+                     profile: ImageProfileV3, access: Access, info?: ImageInfo) => Promise<ImageV3>;
+    getStaticImageInfoV3: (type: 'logo' | 'audio', profile?: ImageProfileV3) => Promise<ImageV3>;
+    getAuthProbeResult: (item: Item, access: Access) => Promise<AuthProbeResult>;
 }
 
 export const isCollection = (item: Item | null): boolean =>
@@ -63,6 +96,34 @@ export async function getAnnotationPage(item: Item, text: Text): Promise<Annotat
     return Digitized.getAnnotationPage(item as RootItem, text);
 }
 
+export function getCanvas(item: Item, manifest: Manifest, page: number): Canvas | null {
+    return PresentationUtils.getEmbeddedCanvas(manifest, item, page);
+}
+
+export function getRange(item: Item, manifest: Manifest, rangeId: string): Range | null {
+    return PresentationUtils.getEmbeddedRange(manifest, item, rangeId);
+}
+
+export async function getLegacyRangeId(item: Item, rangeNumber: number): Promise<string | null> {
+    if (item && (item.type === 'root'))
+        return Digitized.getLegacyRangeId(item as RootItem, rangeNumber);
+
+    return null;
+}
+
+export function getAnnotation(item: Item, manifest: Manifest, childId: string, page: number,
+                              annoPage?: AnnotationPage): Annotation | null {
+    return PresentationUtils.getEmbeddedAnnotation(manifest, item, childId, page, annoPage);
+}
+
+export async function getAnnotationCollection(item: Item, type: string,
+                                              language: string | null): Promise<AnnotationCollection | null> {
+    if (item && (item.type === 'root'))
+        return Digitized.getAnnotationCollection(item as RootItem, type, language);
+
+    return null;
+}
+
 export async function getReference(item: Item): Promise<Collection | Manifest | null> {
     if (item && (item.type === 'metadata'))
         return Metadata.getReference(item as MetadataItem);
@@ -76,8 +137,26 @@ export async function getReference(item: Item): Promise<Collection | Manifest |
     return null;
 }
 
-export function getSearch(searchResults: SearchResult[], query: string, ignored: string[],
-                          items: Item[], id: string, type?: string, language?: string | null): AnnotationList {
+export async function getCollectionV2(item: Item, access: Access): Promise<CollectionV2 | null> {
+    if (item && (item.type === 'metadata' || item.type === 'folder'))
+        return PresentationV2.getCollection(item as MetadataItem | FolderItem, access);
+
+    return null;
+}
+
+export async function getManifestV2(item: Item, access: Access): Promise<ManifestV2 | null> {
+    if (item && (item.type === 'root' || (item.type !== 'metadata' && item.type !== 'folder' && !item.order)))
+        return PresentationV2.getManifest(item as RootItem | FileItem, access);
+
+    return null;
+}
+
+export async function getAnnotationListV2(item: Item, text: Text): Promise<AnnotationList> {
+    return PresentationV2.getAnnotationList(item as RootItem, text);
+}
+
+export function getSearch(searchResults: SearchResults, query: string, ignored: string[],
+                          items: Item[], id: string, type?: string, language?: string | null): SearchAnnotationList {
     return Search.getAnnotationList(searchResults, query, ignored, items, id, type, language);
 }
 
@@ -86,23 +165,71 @@ export function getAutocomplete(suggestions: Set<string>, query: string, ignored
     return Search.getAutocomplete(suggestions, query, ignored, id, type, language);
 }
 
+export function getSearchV2(searchResults: SearchResults, query: string, ignored: string[],
+                            items: Item[], id: string, type?: string, language?: string | null): SearchAnnotationPage {
+    return Search.getAnnotationPage(searchResults, query, ignored, items, id, type, language);
+}
+
+export function getAutocompleteV2(suggestions: Set<string>, query: string, ignored: string[],
+                                  id: string, type?: string, language?: string | null): TermPage {
+    return Search.getTermPage(suggestions, query, ignored, id, type, language);
+}
+
+export async function getSearchCollection(searchResults: CollectionSearchResults, items: Item[], query: string,
+                                          filters: { [name: string]: string | undefined }): Promise<SearchCollection> {
+    return Search.getCollection(searchResults, items, query, filters, builder);
+}
+
+export async function getItemSearchCollection(searchResults: ItemSearchResults, query: string,
+                                              filters: { [name: string]: string | undefined }) {
+    return Search.getItemsCollection(searchResults, query, filters, builder);
+}
+
 export async function getImageInfo(item: Item, derivative: DerivativeType | null,
-                                   profile: ImageProfile, access: Access) {
-    return ImageFunctions.getInfo(item, derivative, profile, access.tier);
+                                   profile: ImageProfile, access: Access, info?: ImageInfo) {
+    return ImageFunctions.getInfo(item, derivative, profile, access.tier, info);
 }
 
 export async function getStaticImageInfo(type: 'logo' | 'audio', profile?: ImageProfile) {
     return ImageFunctions.getStaticImageInfo(type, profile);
 }
 
+export async function getImageInfoV3(item: Item, derivative: DerivativeType | null,
+                                     profile: ImageProfileV3, access: Access, info?: ImageInfo) {
+    return ImageFunctions.getInfoV3(item, derivative, profile, access.tier, info);
+}
+
+export async function getStaticImageInfoV3(type: 'logo' | 'audio', profile?: ImageProfileV3) {
+    return ImageFunctions.getStaticImageInfoV3(type, profile);
+}
+
+export async function getAuthProbeResult(item: Item, access: Access) {
+    return AuthFunctions.getAuthProbeResult(item, access);
+}
+
 const builder: PresentationBuilder = {
     isCollection,
     isManifest,
     getCollection,
     getManifest,
     getReference,
+    getCanvas,
+    getRange,
+    getLegacyRangeId,
+    getAnnotation,
+    getAnnotationCollection,
+    getCollectionV2,
+    getManifestV2,
+    getAnnotationListV2,
     getSearch,
     getAutocomplete,
+    getSearchV2,
+    getAutocompleteV2,
+    getSearchCollection,
+    getItemSearchCollection,
     getImageInfo,
     getStaticImageInfo,
+    getImageInfoV3,
+    getStaticImageInfoV3,
+    getAuthProbeResult,
 };
@@ -26,11 +26,14 @@ import {
     fileUri,
     imageResourceUri,
     imageUri,
+    imageV3ResourceUri,
+    imageV3Uri,
     manifestUri
 } from './UriHelper.js';
 import {getStaticImageInfo} from './Image.js';
+import {getAuthProbeService} from './Auth.js';
 
-type HierarchyType = { range: RangeItem, children: HierarchyType[], items: Item[] };
+export type RangeHierarchy = { range: RangeItem, children: RangeHierarchy[], items: Item[] };
 
 export function createMinimalCollection(item: Item, label?: string): Collection {
     return new Collection(collectionUri(item.id), label || item.label);
@@ -88,14 +91,24 @@ export async function createCanvas(item: FileItem, parentItem: Item, setAuth: bo
 
 export async function addStructures(manifest: Manifest, parentItem: Item,
                                     items: Item[], ranges: RangeItem[]): Promise<void> {
-    const hierarchyById: { [id: string]: HierarchyType } = {};
-    const hierarchy: HierarchyType[] = items
+    const hierarchy = getRangeHierarchy(items, ranges);
+
+    const structures: Range[] = [];
+    for (const curLevel of hierarchy)
+        structures.push(await createRange(curLevel, parentItem.id));
+
+    structures.length > 0 && manifest.setStructures(structures);
+}
+
+export function getRangeHierarchy(items: Item[], ranges: RangeItem[]): RangeHierarchy[] {
+    const hierarchyById: { [id: string]: RangeHierarchy } = {};
+    return items
         .flatMap(item => item.range_ids)
-        .reduce<HierarchyType[]>((acc, id) => {
+        .reduce<RangeHierarchy[]>((acc, id) => {
             let range = ranges.find(r => r.id === id);
             if (!(id in hierarchyById) && range) {
                 let addToAcc = true;
-                let toAdd: HierarchyType = {
+                let toAdd: RangeHierarchy = {
                     range,
                     children: [],
                     items: items.filter(item => item.range_ids.includes(id))
@@ -123,20 +136,23 @@ export async function addStructures(manifest: Manifest, parentItem: Item,
             }
             return acc;
         }, []);
+}
 
-    let i = 1;
-    const createRangeId = () => rangeUri(parentItem.id, i++);
+export function getLegacyRangeId(items: Item[], ranges: RangeItem[], rangeNumber: number): string | null {
+    // Ranges used to be numbered in the order of a depth-first traversal of the range hierarchy
+    const flatten = (levels: RangeHierarchy[]): RangeItem[] =>
+        levels.flatMap(level => [level.range, ...flatten(level.children)]);
 
-    const structures = await Promise.all(hierarchy.map(curLevel =>
-        createRange(curLevel, parentItem.id, createRangeId)))
-    structures.length > 0 && manifest.setStructures(structures);
+    return flatten(getRangeHierarchy(items, ranges))[rangeNumber - 1]?.id || null;
 }
 
-async function createRange(curLevel: HierarchyType, rootId: string, createRangeId: () => string): Promise<Range> {
-    const range = new Range(createRangeId(), curLevel.range.label);
+async function createRange(curLevel: RangeHierarchy, rootId: string): Promise<Range> {
+    const range = new Range(rangeUri(rootId, curLevel.range.id), curLevel.range.label);
+
+    const children: Range[] = [];
+    for (const childLevel of curLevel.children)
+        children.push(await createRange(childLevel, rootId));
 
-    const children = await Promise.all(curLevel.children.map(childLevel =>
-        createRange(childLevel, rootId, createRangeId)));
     const canvases = curLevel.items.map(item => new Canvas(canvasUri(rootId, item.order || 0)));
     range.setItems([...children, ...canvases]);
 
@@ -148,6 +164,42 @@ async function createRange(curLevel: HierarchyType, rootId: string, createRangeI
     return range;
 }
 
+export function getEmbeddedCanvas(manifest: Manifest, parentItem: Item, page: number): Canvas | null {
+    const id = canvasUri(parentItem.id, page);
+    const canvas = manifest.items?.find(canvas => canvas.id === id);
+    return canvas ? withPartOf(canvas, manifest) : null;
+}
+
+export function getEmbeddedRange(manifest: Manifest, parentItem: Item, rangeId: string): Range | null {
+    const id = rangeUri(parentItem.id, rangeId);
+    const findRange = (items: (Range | Canvas)[]): Range | undefined => items
+        .filter((item): item is Range => item.type === 'Range')
+        .reduce<Range | undefined>((acc, range) =>
+            acc || (range.id === id ? range : findRange(range.items || [])), undefined);
+
+    const range = findRange(manifest.structures || []);
+    return range ? withPartOf(range, manifest) : null;
+}
+
+export function getEmbeddedAnnotation(manifest: Manifest, parentItem: Item, childId: string, page: number,
+                                      annoPage?: AnnotationPage): Annotation | null {
+    // Text annotations are found on their own annotation page, painting annotations on the canvases of the manifest
+    const id = annoUri(parentItem.id, childId, page);
+    const annoPages = annoPage ? [annoPage] : (manifest.items || []).flatMap(canvas => canvas.items || []);
+    const annotation = annoPages
+        .flatMap(annoPage => annoPage.items || [])
+        .find(annotation => annotation.id === id);
+    return annotation ? withPartOf(annotation, manifest) : null;
+}
+
+function withPartOf<T extends Base>(resource: T, manifest: Manifest): T {
+    return {
+        '@context': manifest['@context'],
+        ...resource,
+        partOf: [{id: manifest.id, type: 'Manifest'}]
+    };
+}
+
 export async function getResource(item: FileItem, setAuth: boolean = false): Promise<Resource> {
     if (item.type === 'image')
         return getImageResource(item as ImageItem, 'full', setAuth);
@@ -169,21 +221,9 @@ export async function addThumbnail(base: Base, item: RootItem | FileItem): Promi
 }
 
 export async function addMetadata(base: Base, root: Item, md?: BasicIIIFMetadata): Promise<void> {
-    if (root.authors.length > 0) {
-        const authors = root.authors.reduce((acc: { [type: string]: string[] }, author) => {
-            if (!acc[author.type])
-                acc[author.type] = [];
-
-            Array.isArray(author.name)
-                ? acc[author.type].push(...author.name)
-                : acc[author.type].push(author.name);
-
-            return acc;
-        }, {});
-
-        for (const type of Object.keys(authors))
-            base.setMetadata(type, authors[type]);
-    }
+    const authors = getAuthorsByType(root);
+    for (const type of Object.keys(authors))
+        base.setMetadata(type, authors[type]);
 
     if (root.dates.length > 0)
         base.setMetadata(root.dates.length > 1 ? 'Dates' : 'Date', root.dates);
@@ -213,6 +253,19 @@ export async function addMetadata(base: Base, root: Item, md?: BasicIIIFMetadata
     }
 }
 
+export function getAuthorsByType(item: Item): { [type: string]: string[] } {
+    return item.authors.reduce((acc: { [type: string]: string[] }, author) => {
+        if (!acc[author.type])
+            acc[author.type] = [];
+
+        Array.isArray(author.name)
+            ? acc[author.type].push(...author.name)
+            : acc[author.type].push(author.name);
+
+        return acc;
+    }, {});
+}
+
 export function getType(type: string): string {
     switch (type) {
         case 'image':
@@ -236,6 +289,8 @@ export async function setAuthServices(base: Base | Service, item: RootItem | Fil
             if (service)
                 base.setService(service);
         }
+
+        base.setService(await getAuthProbeService(item, authTexts));
     }
 }
 
@@ -257,9 +312,9 @@ async function getImageResource(item: RootItem | FileItem, size = 'max', setAuth
     const height = (size === 'full' || size === 'max') ? item.height : null;
 
     const resource = Resource.createResource(
-        imageResourceUri(item.id, undefined, {size}),
+        getImageResourceUri(item.id, {size}),
         'Image', 'image/jpeg', width, height);
-    const service = new Service(imageUri(item.id), Service.IMAGE_SERVICE_2, 'http://iiif.io/api/image/2/level2.json');
+    const service = getImageService(item.id);
     resource.setService(service);
     setAuth && await setAuthServices(service, item);
 
@@ -273,15 +328,29 @@ async function getLogo(size = 'max'): Promise<Resource> {
     const height = (size === 'full' || size === 'max') ? imageInfo.height : null;
 
     const resource = Resource.createResource(
-        imageResourceUri('logo', undefined, {size, format: 'png'}),
+        getImageResourceUri('logo', {size, format: 'png'}),
         'Image', 'image/png', width, height);
-    const service = new Service(imageUri('logo'), Service.IMAGE_SERVICE_2, 'http://iiif.io/api/image/2/level2.json');
+    const service = getImageService('logo');
 
     resource.setService(service);
 
     return resource;
 }
 
+function getImageResourceUri(id: string, options: { [_: string]: string }): string {
+    if (config.imageApiVersion === 3)
+        return imageV3ResourceUri(id, undefined, options);
+
+    return imageResourceUri(id, undefined, options);
+}
+
+function getImageService(id: string): Service {
+    if (config.imageApiVersion === 3)
+        return new Service(imageV3Uri(id), 'ImageService3', 'level2');
+
+    return new Service(imageUri(id), Service.IMAGE_SERVICE_2, 'http://iiif.io/api/image/2/level2.json');
+}
+
 async function addDefaults(base: Base): Promise<void> {
     base.setContext();
 
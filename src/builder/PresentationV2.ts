@@ -0,0 +1,373 @@
+import {
+    Base, Manifest as BaseManifest, Collection, Sequence, Canvas, Annotation,
+    AnnotationList, Resource, TextResource, Rendering, AuthService
+} from '@archival-iiif/presentation-builder/v2';
+
+import config from '../lib/Config.js';
+import {runLib} from '../lib/Task.js';
+import getPronomInfo from '../lib/Pronom.js';
+import {getWordsFromStructure} from '../lib/TextStructure.js';
+import {Access, AccessState, getAuthTexts, requiresAuthentication} from '../lib/Security.js';
+import {getTextsForCollectionId, Text, withTexts} from '../lib/Text.js';
+import {getChildItems, getItem, getRangeItemsByCollectionId} from '../lib/Item.js';
+import {BasicIIIFMetadata, CanvasIIIFMetadata, ItemParams} from '../lib/ServiceTypes.js';
+import {Item, FileItem, FolderItem, MetadataItem, RangeItem, RootItem} from '../lib/ItemInterfaces.js';
+
+import {getAuthorsByType, getRangeHierarchy, RangeHierarchy} from './PresentationUtils.js';
+import {
+    accessUri,
+    annoListV2Uri,
+    annoV2Uri,
+    authUri,
+    autocompleteUri,
+    canvasV2Uri,
+    collectionV2Uri,
+    fileUri,
+    imageResourceUri,
+    imageUri,
+    manifestV2Uri,
+    originalUri,
+    rangeV2Uri,
+    searchUri,
+    sequenceV2Uri,
+    textPlainUri
+} from './UriHelper.js';
+
+const VIEWING_HINTS = ['individuals', 'paged', 'continuous'];
+
+// Presentation API 2.1 requires a size for every canvas, also for files without one
+const DEFAULT_CANVAS_WIDTH = 1000;
+const DEFAULT_CANVAS_HEIGHT = 1000;
+
+class Service extends Base {
+    profile?: string;
+
+    constructor(id: string, context: string, profile?: string) {
+        super(id);
+        this.setContext(context);
+        if (profile)
+            this.profile = profile;
+    }
+}
+
+class Range extends Base {
+    viewingHint?: string;
+    ranges?: string[];
+    canvases?: string[];
+
+    constructor(id: string, label: string) {
+        super(id, 'sc:Range', label);
+    }
+}
+
+export class Manifest extends BaseManifest {
+    viewingDirection?: string;
+    viewingHint?: string;
+    structures?: Range[];
+}
+
+export async function getCollection(item: MetadataItem | FolderItem, access: Access): Promise<Collection> {
+    const label = (item.type === 'metadata' || access.state !== AccessState.CLOSED || item.collection_id === item.id)
+        ? item.label : 'Access denied';
+
+    const collection = new Collection(collectionV2Uri(item.id), label);
+    await setBaseDefaults(collection, item);
+
+    const md = await runLib<ItemParams, BasicIIIFMetadata>('basic-iiif-metadata', {item});
+    addMetadata(collection, item, md);
+
+    if (item.type === 'metadata' || access.state !== AccessState.CLOSED) {
+        for (const child of await getChildItems(item))
+            await addReference(collection, child);
+    }
+    else {
+        await setAuthServices(collection, item);
+    }
+
+    return collection;
+}
+
+export async function getManifest(item: RootItem | FileItem, access: Access): Promise<Manifest> {
+    if (item.type === 'root')
+        return getDigitizedManifest(item as RootItem);
+
+    return getDigitalBornManifest(item as FileItem, access);
+}
+
+export async function getAnnotationList(item: RootItem, text: Text): Promise<AnnotationList> {
+    const annoList = new AnnotationList(annoListV2Uri(item.id, text.id));
+    annoList.setContext();
+    annoList.label = getTextLabel(text);
+
+    const items = await getChildItems(item) as FileItem[];
+    const childItem = items.find(item => item.id === text.item_id) as FileItem;
+    const canvas = new Canvas(canvasV2Uri(item.id, childItem.order || 0));
+
+    if (text.structure) {
+        const annotations: Annotation[] = [];
+
+        for (const word of getWordsFromStructure(text.structure)) {
+            if (word.x && word.y && word.width && word.height) {
+                const annotation = new Annotation(annoV2Uri(item.id, text.id, word.idx),
+                    new TextResource(word.content));
+                annotation.setCanvas(canvas, {x: word.x, y: word.y, w: word.width, h: word.height});
+
+                annotations.push(annotation);
+            }
+        }
+
+        annoList.setResources(annotations);
+    }
+    else {
+        const annotation = new Annotation(annoV2Uri(item.id, text.id), new TextResource(text.text));
+        annotation.setCanvas(canvas);
+
+        annoList.setResources([annotation]);
+    }
+
+    return annoList;
+}
+
+async function getDigitizedManifest(parentItem: RootItem): Promise<Manifest> {
+    const manifest = new Manifest(manifestV2Uri(parentItem.id), parentItem.label);
+    await setBaseDefaults(manifest, parentItem);
+
+    const items = await getChildItems(parentItem) as FileItem[];
+    const ranges = await getRangeItemsByCollectionId(parentItem.id);
+    const texts = await withTexts(getTextsForCollectionId(parentItem.id));
+    const md = await runLib<ItemParams, BasicIIIFMetadata>('basic-iiif-metadata', {item: parentItem});
+
+    manifest.viewingDirection = 'left-to-right';
+    manifest.viewingHint = items.length > 1 && md.behavior && VIEWING_HINTS.includes(md.behavior)
+        ? md.behavior : 'individuals';
+
+    manifest.setThumbnail(getImageResource(parentItem.id, '200,'));
+    addMetadata(manifest, parentItem, md);
+
+    const sequence = new Sequence(sequenceV2Uri(parentItem.id), null);
+    manifest.setSequence(sequence);
+
+    for (const [idx, item] of items.entries()) {
+        const md = await runLib<ItemParams, BasicIIIFMetadata>('basic-iiif-metadata', {item});
+        const canvas = await createCanvas(item, parentItem, idx === 0);
+
+        texts
+            .filter(text => text.item_id === item.id)
+            .forEach(text => addText(canvas, parentItem, text));
+
+        addMetadata(canvas, item, md);
+        sequence.addCanvas(canvas);
+    }
+
+    addStructures(manifest, parentItem, items, ranges);
+
+    if (texts.length > 0)
+        setSearchService(manifest, parentItem);
+
+    return manifest;
+}
+
+async function getDigitalBornManifest(item: FileItem, access: Access): Promise<Manifest> {
+    const label = (access.state !== AccessState.CLOSED) ? item.label : 'Access denied';
+    const manifest = new Manifest(manifestV2Uri(item.id), label);
+    await setBaseDefaults(manifest, item);
+
+    if (access.state !== AccessState.CLOSED) {
+        const md = await runLib<ItemParams, BasicIIIFMetadata>('basic-iiif-metadata', {item});
+        addMetadata(manifest, item, md);
+
+        if (item.type === 'image')
+            manifest.setThumbnail(getImageResource(item.id, '200,'));
+
+        const canvas = await createCanvas(item, item);
+        manifest.setSequence(new Sequence(sequenceV2Uri(item.id), canvas));
+
+        const accessPronomData = item.access.puid ? getPronomInfo(item.access.puid) : null;
+        const originalPronomData = item.original.puid ? getPronomInfo(item.original.puid) : null;
+
+        if (item.access.uri && accessPronomData)
+            canvas.addRendering(new Rendering(accessUri(item.id), 'Access copy', accessPronomData.mime));
+
+        if (item.original.uri && originalPronomData)
+            canvas.addRendering(new Rendering(originalUri(item.id), 'Original copy', originalPronomData.mime));
+    }
+    else {
+        await setAuthServices(manifest, item);
+    }
+
+    return manifest;
+}
+
+async function createCanvas(item: FileItem, parentItem: Item, setAuth: boolean = false): Promise<Canvas> {
+    const canvasInfo = await runLib<ItemParams, CanvasIIIFMetadata>('canvas-iiif-metadata', {item});
+
+    const canvas = new Canvas(canvasV2Uri(parentItem.id, item.order || 0));
+    canvas.label = canvasInfo.label || item.label;
+    canvas.width = item.width && item.height ? item.width : DEFAULT_CANVAS_WIDTH;
+    canvas.height = item.width && item.height ? item.height : DEFAULT_CANVAS_HEIGHT;
+
+    // Only images can be painted on a canvas, other files are offered as a rendering instead
+    if (item.type === 'image') {
+        const resource = getImageResource(item.id, 'full', item.width, item.height);
+        setAuth && await setAuthServices(resource.service as Base, item);
+
+        const annotation = new Annotation(annoV2Uri(parentItem.id, item.id), resource);
+        annotation.setCanvas(canvas);
+        canvas.images = [annotation];
+
+        canvas.setThumbnail(getImageResource(item.id, '200,'));
+    }
+    else {
+        const pronomData = item.access.puid ? getPronomInfo(item.access.puid) : null;
+        canvas.addRendering(new Rendering(fileUri(item.id), item.label,
+            pronomData?.mime || 'application/octet-stream'));
+    }
+
+    return canvas;
+}
+
+function addText(canvas: Canvas, item: Item, text: Text): void {
+    const label = getTextLabel(text);
+
+    const annoList = new AnnotationList(annoListV2Uri(item.id, text.id));
+    annoList.label = label;
+
+    if (!canvas.otherContent)
+        canvas.otherContent = [];
+    canvas.otherContent.push(annoList);
+
+    canvas.addSeeAlso({
+        id: fileUri(text.id),
+        format: text.source === 'alto' ? 'application/xml' : 'plain/text',
+        profile: text.source === 'alto' ? 'http://www.loc.gov/standards/alto/' : undefined,
+        label: text.source === 'alto' ? 'ALTO XML' : label
+    });
+
+    canvas.addRendering(new Rendering(textPlainUri(text.id), label, 'plain/text'));
+}
+
+function addStructures(manifest: Manifest, parentItem: Item, items: Item[], ranges: RangeItem[]): void {
+    const hierarchy = getRangeHierarchy(items, ranges);
+
+    // Presentation API 2.1 ranges are listed flat and refer to their child ranges by id
+    const structures: Range[] = [];
+    const createRange = (curLevel: RangeHierarchy): Range => {
+        const range = new Range(rangeV2Uri(parentItem.id, curLevel.range.id), curLevel.range.label);
+        structures.push(range);
+
+        if (curLevel.range.description)
+            range.setDescription(curLevel.range.description);
+
+        const children = curLevel.children.map(childLevel => createRange(childLevel));
+        if (children.length > 0)
+            range.ranges = children.map(child => child['@id'] as string);
+
+        if (curLevel.items.length > 0)
+            range.canvases = curLevel.items.map(item => canvasV2Uri(parentItem.id, item.order || 0));
+
+        return range;
+    };
+
+    for (const curLevel of hierarchy)
+        createRange(curLevel).viewingHint = 'top';
+
+    if (structures.length > 0)
+        manifest.structures = structures;
+}
+
+async function addReference(collection: Collection, item: Item): Promise<void> {
+    if (item.type === 'metadata' || item.type === 'folder') {
+        collection.addCollection(new Collection(collectionV2Uri(item.id), item.label));
+        return;
+    }
+
+    const manifest = new Manifest(manifestV2Uri(item.id), item.label);
+    if (item.type === 'root' || item.type === 'image')
+        manifest.setThumbnail(getImageResource(item.id, '200,'));
+
+    collection.addManifest(manifest);
+}
+
+function addMetadata(base: Base, item: Item, md?: BasicIIIFMetadata): void {
+    const authors = getAuthorsByType(item);
+    for (const type of Object.keys(authors))
+        base.addMetadata({label: type, value: authors[type]});
+
+    if (item.dates.length > 0)
+        base.addMetadata({label: item.dates.length > 1 ? 'Dates' : 'Date', value: item.dates});
+
+    if (item.physical)
+        base.addMetadata('Physical description', String(item.physical));
+
+    if (item.description)
+        base.addMetadata('Description', item.description);
+
+    base.addMetadata(item.metadata);
+
+    if (md) {
+        if (md.rights)
+            base.setLicense(md.rights);
+
+        if (md.homepage && md.homepage.length > 0)
+            base.setRelated(md.homepage);
+
+        if (md.metadata && md.metadata.length > 0)
+            base.addMetadata(md.metadata);
+
+        if (md.seeAlso && md.seeAlso.length > 0)
+            base.addSeeAlso(md.seeAlso);
+    }
+}
+
+async function setAuthServices(base: Base, item: RootItem | FileItem | FolderItem): Promise<void> {
+    if (await requiresAuthentication(item)) {
+        const authTexts = await getAuthTexts(item);
+        for (const type of ['login', 'external'] as ('login' | 'external')[]) {
+            const service = AuthService.getAuthenticationService(authUri, authTexts, type);
+            if (service)
+                base.setService(service);
+        }
+    }
+}
+
+function setSearchService(base: Base, item: Item): void {
+    const service = new Service(searchUri(item.id),
+        'http://iiif.io/api/search/1/context.json', 'http://iiif.io/api/search/1/search');
+    service.setService(new Service(autocompleteUri(item.id),
+        'http://iiif.io/api/search/1/context.json', 'http://iiif.io/api/search/1/autocomplete'));
+
+    base.setService(service);
+}
+
+async function setBaseDefaults(base: Base, item: Item): Promise<void> {
+    base.setContext();
+
+    if (config.logoRelativePath)
+        base.setLogo(getImageResource('logo', 'max', null, null, 'png'));
+
+    if (config.attribution)
+        base.setAttribution(config.attribution);
+
+    if (item.description)
+        base.setDescription(item.description);
+
+    if (item.parent_id) {
+        const parentItem = await getItem(item.parent_id);
+        if (parentItem)
+            base.setParent(collectionV2Uri(parentItem.id));
+    }
+}
+
+function getImageResource(id: string, size: string, width: number | null = null, height: number | null = null,
+                          format = 'jpg'): Resource {
+    const resource = new Resource(imageResourceUri(id, undefined, {size, format}),
+        width, height, format === 'png' ? 'image/png' : 'image/jpeg', 'dctypes:Image');
+    resource.setService(new Service(imageUri(id),
+        'http://iiif.io/api/image/2/context.json', 'http://iiif.io/api/image/2/level2.json'));
+
+    return resource;
+}
+
+function getTextLabel(text: Text): string {
+    return text.type === 'transcription' ? 'Transcription' : `Translation ${text.language}`;
+}
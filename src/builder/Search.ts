@@ -8,19 +8,127 @@ import {
     SearchHit,
     TermList
 } from '@archival-iiif/presentation-builder/v2';
+import {
+    Base,
+    Ref,
+    Manifest,
+    Collection,
+    Resource,
+    Canvas as CanvasV3,
+    Annotation as AnnotationV3,
+    AnnotationPage
+} from '@archival-iiif/presentation-builder/v3';
+
+import {CollectionSearchResults, ItemSearchFacets, ItemSearchResults, SearchResults} from '../search/search.js';
+
+import {PresentationBuilder} from './PresentationBuilder.js';
+import {
+    canvasUri,
+    searchAnnoUri,
+    searchUri,
+    autocompleteUri,
+    searchV2Uri,
+    searchV2AnnoUri,
+    autocompleteV2Uri,
+    searchAllUri,
+    searchItemsUri
+} from './UriHelper.js';
+
+const SEARCH_CONTEXT_2 = 'http://iiif.io/api/search/2/context.json';
+
+const pageUri = (uri: string, query: string, page: number, after?: string) =>
+    `${uri}?q=${encodeURIComponent(query)}${page > 0 ? `&page=${page}` : ''}${after ? `&after=${after}` : ''}`;
 
-import {SearchResult} from '../search/search.js';
-import {canvasUri, searchAnnoUri, searchUri, autocompleteUri} from './UriHelper.js';
+const collectionPageUri = (uri: (query: string) => string, query: string,
+                           filters: { [name: string]: string | undefined }) => (page: number) => {
+    const params = new URLSearchParams({q: query});
+    for (const [name, value] of Object.entries(filters))
+        value && params.set(name, value);
+    page > 0 && params.set('page', String(page));
+
+    return uri(params.toString());
+};
+
+type AnnotationCollectionRef = Ref & { total: number, first: Ref, last: Ref };
+type TextQuoteSelector = { type: 'TextQuoteSelector', prefix?: string, exact: string, suffix?: string };
+type SpecificResource = { type: 'SpecificResource', source: string, selector: TextQuoteSelector[] };
+type Term = { value: string, service: Ref[] };
+
+interface HitAnnotation {
+    id: string;
+    type: 'Annotation';
+    motivation: 'contextualizing';
+    target: SpecificResource | SpecificResource[];
+}
+
+export class SearchAnnotationList extends AnnotationList {
+    prev?: string;
+    next?: string;
+}
 
-export function getAnnotationList(searchResults: SearchResult[], query: string, ignored: string[],
-                                  items: Item[], id: string, type?: string, language?: string | null): AnnotationList {
+export class SearchAnnotationPage extends AnnotationPage {
+    ignored?: string[];
+    annotations?: { type: 'AnnotationPage', items: HitAnnotation[] }[];
+}
+
+export class SearchCollection extends Collection {
+    first?: Ref;
+    last?: Ref;
+    prev?: Ref;
+    next?: Ref;
+
+    setPaging(uri: (page: number) => string, page: number, pages: number): void {
+        this.first = {id: uri(0), type: 'Collection'};
+        this.last = {id: uri(Math.max(pages - 1, 0)), type: 'Collection'};
+        if (page > 0)
+            this.prev = {id: uri(page - 1), type: 'Collection'};
+        if (page < pages - 1)
+            this.next = {id: uri(page + 1), type: 'Collection'};
+    }
+}
+
+export class ItemSearchCollection extends SearchCollection {
+    facets?: ItemSearchFacets;
+}
+
+export class TermPage extends Base {
+    ignored?: string[];
+    items: Term[] = [];
+
+    constructor(id: string) {
+        super(id, 'TermPage');
+    }
+}
+
+export function getAnnotationList(searchResults: SearchResults, query: string, ignored: string[],
+                                  items: Item[], id: string, type?: string,
+                                  language?: string | null): SearchAnnotationList {
+    const uri = searchUri(id, type, language);
     const uriQuery = `?q=${encodeURIComponent(query)}`;
-    const annotationList = new AnnotationList(searchUri(id, type, language) + uriQuery);
+    const annotationList = new SearchAnnotationList(pageUri(uri, query, searchResults.page));
 
     const resources = [];
     const hits = [];
 
-    for (const searchResult of searchResults) {
+    for (const searchResult of searchResults.results) {
+        if (searchResult.annotation) {
+            const userAnnotation = searchResult.annotation;
+            const motivation = userAnnotation.motivation.length > 0 ? userAnnotation.motivation[0] : 'commenting';
+
+            const annotation = new Annotation(userAnnotation.annotation.id,
+                new TextResource(userAnnotation.text), `oa:${motivation}`);
+            annotation.on = userAnnotation.target;
+            resources.push(annotation);
+
+            const searchHit = new SearchHit();
+            searchHit.addAnnotation(annotation);
+            for (const match of searchResult.matches)
+                searchHit.addTextQuoteSelector(match.match, match.before, match.after);
+
+            hits.push(searchHit);
+            continue;
+        }
+
         const item = items.find(item => item.id === searchResult.text.item_id) as FileItem;
         const canvas = new Canvas(canvasUri(id, item.order || 0));
 
@@ -80,12 +188,19 @@ export function getAnnotationList(searchResults: SearchResult[], query: string,
     ]);
     annotationList.setWithin({
         '@type': 'sc:Layer',
-        total: resources.length,
+        total: searchResults.total,
+        first: pageUri(uri, query, 0),
+        last: pageUri(uri, query, Math.max(searchResults.pages - 1, 0)),
         ignored: ignored.length > 0 ? ignored : undefined,
     });
     annotationList.setResources(resources);
     annotationList.setHits(hits);
 
+    if (searchResults.page > 0)
+        annotationList.prev = pageUri(uri, query, searchResults.page - 1);
+    if (searchResults.next)
+        annotationList.next = pageUri(uri, query, searchResults.page + 1, searchResults.next);
+
     return annotationList;
 }
 
@@ -103,3 +218,198 @@ export function getAutocomplete(suggestions: Set<string>, query: string, ignored
 
     return termList;
 }
+
+export function getAnnotationPage(searchResults: SearchResults, query: string, ignored: string[],
+                                  items: Item[], id: string, type?: string,
+                                  language?: string | null): SearchAnnotationPage {
+    const uri = searchV2Uri(id, type, language);
+    const uriQuery = `?q=${encodeURIComponent(query)}`;
+    const annotationPage = new SearchAnnotationPage(pageUri(uri, query, searchResults.page));
+
+    const resources: AnnotationV3[] = [];
+    const hits: HitAnnotation[] = [];
+
+    for (const searchResult of searchResults.results) {
+        if (searchResult.annotation) {
+            const {'@context': _, ...annotation} = searchResult.annotation.annotation;
+            resources.push(annotation as AnnotationV3);
+
+            searchResult.matches.forEach((match, idx) => hits.push({
+                id: searchV2AnnoUri(id, type, language, `${searchResult.annotation.id}_match_${idx}`) + uriQuery,
+                type: 'Annotation',
+                motivation: 'contextualizing',
+                target: {
+                    type: 'SpecificResource',
+                    source: annotation.id,
+                    selector: [{
+                        type: 'TextQuoteSelector',
+                        prefix: match.before,
+                        exact: match.match,
+                        suffix: match.after
+                    }]
+                }
+            }));
+            continue;
+        }
+
+        const item = items.find(item => item.id === searchResult.text.item_id) as FileItem;
+        const canvas = new CanvasV3(canvasUri(id, item.order || 0));
+
+        if (!searchResult.text.structure) {
+            const annotationId = searchV2AnnoUri(id, type, language, searchResult.text.id) + uriQuery;
+            const textResource = Resource.createTextResource(searchResult.text.text, searchResult.text.language);
+
+            const annotation = new AnnotationV3(annotationId, textResource, 'supplementing');
+            annotation.setCanvas(canvas);
+            resources.push(annotation);
+
+            searchResult.matches.forEach((match, idx) => hits.push({
+                id: searchV2AnnoUri(id, type, language, `${searchResult.text.id}_match_${idx}`) + uriQuery,
+                type: 'Annotation',
+                motivation: 'contextualizing',
+                target: {
+                    type: 'SpecificResource',
+                    source: annotationId,
+                    selector: [{
+                        type: 'TextQuoteSelector',
+                        prefix: match.before,
+                        exact: match.match,
+                        suffix: match.after
+                    }]
+                }
+            }));
+        }
+        else {
+            const uniqueResources = new Set();
+            searchResult.matches.forEach((match, idx) => {
+                const words = match.words.filter(word => word.x && word.y && word.width && word.height);
+                const targets: SpecificResource[] = words.map((word, wordIdx) => {
+                    const annotationId =
+                        searchV2AnnoUri(id, type, language, searchResult.text.id + '_' + word.idx)
+                        + uriQuery;
+
+                    if (!uniqueResources.has(annotationId)) {
+                        const textResource = Resource.createTextResource(word.content, searchResult.text.language);
+                        const annotation = new AnnotationV3(annotationId, textResource, 'supplementing');
+                        annotation.setCanvas(canvas, {
+                            x: word.x as number,
+                            y: word.y as number,
+                            w: word.width as number,
+                            h: word.height as number
+                        });
+
+                        uniqueResources.add(annotationId);
+                        resources.push(annotation);
+                    }
+
+                    // Only the first and the last word of a match carry the surrounding text
+                    return {
+                        type: 'SpecificResource',
+                        source: annotationId,
+                        selector: [{
+                            type: 'TextQuoteSelector',
+                            prefix: wordIdx === 0 ? match.before : undefined,
+                            exact: word.content,
+                            suffix: wordIdx === words.length - 1 ? match.after : undefined
+                        }]
+                    };
+                });
+
+                if (targets.length > 0)
+                    hits.push({
+                        id: searchV2AnnoUri(id, type, language, `${searchResult.text.id}_match_${idx}`) + uriQuery,
+                        type: 'Annotation',
+                        motivation: 'contextualizing',
+                        target: targets.length === 1 ? targets[0] : targets
+                    });
+            });
+        }
+    }
+
+    const annotationCollection: AnnotationCollectionRef = {
+        id: uri + uriQuery,
+        type: 'AnnotationCollection',
+        total: searchResults.total,
+        first: {id: pageUri(uri, query, 0), type: 'AnnotationPage'},
+        last: {id: pageUri(uri, query, Math.max(searchResults.pages - 1, 0)), type: 'AnnotationPage'}
+    };
+
+    annotationPage.setContext(SEARCH_CONTEXT_2);
+    annotationPage.setParent(annotationCollection);
+    annotationPage.setItems(resources);
+    annotationPage.setPrevAndNext('AnnotationPage',
+        searchResults.page > 0 ? pageUri(uri, query, searchResults.page - 1) : undefined,
+        searchResults.next ? pageUri(uri, query, searchResults.page + 1, searchResults.next) : undefined);
+
+    if (ignored.length > 0)
+        annotationPage.ignored = ignored;
+
+    if (hits.length > 0)
+        annotationPage.annotations = [{type: 'AnnotationPage', items: hits}];
+
+    return annotationPage;
+}
+
+export function getTermPage(suggestions: Set<string>, query: string, ignored: string[],
+                            id: string, type?: string, language?: string | null): TermPage {
+    const uriQuery = (query: string) => `?q=${encodeURIComponent(query)}`;
+
+    const termPage = new TermPage(autocompleteV2Uri(id, type, language) + uriQuery(query));
+    termPage.setContext(SEARCH_CONTEXT_2);
+
+    if (ignored.length > 0)
+        termPage.ignored = ignored;
+
+    for (const suggestion of suggestions)
+        termPage.items.push({
+            value: suggestion,
+            service: [{id: searchV2Uri(id, type, language) + uriQuery(suggestion), type: 'SearchService2'}]
+        });
+
+    return termPage;
+}
+
+export async function getCollection(searchResults: CollectionSearchResults, items: Item[], query: string,
+                                    filters: { [name: string]: string | undefined },
+                                    builder: PresentationBuilder): Promise<SearchCollection> {
+    const uri = collectionPageUri(searchAllUri, query, filters);
+    const collection = new SearchCollection(uri(searchResults.page), `Search results for '${query}'`);
+    collection.setContext();
+    collection.setSummary(`${searchResults.total} results found`);
+    collection.setPaging(uri, searchResults.page, searchResults.pages);
+
+    const references = [];
+    for (const searchResult of searchResults.results) {
+        const item = items.find(item => item.id === searchResult.collectionId);
+        const reference = item ? await builder.getReference(item) : null;
+        if (!reference)
+            continue;
+
+        if (searchResult.hits > 0)
+            reference.setMetadata('Hits', String(searchResult.hits));
+        if (searchResult.snippets.length > 0)
+            reference.setSummary(searchResult.snippets.join(' ... '));
+
+        references.push(reference);
+    }
+
+    collection.setItems(references as (Collection | Manifest)[]);
+
+    return collection;
+}
+
+export async function getItemsCollection(searchResults: ItemSearchResults, query: string,
+                                         filters: { [name: string]: string | undefined },
+                                         builder: PresentationBuilder): Promise<ItemSearchCollection> {
+    const uri = collectionPageUri(searchItemsUri, query, filters);
+    const collection = new ItemSearchCollection(uri(searchResults.page), `Search results for '${query}'`);
+    collection.setContext();
+    collection.setSummary(`${searchResults.total} results found`);
+    collection.setPaging(uri, searchResults.page, searchResults.pages);
+
+    const references = await Promise.all(searchResults.items.map(item => builder.getReference(item)));
+    collection.setItems(references.filter(reference => reference !== null) as (Collection | Manifest)[]);
+    collection.facets = searchResults.facets;
+
+    return collection;
+}
@@ -1,25 +1,44 @@
 import config from '../lib/Config.js';
 
 const prefixPresentationUrl = `${config.baseUrl}/iiif/presentation`;
+const prefixPresentationV2Url = `${config.baseUrl}/iiif/presentation/v2`;
 const prefixImageUrl = `${config.baseUrl}/iiif/image`;
+const prefixImageV3Url = `${config.baseUrl}/iiif/image/v3`;
 const prefixSearchUrl = `${config.baseUrl}/iiif/search`;
+const prefixSearchV2Url = `${config.baseUrl}/iiif/search/v2`;
 const prefixAuthUrl = `${config.baseUrl}/iiif/auth`;
 const prefixFileUrl = `${config.baseUrl}/file`;
 const prefixIconUrl = `${config.baseUrl}/file-icon`;
 const prefixTextUrl = `${config.baseUrl}/text`;
+const prefixAnnotationsUrl = `${config.baseUrl}/annotations`;
 
 const annoType = (type?: string, language?: string | null) => type ? '/' + type + (language ? '/' + language : '') : '';
 
 export const collectionUri = (id: string) => `${prefixPresentationUrl}/collection/${id}`;
 export const manifestUri = (id: string) => `${prefixPresentationUrl}/${id}/manifest`;
 export const canvasUri = (id: string, page: number) => `${prefixPresentationUrl}/${id}/canvas/${page}`;
-export const rangeUri = (id: string, range: number) => `${prefixPresentationUrl}/${id}/range/${range}`;
+export const rangeUri = (id: string, rangeId: string) =>
+    `${prefixPresentationUrl}/${id}/range/${encodeURIComponent(rangeId)}`;
 export const annoPageUri = (id: string, childId: string) => `${prefixPresentationUrl}/${id}/annopage/${childId}`;
 export const annoCollUri = (id: string, type: string, language?: string | null) =>
     `${prefixPresentationUrl}/annocoll/${id}${annoType(type, language)}`;
 export const annoUri = (id: string, childId: string, page: number = 0) =>
     `${prefixPresentationUrl}/${id}/annotation/${childId}/${page}`;
 
+export const collectionV2Uri = (id: string) => `${prefixPresentationV2Url}/collection/${id}`;
+export const manifestV2Uri = (id: string) => `${prefixPresentationV2Url}/${id}/manifest`;
+export const sequenceV2Uri = (id: string) => `${prefixPresentationV2Url}/${id}/sequence/0`;
+export const canvasV2Uri = (id: string, page: number) => `${prefixPresentationV2Url}/${id}/canvas/${page}`;
+export const rangeV2Uri = (id: string, rangeId: string) =>
+    `${prefixPresentationV2Url}/${id}/range/${encodeURIComponent(rangeId)}`;
+export const annoV2Uri = (id: string, childId: string, page: number = 0) =>
+    `${prefixPresentationV2Url}/${id}/annotation/${childId}/${page}`;
+export const annoListV2Uri = (id: string, childId: string) => `${prefixPresentationV2Url}/${id}/list/${childId}`;
+
+export const annoContainerUri = (id: string) => `${prefixAnnotationsUrl}/${id}/`;
+export const annoContainerPageUri = (id: string, page: number) => `${annoContainerUri(id)}?page=${page}`;
+export const userAnnoUri = (id: string, annotationId: string) => `${prefixAnnotationsUrl}/${id}/${annotationId}`;
+
 export const imageUri = (id: string, tier?: string) =>
     `${prefixImageUrl}/${id}${tier ? config.imageTierSeparator + tier : ''}`;
 export const imageResourceUri =
@@ -27,6 +46,13 @@ export const imageResourceUri =
      {region = 'full', size = 'max', rotation = '0', quality = 'default', format = 'jpg'}: { [_: string]: string } = {}) =>
         `${imageUri(id, tier)}/${region}/${size}/${rotation}/${quality}.${format}`;
 
+export const imageV3Uri = (id: string, tier?: string) =>
+    `${prefixImageV3Url}/${id}${tier ? config.imageTierSeparator + tier : ''}`;
+export const imageV3ResourceUri =
+    (id: string, tier?: string,
+     {region = 'full', size = 'max', rotation = '0', quality = 'default', format = 'jpg'}: { [_: string]: string } = {}) =>
+        `${imageV3Uri(id, tier)}/${region}/${size}/${rotation}/${quality}.${format}`;
+
 export const searchUri = (id: string, type?: string, language?: string | null) =>
     `${prefixSearchUrl}/${id}${annoType(type, language)}`;
 export const searchAnnoUri = (id: string, type?: string, language?: string | null, page: number | string = 0) =>
@@ -34,7 +60,18 @@ export const searchAnnoUri = (id: string, type?: string, language?: string | nul
 export const autocompleteUri = (id: string, type?: string, language?: string | null) =>
     `${prefixSearchUrl}/autocomplete/${id}${annoType(type, language)}`;
 
+export const searchAllUri = (query: string) => `${prefixSearchUrl}?${query}`;
+export const searchItemsUri = (query: string) => `${prefixSearchUrl}/items?${query}`;
+
+export const searchV2Uri = (id: string, type?: string, language?: string | null) =>
+    `${prefixSearchV2Url}/${id}${annoType(type, language)}`;
+export const searchV2AnnoUri = (id: string, type?: string, language?: string | null, page: number | string = 0) =>
+    `${searchV2Uri(id, type, language)}/anno/${page}`;
+export const autocompleteV2Uri = (id: string, type?: string, language?: string | null) =>
+    `${prefixSearchV2Url}/autocomplete/${id}${annoType(type, language)}`;
+
 export const authUri = (type: string) => `${prefixAuthUrl}/${type}`;
+export const authProbeUri = (id: string) => `${prefixAuthUrl}/probe/${id}`;
 
 export const fileUri = (id: string) => `${prefixFileUrl}/${id}`;
 export const accessUri = (id: string) => `${fileUri(id)}/access`;
@@ -0,0 +1,82 @@
+import Router from '@koa/router';
+import {DefaultState} from 'koa';
+
+import config from '../lib/Config.js';
+import logger from '../lib/Logger.js';
+import HttpError from '../lib/HttpError.js';
+import {ExtendedContext} from '../lib/Koa.js';
+import {Activity, getActivities, getActivityCount} from '../lib/ChangeDiscovery.js';
+
+import {collectionUri, manifestUri} from '../builder/UriHelper.js';
+
+export const router = new Router<DefaultState, ExtendedContext>({prefix: '/iiif/discovery'});
+
+const PAGE_SIZE = 100;
+const CONTEXT = 'http://iiif.io/api/discovery/1/context.json';
+
+const discoveryUri = `${config.baseUrl}/iiif/discovery`;
+const pageUri = (page: number) => `${discoveryUri}/page/${page}`;
+
+router.get('/', async ctx => {
+    logger.info('Received a request for the change discovery collection');
+
+    const totalItems = await getActivityCount();
+    const lastPage = getLastPage(totalItems);
+
+    setContent(ctx, {
+        '@context': CONTEXT,
+        id: discoveryUri,
+        type: 'OrderedCollection',
+        totalItems,
+        first: {id: pageUri(0), type: 'OrderedCollectionPage'},
+        last: {id: pageUri(lastPage), type: 'OrderedCollectionPage'}
+    });
+
+    logger.info('Sending the change discovery collection');
+});
+
+router.get('/page/:page', async ctx => {
+    logger.info(`Received a request for the change discovery page ${ctx.params.page}`);
+
+    const page = parseInt(ctx.params.page);
+    const lastPage = getLastPage(await getActivityCount());
+    if (isNaN(page) || page < 0 || page > lastPage)
+        throw new HttpError(404, `No change discovery page found with number ${ctx.params.page}`);
+
+    const activities = await getActivities(page * PAGE_SIZE, PAGE_SIZE);
+    setContent(ctx, {
+        '@context': CONTEXT,
+        id: pageUri(page),
+        type: 'OrderedCollectionPage',
+        startIndex: page * PAGE_SIZE,
+        partOf: {id: discoveryUri, type: 'OrderedCollection'},
+        ...(page > 0 ? {prev: {id: pageUri(page - 1), type: 'OrderedCollectionPage'}} : {}),
+        ...(page < lastPage ? {next: {id: pageUri(page + 1), type: 'OrderedCollectionPage'}} : {}),
+        orderedItems: activities.map(getActivityJson)
+    });
+
+    logger.info(`Sending the change discovery page ${ctx.params.page}`);
+});
+
+function getLastPage(totalItems: number): number {
+    return Math.max(Math.ceil(totalItems / PAGE_SIZE) - 1, 0);
+}
+
+function getActivityJson(activity: Activity): object {
+    const isManifest = activity.objectType === 'root';
+    return {
+        type: activity.type,
+        object: {
+            id: isManifest ? manifestUri(activity.objectId) : collectionUri(activity.objectId),
+            type: isManifest ? 'Manifest' : 'Collection'
+        },
+        endTime: activity.endTime
+    };
+}
+
+function setContent(ctx: ExtendedContext, json: object): void {
+    ctx.body = json;
+    ctx.set('Content-Type', ctx.accepts('application/ld+json', 'application/json') === 'application/json'
+        ? 'application/json'
+        : 'application/ld+json;profile="https://www.w3.org/ns/activitystreams"');
+}
@@ -0,0 +1,164 @@
+import {Readable, Transform} from 'stream';
+import {createHash} from 'crypto';
+import {createReadStream} from 'fs';
+import archiver, {Archiver, EntryData} from 'archiver';
+
+import config from '../lib/Config.js';
+import logger from '../lib/Logger.js';
+import {Item} from '../lib/ItemInterfaces.js';
+
+export type DownloadFormat = 'zip' | 'bagit';
+export type DownloadStatus = 'included' | 'no-access' | 'missing';
+
+export interface DownloadEntry {
+    item: Item;
+    path: string;
+    fullPath: string | null;
+    size: number | null;
+    puid: string | null;
+    pronomName: string | null;
+    mime: string | null;
+    status: DownloadStatus;
+}
+
+const INVENTORY_FIELDS: (keyof Omit<DownloadEntry, 'item' | 'fullPath'>)[] =
+    ['path', 'size', 'puid', 'pronomName', 'mime', 'status'];
+
+export function createDownload(rootItem: Item, entries: DownloadEntry[], format: DownloadFormat): Readable {
+    // Most archival files are compressed already, so only store them in the ZIP
+    const archive = archiver('zip', {store: true});
+
+    archive.on('warning', err => logger.warn(`Warning during the download of ${rootItem.id}: ${err.message}`));
+
+    appendEntries(archive, rootItem, entries, format)
+        .then(() => archive.finalize())
+        .catch(err => {
+            // The client aborted the download, so there is no one left to notify
+            if (archive.destroyed) {
+                logger.debug(`The download of ${rootItem.id} was aborted`);
+                return;
+            }
+
+            logger.error(`Failed to create the download of ${rootItem.id}`, {err});
+
+            // Make sure the client notices that the download is incomplete
+            archive.abort();
+            archive.emit('error', err);
+        });
+
+    return archive;
+}
+
+async function appendEntries(archive: Archiver, rootItem: Item,
+                             entries: DownloadEntry[], format: DownloadFormat): Promise<void> {
+    const prefix = format === 'bagit' ? `${rootItem.id}/data/` : '';
+
+    // Only open the next file once the previous file has been streamed into the archive
+    const files = [];
+    for (const entry of entries.filter(entry => entry.status === 'included')) {
+        if (archive.destroyed)
+            throw new Error('The archive was destroyed');
+
+        const digest = await appendFile(archive, entry, prefix + entry.path, format === 'bagit');
+        files.push({path: entry.path, size: entry.size || 0, digest});
+    }
+
+    const inventories: { [name: string]: string } = {
+        'inventory.json': getInventoryJson(rootItem, entries),
+        'inventory.csv': getInventoryCsv(entries)
+    };
+    for (const [name, data] of Object.entries(inventories))
+        archive.append(data, {name: prefix + name});
+
+    if (format === 'zip')
+        return;
+
+    const payload = [...files, ...Object.entries(inventories).map(([name, data]) => ({
+        path: name,
+        size: Buffer.byteLength(data),
+        digest: createHash('sha256').update(data).digest('hex')
+    }))];
+
+    const payloadSize = payload.reduce((acc, file) => acc + file.size, 0);
+    const manifest = payload.map(file => `${file.digest}  data/${file.path}\n`).join('');
+
+    archive.append('BagIt-Version: 1.0\nTag-File-Character-Encoding: UTF-8\n', {name: `${rootItem.id}/bagit.txt`});
+    archive.append(getBagInfo(rootItem, payloadSize, payload.length), {name: `${rootItem.id}/bag-info.txt`});
+    archive.append(manifest, {name: `${rootItem.id}/manifest-sha256.txt`});
+}
+
+function appendFile(archive: Archiver, entry: DownloadEntry, name: string, withDigest: boolean): Promise<string | null> {
+    const input = createReadStream(entry.fullPath as string);
+    const hash = withDigest ? createHash('sha256') : null;
+    const source = hash ? input.pipe(new Transform({
+        transform(chunk, _encoding, callback) {
+            hash.update(chunk);
+            callback(null, chunk);
+        }
+    })) : input;
+
+    return new Promise((resolve, reject) => {
+        const removeListeners = () => {
+            archive.off('entry', onEntry);
+            archive.off('close', onClose);
+            archive.off('error', onError);
+        };
+
+        const onEntry = (entryData: EntryData) => {
+            if (entryData.name === name) {
+                removeListeners();
+                resolve(hash ? hash.digest('hex') : null);
+            }
+        };
+
+        // Koa destroys the archive when the client aborts, after which no entry will ever be written
+        const onClose = () => onError(new Error('The archive was closed before the file was written'));
+        const onError = (err: Error) => {
+            removeListeners();
+            input.destroy();
+            reject(err);
+        };
+
+        archive.on('entry', onEntry);
+        archive.on('close', onClose);
+        archive.on('error', onError);
+        input.on('error', onError);
+
+        archive.append(source, {name});
+    });
+}
+
+function getInventoryJson(rootItem: Item, entries: DownloadEntry[]): string {
+    return JSON.stringify({
+        id: rootItem.id,
+        label: rootItem.label,
+        files: entries.map(entry => ({
+            id: entry.item.id,
+            label: entry.item.label,
+            ...Object.fromEntries(INVENTORY_FIELDS.map(field => [field, entry[field]]))
+        }))
+    }, null, 2);
+}
+
+function getInventoryCsv(entries: DownloadEntry[]): string {
+    const escape = (value: string | number | null) => {
+        const str = value === null ? '' : String(value);
+        return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+    };
+
+    const header = ['id', 'label', ...INVENTORY_FIELDS].join(',');
+    const rows = entries.map(entry =>
+        [entry.item.id, entry.item.label, ...INVENTORY_FIELDS.map(field => entry[field])].map(escape).join(','));
+
+    return [header, ...rows].join('\n') + '\n';
+}
+
+function getBagInfo(rootItem: Item, payloadSize: number, payloadCount: number): string {
+    return [
+        config.attribution && `Source-Organization: ${config.attribution}`,
+        `External-Identifier: ${rootItem.id}`,
+        `External-Description: ${rootItem.label.replace(/\s+/g, ' ')}`,
+        `Bagging-Date: ${new Date().toISOString().substring(0, 10)}`,
+        `Payload-Oxum: ${payloadSize}.${payloadCount}`
+    ].filter(line => line).join('\n') + '\n';
+}
@@ -0,0 +1,117 @@
+import Router from '@koa/router';
+import {DefaultState} from 'koa';
+
+import mime from 'mime-types';
+import {basename, extname} from 'path';
+import {existsSync} from 'fs';
+
+import logger from '../lib/Logger.js';
+import HttpError from '../lib/HttpError.js';
+import getPronomInfo from '../lib/Pronom.js';
+import {ExtendedContext} from '../lib/Koa.js';
+import {statAsync} from '../lib/Promisified.js';
+import {Item} from '../lib/ItemInterfaces.js';
+import {AccessState, hasAccess} from '../lib/Security.js';
+import {getItem, getChildItems, getFullPath, getPronom, getAvailableType, hasType} from '../lib/Item.js';
+
+import {createDownload, DownloadEntry, DownloadFormat} from './bulkDownload.js';
+
+export const router = new Router<DefaultState, ExtendedContext>({prefix: '/download'});
+
+const FILE_TYPES = ['file', 'pdf', 'image', 'audio', 'video'];
+
+router.get('/:id', async ctx => {
+    logger.info(`Received a request for a download with id ${ctx.params.id}`);
+
+    const item = await getItem(ctx.params.id);
+    if (!item || !['root', 'folder'].includes(item.type))
+        throw new HttpError(404, `No collection or folder found with id ${ctx.params.id}`);
+
+    const access = await hasAccess(ctx, item, false);
+    if (access.state === AccessState.CLOSED)
+        throw new HttpError(401, 'Access denied!');
+
+    const type = ctx.queryFirst('type') || null;
+    if (type && !['original', 'access'].includes(type))
+        throw new HttpError(400, 'You can only request original or access copies!');
+
+    const format = ctx.queryFirst('format') || 'zip';
+    if (!['zip', 'bagit'].includes(format))
+        throw new HttpError(400, 'You can only request a download as a ZIP or as a BagIt bag!');
+
+    const entries = await getEntries(ctx, item, type as 'original' | 'access' | null, '', new Set());
+    if (!entries.some(entry => entry.status === 'included'))
+        throw new HttpError(404, `No accessible files found for id ${ctx.params.id}`);
+
+    ctx.set('Content-Type', 'application/zip');
+    ctx.set('Content-Disposition', `attachment; filename="${item.id}.zip"`);
+    ctx.set('Cache-Control', 'no-store');
+    ctx.body = createDownload(item, entries, format as DownloadFormat);
+
+    logger.info(`Sending a download with id ${ctx.params.id}`);
+});
+
+async function getEntries(ctx: ExtendedContext, parent: Item, type: 'original' | 'access' | null,
+                          directory: string, usedPaths: Set<string>): Promise<DownloadEntry[]> {
+    const entries: DownloadEntry[] = [];
+    const children = [...await getChildItems(parent)]
+        .sort((a, b) => (a.order || 0) - (b.order || 0) || a.label.localeCompare(b.label));
+
+    for (const child of children) {
+        if (child.type === 'folder') {
+            const path = getUniquePath(directory + sanitizeName(child.label, child.id), usedPaths);
+            entries.push(...await getEntries(ctx, child, type, path + '/', usedPaths));
+        }
+        else if (FILE_TYPES.includes(child.type))
+            entries.push(await getEntry(ctx, child, type, directory, usedPaths));
+    }
+
+    return entries;
+}
+
+async function getEntry(ctx: ExtendedContext, item: Item, requestedType: 'original' | 'access' | null,
+                        directory: string, usedPaths: Set<string>): Promise<DownloadEntry> {
+    const type = requestedType || getAvailableType(item);
+    const fullPath = hasType(item, type) ? getFullPath(item, type) : null;
+    const puid = fullPath ? getPronom(item, type) || null : null;
+    const pronomInfo = puid ? getPronomInfo(puid) : null;
+    const name = fullPath ? basename(fullPath) : sanitizeName(item.label, item.id);
+
+    const entry: DownloadEntry = {
+        item,
+        path: getUniquePath(directory + name, usedPaths),
+        fullPath,
+        size: null,
+        puid,
+        pronomName: pronomInfo?.name || null,
+        mime: pronomInfo?.mime || (fullPath && mime.lookup(fullPath)) || null,
+        status: 'included'
+    };
+
+    const access = await hasAccess(ctx, item, false);
+    if (access.state !== AccessState.OPEN)
+        return {...entry, fullPath: null, status: 'no-access'};
+
+    if (!fullPath || !existsSync(fullPath))
+        return {...entry, fullPath: null, status: 'missing'};
+
+    const stat = await statAsync(fullPath);
+    return {...entry, size: stat.size};
+}
+
+function getUniquePath(path: string, usedPaths: Set<string>): string {
+    const extension = extname(path);
+    const base = path.substring(0, path.length - extension.length);
+
+    let uniquePath = path;
+    for (let i = 1; usedPaths.has(uniquePath); i++)
+        uniquePath = `${base} (${i})${extension}`;
+
+    usedPaths.add(uniquePath);
+    return uniquePath;
+}
+
+function sanitizeName(name: string, fallback: string): string {
+    const sanitized = name.replace(/[\/\\:*?"<>|\x00-\x1f]/g, '_').trim();
+    return sanitized && !/^\.+$/.test(sanitized) ? sanitized : fallback;
+}
@@ -0,0 +1,67 @@
+import {Stats} from 'fs';
+
+export interface ByteRange {
+    start: number;
+    end: number;
+}
+
+const RANGE = /^(\d*)-(\d*)$/;
+
+// Returns null if the header should be ignored and an empty list if none of the ranges are satisfiable
+export function parseRange(header: string, size: number): ByteRange[] | null {
+    const [unit, rangesSpec] = header.split('=', 2);
+    if (unit.trim() !== 'bytes' || !rangesSpec)
+        return null;
+
+    const ranges: ByteRange[] = [];
+    for (const rangeSpec of rangesSpec.split(',')) {
+        const match = RANGE.exec(rangeSpec.trim());
+        if (!match || (match[1] === '' && match[2] === ''))
+            return null;
+
+        // A suffix range requests the last bytes of the file
+        if (match[1] === '') {
+            const length = parseInt(match[2]);
+            if (length > 0 && size > 0)
+                ranges.push({start: Math.max(0, size - length), end: size - 1});
+            continue;
+        }
+
+        const start = parseInt(match[1]);
+        const end = (match[2] !== '') ? parseInt(match[2]) : Infinity;
+        if (end < start)
+            return null;
+
+        if (start < size)
+            ranges.push({start, end: Math.min(end, size - 1)});
+    }
+
+    return combineRanges(ranges);
+}
+
+export function isRangeValid(ifRange: string | undefined, etag: string, stat: Stats): boolean {
+    if (!ifRange)
+        return true;
+
+    // Only strong entity tags and exact dates are valid validators for a range request
+    if (ifRange.startsWith('"') || ifRange.startsWith('W/'))
+        return ifRange === etag;
+
+    const date = Date.parse(ifRange);
+    return !isNaN(date) && Math.floor(stat.mtime.getTime() / 1000) * 1000 === date;
+}
+
+function combineRanges(ranges: ByteRange[]): ByteRange[] {
+    const sorted = [...ranges].sort((a, b) => a.start - b.start);
+    const combined: ByteRange[] = [];
+    for (const range of sorted) {
+        const last = combined[combined.length - 1];
+        if (last && range.start <= last.end + 1)
+            last.end = Math.max(last.end, range.end);
+        else
+            combined.push({...range});
+    }
+
+    // Keep the order of the client if no ranges overlap
+    return combined.length === ranges.length ? ranges : combined;
+}
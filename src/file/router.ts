@@ -3,6 +3,8 @@ import {Context, DefaultState} from 'koa';
 
 import mime from 'mime-types';
 import {basename} from 'path';
+import {Readable} from 'stream';
+import {randomBytes} from 'crypto';
 import {createReadStream, existsSync, Stats} from 'fs';
 
 import config from '../lib/Config.js';
@@ -13,44 +15,17 @@ import derivatives from '../lib/Derivative.js';
 import {ExtendedContext} from '../lib/Koa.js';
 import {statAsync} from '../lib/Promisified.js';
 import {AccessState, hasAccess, hasAdminAccess} from '../lib/Security.js';
+import {setCacheHeaders, setValidators} from '../lib/ConditionalGet.js';
 import {getText, getFullPath as getFullTextPath} from '../lib/Text.js';
 import {determineItem, getFullPath, getPronom, getAvailableType, hasType, getFullDerivativePath} from '../lib/Item.js';
 
+import {isRangeValid, parseRange} from './range.js';
+
 export const router = new Router<DefaultState, ExtendedContext>({prefix: '/file'});
 
 router.use(async (ctx, next) => {
     ctx.set('Accept-Ranges', 'bytes');
-
-    const rangeHeader = ctx.header.range;
-    if (!rangeHeader)
-        return next();
-
-    const [bytes, ranges] = rangeHeader.split('=');
-    if (bytes !== 'bytes' || !ranges || ranges.includes(','))
-        throw new HttpError(416, 'Range Not Satisfiable');
-
-    let [start, end]: (string | number)[] = ranges.split('-');
-    start = Number(start);
-    end = (end !== '') ? Number(end) : Infinity;
-
-    if (isNaN(start) || isNaN(end))
-        throw new HttpError(416, 'Range Not Satisfiable');
-
-    logger.debug(`Received a range request from ${start} to ${end}`);
-
-    ctx.state.start = start;
-    ctx.state.end = end;
-
     await next();
-
-    const length = ctx.length;
-    if (!isNaN(length) && (start < length) && ((end < length) || !isFinite(end))) {
-        end = isFinite(end) ? end : length - 1;
-
-        ctx.status = 206;
-        ctx.set('Content-Range', `bytes ${start}-${end}/${length}`);
-        ctx.set('Content-Length', String(end - start + 1));
-    }
 });
 
 router.get('/:id/:type(original|access)?', async ctx => {
@@ -65,6 +40,8 @@ router.get('/:id/:type(original|access)?', async ctx => {
         const fullPath = getFullTextPath(text);
         const name = basename(fullPath);
         const stat = await statAsync(fullPath);
+        if (setValidators(ctx, {lastModified: stat.mtime, etag: getETag(stat)}))
+            return;
 
         ctx.set('Content-Type', text.source === 'alto' ? 'application/xml' : 'text/plain');
         ctx.set('Content-Length', String(stat.size));
@@ -100,6 +77,8 @@ router.get('/:id/:type(original|access)?', async ctx => {
     const pronomInfo = getPronomInfo(pronom);
     const stat = await statAsync(fullPath);
     const contentType = (pronomInfo && pronomInfo.mime) ? pronomInfo.mime : mime.contentType(name);
+    if (await setCacheHeaders(ctx, item, access, {lastModified: stat.mtime, etag: getETag(stat)}))
+        return;
 
     if (item.resolution)
         ctx.set('Content-Resolution', String(item.resolution));
@@ -140,6 +119,8 @@ router.get('/:id/:derivative', async ctx => {
         throw new HttpError(404, `No derivative found for id ${ctx.params.id} of type ${ctx.params.derivative}`);
 
     const stat = await statAsync(fullPath);
+    if (await setCacheHeaders(ctx, item, access, {lastModified: stat.mtime, etag: getETag(stat)}))
+        return;
 
     ctx.set('Content-Type', info.contentType);
     ctx.set('Content-Length', String(stat.size));
@@ -149,12 +130,57 @@ router.get('/:id/:derivative', async ctx => {
     logger.info(`Sending a derivative with id ${ctx.params.id} of type ${ctx.params.derivative}`);
 });
 
+function getETag(stat: Stats): string {
+    return `"${stat.size.toString(16)}-${stat.mtime.getTime().toString(16)}"`;
+}
+
 function setBody(ctx: Context, stat: Stats, fullPath: string) {
-    const options: { start?: number, end?: number } = {};
-    if (ctx.state.start && ctx.state.end &&
-        (ctx.state.start < stat.size) && ((ctx.state.end < stat.size) || !isFinite(ctx.state.end))) {
-        options.start = ctx.state.start;
-        options.end = ctx.state.end;
+    const ranges = ctx.header.range && isRangeValid(ctx.get('If-Range'), getETag(stat), stat)
+        ? parseRange(ctx.header.range, stat.size) : null;
+
+    if (!ranges) {
+        ctx.body = createReadStream(fullPath);
+        return;
+    }
+
+    if (ranges.length === 0) {
+        ctx.set('Content-Range', `bytes */${stat.size}`);
+        throw new HttpError(416, 'Range Not Satisfiable');
+    }
+
+    logger.debug(`Received a range request for ${ranges.map(range => `${range.start}-${range.end}`).join(',')}`);
+
+    ctx.status = 206;
+    ctx.compress = false;
+
+    if (ranges.length === 1) {
+        const [{start, end}] = ranges;
+        ctx.set('Content-Range', `bytes ${start}-${end}/${stat.size}`);
+        ctx.set('Content-Length', String(end - start + 1));
+        ctx.body = createReadStream(fullPath, {start, end});
+        return;
     }
-    ctx.body = createReadStream(fullPath, options);
+
+    const boundary = randomBytes(16).toString('hex');
+    const contentType = ctx.response.get('Content-Type') || 'application/octet-stream';
+    const parts = ranges.map(range => ({
+        ...range,
+        header: Buffer.from(`\r\n--${boundary}\r\nContent-Type: ${contentType}\r\n` +
+            `Content-Range: bytes ${range.start}-${range.end}/${stat.size}\r\n\r\n`)
+    }));
+    const trailer = Buffer.from(`\r\n--${boundary}--\r\n`);
+
+    async function* multipart() {
+        for (const part of parts) {
+            yield part.header;
+            yield* createReadStream(fullPath, {start: part.start, end: part.end});
+        }
+        yield trailer;
+    }
+
+    const length = parts.reduce((acc, part) => acc + part.header.length + part.end - part.start + 1, trailer.length);
+
+    ctx.set('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+    ctx.set('Content-Length', String(length));
+    ctx.body = Readable.from(multipart(), {objectMode: false});
 }
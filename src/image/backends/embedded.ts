@@ -0,0 +1,124 @@
+import sharp, {Sharp} from 'sharp';
+import {existsSync} from 'fs';
+import {ImageProfile} from '@archival-iiif/presentation-builder/v2';
+
+import {getFullPathFor} from '../../lib/Item.js';
+
+import parseSize from '../sizeParser.js';
+import parseRegion from '../regionParser.js';
+import {ImageProfileV3, sharpProfile, sharpProfileV3} from '../profiles.js';
+import {ImageBackend, ImageInfo, ImageOptions, ImageResult, Size} from '../imageServer.js';
+
+type Level = Size & { page: number };
+
+const TILE_SIZE = 512;
+
+const ROTATION = /^(!)?([0-9]+\.?[0-9]*)$/;
+
+const formats: { [format: string]: { type: keyof sharp.FormatEnum, contentType: string } } = {
+    jpg: {type: 'jpeg', contentType: 'image/jpeg'},
+    png: {type: 'png', contentType: 'image/png'},
+    webp: {type: 'webp', contentType: 'image/webp'},
+    tif: {type: 'tiff', contentType: 'image/tiff'}
+};
+
+const noImage = (status: number): ImageResult => ({image: null, status, contentType: null, contentLength: null});
+
+async function getImage(relativePath: string, max: number | null,
+                        {region, size, rotation, quality, format}: ImageOptions): Promise<ImageResult> {
+    const fullPath = getFullPathFor(relativePath);
+    if (!existsSync(fullPath))
+        return noImage(404);
+
+    const levels = await getLevels(fullPath);
+    const extractRegion = parseRegion(region, levels[0]);
+    const rotationMatch = ROTATION.exec(rotation);
+    if (!extractRegion || !rotationMatch || !(format in formats) ||
+        !['default', 'color', 'gray', 'bitonal'].includes(quality))
+        return noImage(400);
+
+    let newSize = parseSize(size, extractRegion);
+    if (!newSize)
+        return noImage(400);
+
+    if (max && (newSize.width > max || newSize.height > max))
+        newSize = parseSize(`!${max},${max}`, newSize) as Size;
+
+    // Read from the smallest level of the pyramid which still has enough pixels for the requested size
+    const scale = newSize.width / extractRegion.width;
+    const level = levels.reduce((acc, level) => (level.width / levels[0].width) >= scale ? level : acc, levels[0]);
+    const factor = level.width / levels[0].width;
+
+    let image: Sharp = sharp(fullPath, {page: level.page, limitInputPixels: false})
+        .extract({
+            left: Math.floor(extractRegion.left * factor),
+            top: Math.floor(extractRegion.top * factor),
+            width: Math.max(1, Math.min(Math.round(extractRegion.width * factor), level.width)),
+            height: Math.max(1, Math.min(Math.round(extractRegion.height * factor), level.height))
+        })
+        .resize(newSize.width, newSize.height, {fit: 'fill'});
+
+    if (rotationMatch[1])
+        image = image.flop();
+
+    const degrees = parseFloat(rotationMatch[2]) % 360;
+    if (degrees !== 0)
+        image = image.rotate(degrees, {background: {r: 255, g: 255, b: 255, alpha: format === 'png' ? 0 : 1}});
+
+    if (quality === 'gray')
+        image = image.grayscale();
+    else if (quality === 'bitonal')
+        image = image.threshold();
+
+    const buffer = await image.toFormat(formats[format].type).toBuffer();
+
+    return {
+        image: buffer,
+        status: 200,
+        contentType: formats[format].contentType,
+        contentLength: buffer.length
+    };
+}
+
+async function getInfo(relativePath: string): Promise<ImageInfo> {
+    const fullPath = getFullPathFor(relativePath);
+    if (!existsSync(fullPath))
+        return {};
+
+    const levels = await getLevels(fullPath);
+    const scaleFactors = levels.map(level => Math.round(levels[0].width / level.width));
+
+    return {
+        sizes: levels.map(level => ({width: level.width, height: level.height})).reverse(),
+        tiles: [{width: TILE_SIZE, height: TILE_SIZE, scaleFactors}]
+    };
+}
+
+function getProfile(): ImageProfile {
+    return sharpProfile;
+}
+
+function getProfileV3(): ImageProfileV3 {
+    return sharpProfileV3;
+}
+
+async function getLevels(fullPath: string): Promise<Level[]> {
+    const metadata = await sharp(fullPath).metadata();
+    const levels = [{width: metadata.width as number, height: metadata.height as number, page: 0}];
+
+    // Pyramidal TIFF files store every level of the pyramid on a separate page
+    if (metadata.format === 'tiff' && metadata.pages && metadata.pages > 1) {
+        for (let page = 1; page < metadata.pages; page++) {
+            const pageMetadata = await sharp(fullPath, {page}).metadata();
+            if (!pageMetadata.width || pageMetadata.width >= levels[levels.length - 1].width)
+                break;
+
+            levels.push({width: pageMetadata.width, height: pageMetadata.height as number, page});
+        }
+    }
+
+    return levels;
+}
+
+const embeddedBackend: ImageBackend = {getImage, getInfo, getProfile, getProfileV3};
+export default embeddedBackend;
@@ -0,0 +1,105 @@
+import got from 'got';
+import {ImageProfile} from '@archival-iiif/presentation-builder/v2';
+
+import config from '../../lib/Config.js';
+import logger from '../../lib/Logger.js';
+
+import {ImageBackend, ImageInfo, ImageOptions, ImageResult} from '../imageServer.js';
+import {
+    ImageProfileV3,
+    sharpProfile,
+    sharpProfileV3,
+    lorisProfile,
+    lorisProfileV3,
+    cantaloupeProfile,
+    cantaloupeProfileV3,
+    iipImageProfile,
+    iipImageProfileV3
+} from '../profiles.js';
+
+async function getImage(relativePath: string, max: number | null,
+                        {region, size, rotation, quality, format}: ImageOptions): Promise<ImageResult> {
+    size = (size === 'max') ? 'full' : size;
+
+    // The requested size is already restricted, but Loris and the Sharp image server also enforce the maximum
+    const supportsMax = config.imageServerName === 'loris' || config.imageServerName === 'sharp';
+
+    const url = `${getImageUrl(relativePath)}/${region}/${size}/${rotation}/${quality}.${format}`;
+    const response = await got(url, {
+        responseType: 'buffer',
+        throwHttpErrors: false,
+        timeout: {
+            request: 10000
+        },
+        searchParams: max && supportsMax ? {max} : undefined,
+    });
+
+    return {
+        image: response.statusCode === 200 ? response.body : null,
+        status: response.statusCode,
+        contentType: response.statusCode === 200 ? response.headers['content-type'] as string : null,
+        contentLength: response.statusCode === 200 ? parseInt(response.headers['content-length'] as string) : null
+    };
+}
+
+async function getInfo(relativePath: string): Promise<ImageInfo> {
+    try {
+        const info = await got(`${getImageUrl(relativePath)}/info.json`, {
+            timeout: {
+                request: 10000
+            }
+        }).json<ImageInfo>();
+
+        return {
+            sizes: info.sizes,
+            tiles: info.tiles?.map(tiles => ({
+                width: tiles.width,
+                height: tiles.height,
+                scaleFactors: tiles.scaleFactors
+            }))
+        };
+    }
+    catch (err: any) {
+        logger.warn(`Failed to obtain the image info of ${relativePath} from the image server: ${err.message}`);
+        return {};
+    }
+}
+
+function getProfile(): ImageProfile {
+    switch (config.imageServerName) {
+        case 'loris':
+            return lorisProfile;
+        case 'cantaloupe':
+            return cantaloupeProfile;
+        case 'iipimage':
+            return iipImageProfile;
+        case 'sharp':
+        default:
+            return sharpProfile;
+    }
+}
+
+function getProfileV3(): ImageProfileV3 {
+    switch (config.imageServerName) {
+        case 'loris':
+            return lorisProfileV3;
+        case 'cantaloupe':
+            return cantaloupeProfileV3;
+        case 'iipimage':
+            return iipImageProfileV3;
+        case 'sharp':
+        default:
+            return sharpProfileV3;
+    }
+}
+
+function getImageUrl(relativePath: string): string {
+    // IIPImage expects the path of the image in the 'IIIF' parameter, rather than an encoded identifier
+    if (config.imageServerName === 'iipimage')
+        return `${config.imageServerUrl}?IIIF=/${encodeURI(relativePath)}`;
+
+    return `${config.imageServerUrl}/${encodeURIComponent(relativePath)}`;
+}
+
+const remoteBackend: ImageBackend = {getImage, getInfo, getProfile, getProfileV3};
+export default remoteBackend;
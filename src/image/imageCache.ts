@@ -0,0 +1,168 @@
+import {join} from 'path';
+import {utimes} from 'fs';
+import {createHash, randomUUID} from 'crypto';
+import {lookup} from 'mime-types';
+import {ensureDir, move, pathExists, remove} from 'fs-extra';
+
+import config from '../lib/Config.js';
+import logger from '../lib/Logger.js';
+import {Item} from '../lib/ItemInterfaces.js';
+import {readdirAsync, readFileAsync, statAsync, writeFileAsync} from '../lib/Promisified.js';
+
+import {ImageOptions, ImageResult} from './imageServer.js';
+
+export interface CachedImageResult extends ImageResult {
+    cacheHit: boolean | null
+}
+
+type CachedFile = { path: string, size: number, lastUsed: number };
+
+// Once the cache is full, evict images until the cache is reduced to this part of the maximum size
+const EVICT_TO_FACTOR = 0.9;
+
+let cacheSize: number | null = null;
+let isCalculating = false;
+let isEvicting = false;
+
+export async function cacheImage(item: Item, tier: string | undefined, imageOptions: ImageOptions,
+                                 render: () => Promise<ImageResult>): Promise<CachedImageResult> {
+    if (!config.imageCacheRelativePath)
+        return {...await render(), cacheHit: null};
+
+    const path = getCachePath(item, tier, imageOptions);
+    if (await pathExists(path)) {
+        logger.debug(`Found image in cache for item ${item.id} with tier ${tier}`);
+
+        const image = await readFileAsync(path);
+        utimes(path, new Date(), new Date(), err => err && logger.warn(`Failed to touch cached image ${path}`));
+
+        return {
+            image,
+            status: 200,
+            contentType: lookup(imageOptions.format) || null,
+            contentLength: image.length,
+            cacheHit: true
+        };
+    }
+
+    const result = await render();
+    if (result.status === 200 && result.image) {
+        logger.debug(`Caching image for item ${item.id} with tier ${tier}`);
+        await writeToCache(path, result.image);
+    }
+
+    return {...result, cacheHit: false};
+}
+
+export async function purgeImageCache(collectionId: string): Promise<void> {
+    if (!config.imageCacheRelativePath)
+        return;
+
+    logger.debug(`Purging image cache for collection ${collectionId}`);
+
+    await remove(join(getCacheRoot(), collectionId));
+    cacheSize = null;
+}
+
+async function writeToCache(path: string, image: Buffer): Promise<void> {
+    // Write to a temporary file first, so that concurrent requests never read a partially written image
+    const tmpPath = `${path}.${randomUUID()}.tmp`;
+    try {
+        await ensureDir(join(path, '..'));
+        await writeFileAsync(tmpPath, image);
+        await move(tmpPath, path);
+    }
+    catch (err) {
+        await remove(tmpPath).catch(() => null);
+
+        // Another request may have cached the same image in the meantime
+        if (!await pathExists(path))
+            logger.error(`Failed to cache image ${path}`, {err});
+
+        return;
+    }
+
+    // Calculating the size of the cache may require a walk over the whole cache, so never let the response wait
+    updateCacheSize(image.length)
+        .catch(err => logger.error(`Failed to update the size of the image cache: ${err.message}`));
+}
+
+async function updateCacheSize(size: number): Promise<void> {
+    if (cacheSize === null) {
+        // The walk over the cache in progress will also find this image
+        if (isCalculating)
+            return;
+
+        isCalculating = true;
+        try {
+            cacheSize = (await getCachedFiles()).reduce((acc, file) => acc + file.size, 0);
+        }
+        finally {
+            isCalculating = false;
+        }
+    }
+    else
+        cacheSize += size;
+
+    if (cacheSize > config.imageCacheMaxSize * 1024 * 1024 && !isEvicting) {
+        isEvicting = true;
+        try {
+            await evict();
+        }
+        catch (err: any) {
+            logger.error(`Failed to evict images from the image cache: ${err.message}`);
+        }
+        finally {
+            isEvicting = false;
+        }
+    }
+}
+
+async function evict(): Promise<void> {
+    const files = (await getCachedFiles()).sort((a, b) => a.lastUsed - b.lastUsed);
+    const maxSize = config.imageCacheMaxSize * 1024 * 1024 * EVICT_TO_FACTOR;
+
+    let size = files.reduce((acc, file) => acc + file.size, 0);
+    let evicted = 0;
+    for (const file of files) {
+        if (size <= maxSize)
+            break;
+
+        await remove(file.path);
+        size -= file.size;
+        evicted++;
+    }
+
+    cacheSize = size;
+    logger.info(`Evicted ${evicted} images from the image cache`);
+}
+
+async function getCachedFiles(dir: string = getCacheRoot()): Promise<CachedFile[]> {
+    if (!await pathExists(dir))
+        return [];
+
+    const files: CachedFile[] = [];
+    for (const name of await readdirAsync(dir)) {
+        const path = join(dir, name);
+        const stat = await statAsync(path);
+
+        if (stat.isDirectory())
+            files.push(...await getCachedFiles(path));
+        else
+            files.push({path, size: stat.size, lastUsed: stat.mtimeMs});
+    }
+
+    return files;
+}
+
+function getCacheRoot(): string {
+    return join(config.dataRootPath, config.imageCacheRelativePath as string);
+}
+
+function getCachePath(item: Item, tier: string | undefined,
+                      {region, size, rotation, quality, format}: ImageOptions): string {
+    const key = [item.id, tier || '', region, size, rotation, quality, format].join('/');
+    const hash = createHash('md5').update(key).digest('hex');
+
+    return join(getCacheRoot(), item.collection_id, item.id, `${hash}.${format}`);
+}
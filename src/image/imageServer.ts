@@ -1,10 +1,14 @@
-import got from 'got';
 import {ImageProfile} from '@archival-iiif/presentation-builder/v2';
+import {Tiles} from '@archival-iiif/presentation-builder/v3';
 
-import {sharpProfile, lorisProfile} from './profiles.js';
+import parseSize from './sizeParser.js';
+import parseRegion from './regionParser.js';
+import {ImageProfileV3} from './profiles.js';
+import remoteBackend from './backends/remote.js';
+import embeddedBackend from './backends/embedded.js';
 
 import config from '../lib/Config.js';
-import {Item} from '../lib/ItemInterfaces.js';
+import {ImageItem, Item} from '../lib/ItemInterfaces.js';
 import {DerivativeType} from '../lib/Derivative.js';
 import {getRelativePath, getRelativeDerivativePath} from '../lib/Item.js';
 
@@ -28,56 +32,85 @@ export interface ImageResult {
     contentLength: number | null
 }
 
+export interface ImageInfo {
+    sizes?: Size[],
+    tiles?: Tiles[]
+}
+
+export interface ImageBackend {
+    getImage: (relativePath: string, max: number | null, imageOptions: ImageOptions) => Promise<ImageResult>;
+    getInfo: (relativePath: string) => Promise<ImageInfo>;
+    getProfile: () => ImageProfile;
+    getProfileV3: () => ImageProfileV3;
+}
+
 export async function getImage(item: Item, derivative: DerivativeType | null, max: number | null,
                                imageOptions: ImageOptions): Promise<ImageResult> {
+    if (item.type === 'image' && max) {
+        const size = getRestrictedSize(item as ImageItem, max, imageOptions);
+        if (!size)
+            return noImage(400);
+
+        return getBackend().getImage(getRelativePath(item), max, {...imageOptions, size});
+    }
+
     if (item.type === 'image')
-        return serveImage(getRelativePath(item), max, imageOptions);
+        return getBackend().getImage(getRelativePath(item), max, imageOptions);
 
     if (derivative)
-        return serveImage(getRelativeDerivativePath(item, derivative), max, imageOptions);
+        return getBackend().getImage(getRelativeDerivativePath(item, derivative), max, imageOptions);
 
-    return {
-        image: null,
-        status: 404,
-        contentType: null,
-        contentLength: null
-    };
+    return noImage(404);
+}
+
+export async function getImageSizes(item: Item, derivative: DerivativeType | null): Promise<ImageInfo> {
+    if (item.type === 'image')
+        return getBackend().getInfo(getRelativePath(item));
+
+    if (derivative)
+        return getBackend().getInfo(getRelativeDerivativePath(item, derivative));
+
+    return {};
 }
 
 export async function getLogo(imageOptions: ImageOptions): Promise<ImageResult> {
-    return serveImage(config.logoRelativePath as string, null, imageOptions);
+    return getBackend().getImage(config.logoRelativePath as string, null, imageOptions);
 }
 
 export async function getAudio(imageOptions: ImageOptions): Promise<ImageResult> {
-    return serveImage(config.audioRelativePath as string, null, imageOptions);
+    return getBackend().getImage(config.audioRelativePath as string, null, imageOptions);
 }
 
 export function getProfile(): ImageProfile {
-    if (!config.imageServerUrl || config.imageServerName === 'sharp')
-        return sharpProfile;
+    return getBackend().getProfile();
+}
 
-    return lorisProfile;
+export function getProfileV3(): ImageProfileV3 {
+    return getBackend().getProfileV3();
 }
 
-async function serveImage(relativePath: string, max: number | null,
-                          {region, size, rotation, quality, format}: ImageOptions): Promise<ImageResult> {
-    size = (size === 'max') ? 'full' : size;
-
-    const encodedPath = encodeURIComponent(relativePath);
-    const url = `${config.imageServerUrl}/${encodedPath}/${region}/${size}/${rotation}/${quality}.${format}`;
-    const response = await got(url, {
-        responseType: 'buffer',
-        throwHttpErrors: false,
-        timeout: {
-            request: 10000
-        },
-        searchParams: max ? {max} : {},
-    });
+// Not every image server can restrict the size of an image, so request the exact number of pixels allowed instead
+function getRestrictedSize(item: ImageItem, max: number, {region, size}: ImageOptions): string | null {
+    const regionSize = parseRegion(region, {width: item.width, height: item.height});
+    let newSize = regionSize && parseSize(size, regionSize);
+    if (!newSize)
+        return null;
+
+    if (newSize.width > max || newSize.height > max)
+        newSize = parseSize(`!${max},${max}`, newSize) as Size;
 
+    return `${newSize.width},${newSize.height}`;
+}
+
+function noImage(status: number): ImageResult {
     return {
-        image: response.statusCode === 200 ? response.body : null,
-        status: response.statusCode,
-        contentType: response.statusCode === 200 ? response.headers['content-type'] as string : null,
-        contentLength: response.statusCode === 200 ? parseInt(response.headers['content-length'] as string) : null
+        image: null,
+        status,
+        contentType: null,
+        contentLength: null
     };
 }
+
+function getBackend(): ImageBackend {
+    return config.imageServerName === 'embedded' ? embeddedBackend : remoteBackend;
+}
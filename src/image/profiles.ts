@@ -1,4 +1,5 @@
 import {ImageProfile} from '@archival-iiif/presentation-builder/v2';
+import {Features, Quality} from '@archival-iiif/presentation-builder/v3';
 
 export const sharpProfile: ImageProfile = {
     formats: [
@@ -67,3 +68,147 @@ export const lorisProfile: ImageProfile = {
         'sizeByWh'
     ]
 };
+
+export const cantaloupeProfile: ImageProfile = {
+    formats: [
+        'jpg',
+        'png',
+        'gif',
+        'tif'
+    ],
+    qualities: [
+        'default',
+        'color',
+        'gray',
+        'bitonal'
+    ],
+    supports: [
+        'baseUriRedirect',
+        'canonicalLinkHeader',
+        'cors',
+        'jsonldMediaType',
+        'mirroring',
+        'profileLinkHeader',
+        'regionByPct',
+        'regionByPx',
+        'regionSquare',
+        'rotationArbitrary',
+        'rotationBy90s',
+        'sizeByConfinedWh',
+        'sizeByDistortedWh',
+        'sizeByH',
+        'sizeByPct',
+        'sizeByW',
+        'sizeByWh'
+    ]
+};
+
+export const iipImageProfile: ImageProfile = {
+    formats: [
+        'jpg',
+        'png'
+    ],
+    qualities: [
+        'default',
+        'color',
+        'gray',
+        'bitonal'
+    ],
+    supports: [
+        'baseUriRedirect',
+        'cors',
+        'jsonldMediaType',
+        'mirroring',
+        'regionByPct',
+        'regionByPx',
+        'regionSquare',
+        'rotationBy90s',
+        'sizeByConfinedWh',
+        'sizeByDistortedWh',
+        'sizeByH',
+        'sizeByPct',
+        'sizeByW',
+        'sizeByWh'
+    ]
+};
+
+export interface ImageProfileV3 {
+    extraFormats: string[];
+    preferredFormats: string[];
+    extraQualities: Quality[];
+    extraFeatures: Features[];
+}
+
+export const sharpProfileV3: ImageProfileV3 = {
+    extraFormats: [
+        'webp',
+        'tif'
+    ],
+    preferredFormats: [
+        'jpg'
+    ],
+    extraQualities: [
+        'gray',
+        'bitonal'
+    ],
+    extraFeatures: [
+        'canonicalLinkHeader',
+        'mirroring',
+        'profileLinkHeader',
+        'rotationArbitrary'
+    ]
+};
+
+export const lorisProfileV3: ImageProfileV3 = {
+    extraFormats: [
+        'gif',
+        'webp'
+    ],
+    preferredFormats: [
+        'jpg'
+    ],
+    extraQualities: [
+        'gray',
+        'bitonal'
+    ],
+    extraFeatures: [
+        'canonicalLinkHeader',
+        'mirroring',
+        'profileLinkHeader',
+        'rotationArbitrary'
+    ]
+};
+
+export const cantaloupeProfileV3: ImageProfileV3 = {
+    extraFormats: [
+        'gif',
+        'tif'
+    ],
+    preferredFormats: [
+        'jpg'
+    ],
+    extraQualities: [
+        'gray',
+        'bitonal'
+    ],
+    extraFeatures: [
+        'canonicalLinkHeader',
+        'mirroring',
+        'profileLinkHeader',
+        'rotationArbitrary'
+    ]
+};
+
+export const iipImageProfileV3: ImageProfileV3 = {
+    extraFormats: [],
+    preferredFormats: [
+        'jpg'
+    ],
+    extraQualities: [
+        'gray',
+        'bitonal'
+    ],
+    extraFeatures: [
+        'mirroring'
+    ]
+};
@@ -0,0 +1,44 @@
+import {Size} from './imageServer.js';
+
+export type Region = Size & { left: number, top: number };
+
+const REGION_PX = /^([0-9]+),([0-9]+),([0-9]+),([0-9]+)$/;
+const REGION_PCT = /^pct:([0-9]+\.?[0-9]*),([0-9]+\.?[0-9]*),([0-9]+\.?[0-9]*),([0-9]+\.?[0-9]*)$/;
+
+export default function parseRegion(region: string, size: Size): Region | null {
+    let result: Region;
+    let match;
+
+    if (region === 'full')
+        result = {left: 0, top: 0, width: size.width, height: size.height};
+    else if (region === 'square') {
+        const shortest = Math.min(size.width, size.height);
+        result = {
+            left: Math.floor((size.width - shortest) / 2),
+            top: Math.floor((size.height - shortest) / 2),
+            width: shortest,
+            height: shortest
+        };
+    }
+    else if ((match = REGION_PX.exec(region)) !== null) {
+        const [left, top, width, height] = match.slice(1).map(i => parseInt(i));
+        result = {left, top, width, height};
+    }
+    else if ((match = REGION_PCT.exec(region)) !== null) {
+        const [left, top, width, height] = match.slice(1).map(i => parseFloat(i) / 100);
+        result = {
+            left: Math.round(left * size.width),
+            top: Math.round(top * size.height),
+            width: Math.round(width * size.width),
+            height: Math.round(height * size.height)
+        };
+    }
+    else
+        return null;
+
+    // Crop the region to the image, a region which falls outside the image is invalid
+    result.width = Math.min(result.width, size.width - result.left);
+    result.height = Math.min(result.height, size.height - result.top);
+
+    return (result.width > 0 && result.height > 0) ? result : null;
+}
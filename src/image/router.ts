@@ -5,7 +5,8 @@ import Router from '@koa/router';
 import {Context, DefaultState, ParameterizedContext} from 'koa';
 
 import parseSize from './sizeParser.js';
-import {getImage, getLogo, getAudio, getProfile, ImageOptions} from './imageServer.js';
+import {cacheImage} from './imageCache.js';
+import {getImage, getImageSizes, getLogo, getAudio, getProfile, getProfileV3, ImageOptions} from './imageServer.js';
 
 import logger from '../lib/Logger.js';
 import config from '../lib/Config.js';
@@ -16,143 +17,172 @@ import {ImageItem, Item} from '../lib/ItemInterfaces.js';
 import derivatives, {DerivativeType} from '../lib/Derivative.js';
 import {Access, AccessState, hasAccess} from '../lib/Security.js';
 import {determineItem, getFullDerivativePath} from '../lib/Item.js';
+import {getLastModified, hash, setCacheHeaders} from '../lib/ConditionalGet.js';
 
-import {getImageInfo, getStaticImageInfo} from '../builder/PresentationBuilder.js';
+import {
+    getImageInfo, getStaticImageInfo, getImageInfoV3, getStaticImageInfoV3
+} from '../builder/PresentationBuilder.js';
 
 type ImageContext = ParameterizedContext<DefaultState, ExtendedContext & ImageOptions>;
+type ImageVersion = 2 | 3;
 
 const prefix = '/iiif/image';
 export const router = new Router<DefaultState, ExtendedContext>({prefix});
 
-router.get('/:id', ctx => {
-    ctx.status = 303;
-    ctx.redirect(`${prefix}/${ctx.params.id}/info.json`);
-});
+// Register the Image API 3.0 routes first, so they take precedence over the Image API 2.1 routes
+for (const version of [3, 2] as ImageVersion[]) {
+    const path = version === 3 ? '/v3' : '';
+    const versionPrefix = prefix + path;
 
-router.get('/:name(logo|audio)/info.json', async ctx => {
-    logger.info(`Received a request for image info of the ${ctx.params.name}`);
+    router.get(`${path}/:id`, ctx => {
+        ctx.status = 303;
+        ctx.redirect(`${versionPrefix}/${ctx.params.id}/info.json`);
+    });
 
-    if (ctx.params.name === 'logo' && !config.logoRelativePath)
-        throw new HttpError(404, 'No logo');
-    if (ctx.params.name === 'audio' && !config.audioRelativePath)
-        throw new HttpError(404, 'No audio');
+    router.get(`${path}/:name(logo|audio)/info.json`, async ctx => {
+        logger.info(`Received a request for image info of the ${ctx.params.name}`);
 
-    setContentType(ctx);
+        if (ctx.params.name === 'logo' && !config.logoRelativePath)
+            throw new HttpError(404, 'No logo');
+        if (ctx.params.name === 'audio' && !config.audioRelativePath)
+            throw new HttpError(404, 'No audio');
 
-    if (ctx.params.name === 'logo' || ctx.params.name === 'audio')
-        ctx.body = await getStaticImageInfo(ctx.params.name, getProfile());
+        const infoVersion = getInfoVersion(ctx, version);
+        setContentType(ctx, infoVersion);
 
-    logger.info(`Sending image info of the ${ctx.params.name}`);
-});
+        if (ctx.params.name === 'logo' || ctx.params.name === 'audio')
+            ctx.body = infoVersion === 3
+                ? await getStaticImageInfoV3(ctx.params.name, getProfileV3())
+                : await getStaticImageInfo(ctx.params.name, getProfile());
 
-router.get('/:id/info.json', async ctx => {
-    const [id, tier] = ctx.params.id.split(config.imageTierSeparator);
+        logger.info(`Sending image info of the ${ctx.params.name}`);
+    });
 
-    logger.info(`Received a request for image info with id ${id} on tier ${tier}`);
+    router.get(`${path}/:id/info.json`, async ctx => {
+        const [id, tier] = ctx.params.id.split(config.imageTierSeparator);
 
-    const [item, derivative] = await getItemAndDerivative(id, tier);
+        logger.info(`Received a request for image info with id ${id} on tier ${tier}`);
 
-    if (item.type === 'audio') {
-        ctx.redirect(`${prefix}/audio/info.json`);
-        return;
-    }
+        const [item, derivative] = await getItemAndDerivative(id, tier);
 
-    const access = await hasAccess(ctx, item, true);
-    if (access.state === AccessState.CLOSED) {
-        setContentType(ctx);
-        ctx.status = 401;
-        ctx.body = await getImageInfo(item, derivative, getProfile(), access);
-        logger.info(`Sending image info with id ${id} and tier ${tier}`);
-        return;
-    }
-    else if (access.state === AccessState.OPEN && shouldRedirect(derivative, access, tier)) {
-        ctx.redirect(`${prefix}/${id}/info.json`);
-        return;
-    }
+        if (item.type === 'audio') {
+            ctx.redirect(`${versionPrefix}/audio/info.json`);
+            return;
+        }
 
-    if (access.state === AccessState.TIERED && shouldRedirect(derivative, access, tier)) {
-        ctx.redirect(`${prefix}/${id}${config.imageTierSeparator}${access.tier.name}/info.json`);
-        return;
-    }
+        const infoVersion = getInfoVersion(ctx, version);
+        const access = await hasAccess(ctx, item, true);
+        if (access.state === AccessState.CLOSED) {
+            await setCacheHeaders(ctx, item, access);
+            setContentType(ctx, infoVersion);
+            ctx.status = 401;
+            ctx.body = await getInfo(item, derivative, access, infoVersion);
+            logger.info(`Sending image info with id ${id} and tier ${tier}`);
+            return;
+        }
+        else if (access.state === AccessState.OPEN && shouldRedirect(derivative, access, tier)) {
+            ctx.redirect(`${versionPrefix}/${id}/info.json`);
+            return;
+        }
 
-    setContentType(ctx);
-    ctx.body = await cache('image', id, ctx.params.id,
-        async () => getImageInfo(item as ImageItem, derivative, getProfile(), access));
+        if (access.state === AccessState.TIERED && shouldRedirect(derivative, access, tier)) {
+            ctx.redirect(`${versionPrefix}/${id}${config.imageTierSeparator}${access.tier.name}/info.json`);
+            return;
+        }
 
-    logger.info(`Sending image info with id ${id} and tier ${tier}`);
-});
+        if (await setCacheHeaders(ctx, item, access, {lastModified: await getLastModified(item)}))
+            return;
 
-router.get('/:name(logo|audio)/:region/:size/:rotation/:quality.:format', async (ctx: ImageContext) => {
-    logger.info(`Received a request for the ${ctx.params.name}`);
+        setContentType(ctx, infoVersion);
+        ctx.body = await cache(infoVersion === 3 ? 'image-v3' : 'image', id, ctx.params.id,
+            async () => getInfo(item as ImageItem, derivative, access, infoVersion));
 
-    if (ctx.params.name === 'logo' && !config.logoRelativePath)
-        throw new HttpError(404, 'No logo');
-    if (ctx.params.name === 'audio' && !config.audioRelativePath)
-        throw new HttpError(404, 'No audio');
+        logger.info(`Sending image info with id ${id} and tier ${tier}`);
+    });
 
-    const image = ctx.params.name === 'logo'
-        ? await getLogo(ctx.params)
-        : await getAudio(ctx.params);
+    router.get(`${path}/:name(logo|audio)/:region/:size/:rotation/:quality.:format`, async (ctx: ImageContext) => {
+        logger.info(`Received a request for the ${ctx.params.name}`);
 
-    ctx.body = image.image;
-    ctx.status = image.status;
-    if (image.contentType) ctx.set('Content-Type', image.contentType);
-    if (image.contentLength) ctx.set('Content-Length', String(image.contentLength));
-    ctx.set('Content-Disposition', `inline; filename="logo-${ctx.params.region}-${ctx.params.size}-${ctx.params.rotation}-${ctx.params.quality}.${ctx.params.format}"`);
+        if (ctx.params.name === 'logo' && !config.logoRelativePath)
+            throw new HttpError(404, 'No logo');
+        if (ctx.params.name === 'audio' && !config.audioRelativePath)
+            throw new HttpError(404, 'No audio');
 
-    logger.info(`Sending the ${ctx.params.name}`);
-});
+        validateImageOptions(ctx.params, version);
 
-router.get('/:id/:region/:size/:rotation/:quality.:format', async (ctx: ImageContext) => {
-    const [id, tier] = ctx.params.id.split(config.imageTierSeparator);
+        const image = ctx.params.name === 'logo'
+            ? await getLogo(ctx.params)
+            : await getAudio(ctx.params);
 
-    logger.info(`Received a request for an image with id ${id} on tier ${tier}`);
+        ctx.body = image.image;
+        ctx.status = image.status;
+        if (image.contentType) ctx.set('Content-Type', image.contentType);
+        if (image.contentLength) ctx.set('Content-Length', String(image.contentLength));
+        ctx.set('Content-Disposition', `inline; filename="logo-${ctx.params.region}-${ctx.params.size}-${ctx.params.rotation}-${ctx.params.quality}.${ctx.params.format}"`);
 
-    const [item, derivative] = await getItemAndDerivative(id, tier);
+        logger.info(`Sending the ${ctx.params.name}`);
+    });
 
-    if (item.type === 'audio') {
-        ctx.redirect(`${prefix}/audio/${ctx.params.region}/${ctx.params.size}/${ctx.params.rotation}/${ctx.params.quality}.${ctx.params.format}`);
-        return;
-    }
+    router.get(`${path}/:id/:region/:size/:rotation/:quality.:format`, async (ctx: ImageContext) => {
+        const [id, tier] = ctx.params.id.split(config.imageTierSeparator);
 
-    const access = await hasAccess(ctx, item, false);
-    if (access.state === AccessState.CLOSED)
-        throw new HttpError(401, 'Access denied!');
+        logger.info(`Received a request for an image with id ${id} on tier ${tier}`);
 
-    if (access.state === AccessState.OPEN && shouldRedirect(derivative, access, tier)) {
-        ctx.redirect(`${prefix}/${id}/${ctx.params.region}/${ctx.params.size}/${ctx.params.rotation}/${ctx.params.quality}.${ctx.params.format}`);
-        return;
-    }
+        validateImageOptions(ctx.params, version);
 
-    if (access.state === AccessState.TIERED && shouldRedirect(derivative, access, tier)) {
-        ctx.redirect(`${prefix}/${id}${config.imageTierSeparator}${access.tier.name}/${ctx.params.region}/${ctx.params.size}/${ctx.params.rotation}/${ctx.params.quality}.${ctx.params.format}`);
-        return;
-    }
+        const [item, derivative] = await getItemAndDerivative(id, tier);
 
-    if (item.type === 'image') {
-        const imageItem = item as ImageItem;
-        const size = access.tier
-            ? Image.computeMaxSize(access.tier, imageItem.width, imageItem.height)
-            : {width: imageItem.width, height: imageItem.height};
+        if (item.type === 'audio') {
+            ctx.redirect(`${versionPrefix}/audio/${ctx.params.region}/${ctx.params.size}/${ctx.params.rotation}/${ctx.params.quality}.${ctx.params.format}`);
+            return;
+        }
 
-        const requestedSize = parseSize(ctx.params.size, size);
-        if (requestedSize && (requestedSize.width > size.width || requestedSize.height > size.height)) {
-            ctx.redirect(`${prefix}/${ctx.params.id}/${ctx.params.region}/max/${ctx.params.rotation}/${ctx.params.quality}.${ctx.params.format}`);
+        const access = await hasAccess(ctx, item, false);
+        if (access.state === AccessState.CLOSED)
+            throw new HttpError(401, 'Access denied!');
+
+        if (access.state === AccessState.OPEN && shouldRedirect(derivative, access, tier)) {
+            ctx.redirect(`${versionPrefix}/${id}/${ctx.params.region}/${ctx.params.size}/${ctx.params.rotation}/${ctx.params.quality}.${ctx.params.format}`);
+            return;
+        }
+
+        if (access.state === AccessState.TIERED && shouldRedirect(derivative, access, tier)) {
+            ctx.redirect(`${versionPrefix}/${id}${config.imageTierSeparator}${access.tier.name}/${ctx.params.region}/${ctx.params.size}/${ctx.params.rotation}/${ctx.params.quality}.${ctx.params.format}`);
             return;
         }
-    }
 
-    const max = item.type === 'image' && access.tier ? access.tier.maxSize : null;
-    const image = await getImage(item, derivative, max, ctx.params);
+        if (item.type === 'image') {
+            const imageItem = item as ImageItem;
+            const size = access.tier
+                ? Image.computeMaxSize(access.tier, imageItem.width, imageItem.height)
+                : {width: imageItem.width, height: imageItem.height};
+
+            const requestedSize = parseSize(ctx.params.size, size);
+            if (requestedSize && (requestedSize.width > size.width || requestedSize.height > size.height)) {
+                ctx.redirect(`${versionPrefix}/${ctx.params.id}/${ctx.params.region}/max/${ctx.params.rotation}/${ctx.params.quality}.${ctx.params.format}`);
+                return;
+            }
+        }
+
+        const lastModified = await getLastModified(item);
+        const etag = lastModified && `"${hash([ctx.params, lastModified.getTime()])}"`;
+        if (await setCacheHeaders(ctx, item, access, {lastModified, etag}))
+            return;
 
-    ctx.body = image.image;
-    ctx.status = image.status;
-    if (image.contentType) ctx.set('Content-Type', image.contentType);
-    if (image.contentLength) ctx.set('Content-Length', String(image.contentLength));
-    ctx.set('Content-Disposition', `inline; filename="${ctx.params.id}-${ctx.params.region}-${ctx.params.size}-${ctx.params.rotation}-${ctx.params.quality}.${ctx.params.format}"`);
+        const max = item.type === 'image' && access.tier ? access.tier.maxSize : null;
+        const image = await cacheImage(item, tier, ctx.params,
+            async () => getImage(item, derivative, max, ctx.params));
 
-    logger.info(`Sending an image with id ${id} and tier ${tier}`);
-});
+        ctx.body = image.image;
+        ctx.status = image.status;
+        if (image.contentType) ctx.set('Content-Type', image.contentType);
+        if (image.contentLength) ctx.set('Content-Length', String(image.contentLength));
+        if (image.cacheHit !== null) ctx.set('X-Cache', image.cacheHit ? 'HIT' : 'MISS');
+        ctx.set('Content-Disposition', `inline; filename="${ctx.params.id}-${ctx.params.region}-${ctx.params.size}-${ctx.params.rotation}-${ctx.params.quality}.${ctx.params.format}"`);
+
+        logger.info(`Sending an image with id ${id} and tier ${tier}`);
+    });
+}
 
 async function getItemAndDerivative(id: string, tier: string): Promise<[Item, DerivativeType | null]> {
     const item = await determineItem(id);
@@ -176,6 +206,14 @@ async function getItemAndDerivative(id: string, tier: string): Promise<[Item, De
     return [item, derivative || null];
 }
 
+async function getInfo(item: Item, derivative: DerivativeType | null, access: Access, version: ImageVersion) {
+    const info = await getImageSizes(item, derivative);
+    if (version === 3)
+        return getImageInfoV3(item, derivative, getProfileV3(), access, info);
+
+    return getImageInfo(item, derivative, getProfile(), access, info);
+}
+
 function shouldRedirect(derivative: DerivativeType | null, access: Access, tier?: string): boolean {
     const unnecessaryTier = tier && access.state === AccessState.OPEN && derivative?.imageTier !== tier;
     const wrongTier = tier && (access.state === AccessState.TIERED) && (tier !== access.tier.name);
@@ -184,13 +222,30 @@ function shouldRedirect(derivative: DerivativeType | null, access: Access, tier?
     return unnecessaryTier || wrongTier || noTier;
 }
 
-function setContentType(ctx: Context): void {
+function validateImageOptions(imageOptions: ImageOptions, version: ImageVersion): void {
+    if (version === 3 && imageOptions.size.startsWith('^'))
+        throw new HttpError(400, 'Upscaling is not supported');
+}
+
+function getInfoVersion(ctx: Context, version: ImageVersion): ImageVersion {
+    // Set before any conditional check, as a 304 also has to state that the response depends on the Accept header
+    ctx.vary('Accept');
+
+    // Allow clients to request an Image API 3.0 document on the default routes using the profile parameter
+    const accept = ctx.get('Accept');
+    if (version === 2 && accept.includes('http://iiif.io/api/image/3/context.json'))
+        return 3;
+
+    return version;
+}
+
+function setContentType(ctx: Context, version: ImageVersion): void {
     switch (ctx.accepts('application/ld+json', 'application/json')) {
         case 'application/json':
             ctx.set('Content-Type', 'application/json');
             break;
         case 'application/ld+json':
         default:
-            ctx.set('Content-Type', 'application/ld+json;profile="http://iiif.io/api/image/2/context.json"');
+            ctx.set('Content-Type', `application/ld+json;profile="http://iiif.io/api/image/${version}/context.json"`);
     }
 }
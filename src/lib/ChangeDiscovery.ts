@@ -0,0 +1,100 @@
+import logger from './Logger.js';
+import {getPersistentClient} from './Redis.js';
+import {Item, MinimalItem} from './ItemInterfaces.js';
+
+export type ActivityType = 'Create' | 'Update' | 'Delete';
+
+export interface Activity {
+    type: ActivityType;
+    objectId: string;
+    objectType: string;
+    endTime: string;
+}
+
+type RedisClient = NonNullable<ReturnType<typeof getPersistentClient>>;
+
+const ACTIVITIES_KEY = 'discovery:activities';
+const OBJECTS_KEY = 'discovery:objects';
+const deletedKey = (collectionId: string) => `discovery:deleted:${collectionId}`;
+
+export async function recordIndexed(items: Item[]): Promise<void> {
+    await record('index', async client => {
+        const objects = items.filter(isDiscoverable);
+        const known = objects.length > 0 ? await client.hmGet(OBJECTS_KEY, objects.map(item => item.id)) : [];
+        const activities = objects.map((item, i) =>
+            createActivity(known[i] ? 'Update' : 'Create', item.id, item.type));
+
+        // Objects removed before indexing the collection again, but which are not part of it anymore, are deleted
+        const collectionIds = Array.from(new Set(items.map(item => item.collection_id)));
+        const deletedIds = (await Promise.all(collectionIds.map(id => client.sMembers(deletedKey(id)))))
+            .flat()
+            .filter(id => !objects.find(item => item.id === id));
+        const deletedTypes = deletedIds.length > 0 ? await client.hmGet(OBJECTS_KEY, deletedIds) : [];
+        deletedIds.forEach((id, i) => activities.push(createActivity('Delete', id, deletedTypes[i] || 'root')));
+
+        const multi = client.multi();
+        activities.length > 0 && multi.rPush(ACTIVITIES_KEY, activities.map(activity => JSON.stringify(activity)));
+        objects.length > 0 && multi.hSet(OBJECTS_KEY, Object.fromEntries(objects.map(item => [item.id, item.type])));
+        deletedIds.length > 0 && multi.hDel(OBJECTS_KEY, deletedIds);
+        collectionIds.length > 0 && multi.del(collectionIds.map(deletedKey));
+        await multi.exec();
+    });
+}
+
+export async function recordUpdated(items: MinimalItem[]): Promise<void> {
+    await record('update', async client => {
+        const ids = Array.from(new Set(items.map(item => item.id)));
+        const types = ids.length > 0 ? await client.hmGet(OBJECTS_KEY, ids) : [];
+        const activities = ids
+            .map((id, i) => types[i] ? createActivity('Update', id, types[i]) : null)
+            .filter(activity => activity !== null) as Activity[];
+
+        if (activities.length > 0)
+            await client.rPush(ACTIVITIES_KEY, activities.map(activity => JSON.stringify(activity)));
+    });
+}
+
+export async function recordDeleted(collectionId: string, items: Item[]): Promise<void> {
+    // Collections are deleted right before they are indexed again,
+    // so only record the deletion once it is known which objects are gone
+    await record('delete', async client => {
+        const objects = items.filter(isDiscoverable);
+        if (objects.length > 0)
+            await client.sAdd(deletedKey(collectionId), objects.map(item => item.id));
+    });
+}
+
+export async function getActivityCount(): Promise<number> {
+    const client = getPersistentClient();
+    return client ? client.lLen(ACTIVITIES_KEY) : 0;
+}
+
+export async function getActivities(start: number, count: number): Promise<Activity[]> {
+    const client = getPersistentClient();
+    if (!client || count <= 0)
+        return [];
+
+    const activities = await client.lRange(ACTIVITIES_KEY, start, start + count - 1);
+    return activities.map(activity => JSON.parse(activity));
+}
+
+function isDiscoverable(item: { type?: string }): boolean {
+    return item.type === 'root' || item.type === 'folder';
+}
+
+function createActivity(type: ActivityType, objectId: string, objectType: string): Activity {
+    return {type, objectId, objectType, endTime: new Date().toISOString()};
+}
+
+async function record(action: string, fn: (client: RedisClient) => Promise<void>): Promise<void> {
+    const client = getPersistentClient();
+    if (!client)
+        return;
+
+    try {
+        await fn(client);
+    }
+    catch (err) {
+        logger.error(`Failed to record the change discovery activities on ${action}`, {err});
+    }
+}
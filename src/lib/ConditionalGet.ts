@@ -0,0 +1,111 @@
+import {Stream} from 'stream';
+import {createHash} from 'crypto';
+import {Context, Next} from 'koa';
+
+import config from './Config.js';
+import {Item} from './ItemInterfaces.js';
+import {getVolatileClient} from './Redis.js';
+import {Access, AccessState, requiresAuthentication} from './Security.js';
+
+export interface Validators {
+    lastModified?: Date | null;
+    etag?: string | null;
+}
+
+export async function conditionalGet(ctx: Context, next: Next): Promise<void> {
+    await next();
+
+    if (ctx.status !== 200 || !['GET', 'HEAD'].includes(ctx.method))
+        return;
+
+    // Derive a weak validator from the content of the response, if the router did not provide one
+    if (!ctx.response.get('ETag') && ctx.body !== null && ctx.body !== undefined && !(ctx.body instanceof Stream))
+        ctx.etag = `W/"${hash(ctx.body)}"`;
+
+    if (isFresh(ctx))
+        ctx.status = 304;
+}
+
+export async function setCacheHeaders(ctx: Context, item: Item, access: Access,
+                                      {lastModified, etag}: Validators = {}): Promise<boolean> {
+    if (access.state === AccessState.OPEN && !await requiresAuthentication(item)) {
+        ctx.set('Cache-Control', `public, max-age=${config.cacheMaxAge}`);
+        return setValidators(ctx, {lastModified, etag});
+    }
+
+    // The response depends on the user, so it may not be stored by shared caches and has to be revalidated;
+    // as the access is checked before the validators on every request, an entity tag of the content suffices
+    ctx.set('Cache-Control', 'private, no-cache');
+    return (access.state !== AccessState.CLOSED) && setValidators(ctx, {etag});
+}
+
+export function setValidators(ctx: Context, {lastModified, etag}: Validators): boolean {
+    if (lastModified)
+        ctx.lastModified = lastModified;
+    if (etag)
+        ctx.etag = etag;
+
+    if (!isFresh(ctx))
+        return false;
+
+    ctx.status = 304;
+    return true;
+}
+
+export async function getLastModified(item: {
+    collection_id: string,
+    created_at?: Date | string | null,
+    indexed_at?: string | null
+}): Promise<Date | null> {
+    // Items updated later on, like by the metadata services, record when they were last indexed themselves
+    const dates = [
+        item.created_at ? new Date(item.created_at) : null,
+        item.indexed_at ? new Date(item.indexed_at) : null,
+        await getIndexedAt(item.collection_id)
+    ].filter(date => date !== null && !isNaN(date.getTime())) as Date[];
+
+    return dates.length > 0 ? new Date(Math.max(...dates.map(date => date.getTime()))) : null;
+}
+
+export async function getIndexedAt(collectionId: string): Promise<Date | null> {
+    const client = getVolatileClient();
+    if (!client)
+        return null;
+
+    const indexedAt = await client.get(`indexed:${collectionId}`);
+    return indexedAt ? new Date(parseInt(indexedAt)) : null;
+}
+
+export async function setIndexedAt(collectionId: string): Promise<void> {
+    const client = getVolatileClient();
+    if (client)
+        await client.set(`indexed:${collectionId}`, String(Date.now()));
+}
+
+export function hash(content: any): string {
+    const data = (typeof content === 'string' || Buffer.isBuffer(content)) ? content : JSON.stringify(content);
+    return createHash('md5').update(data).digest('base64url');
+}
+
+function isFresh(ctx: Context): boolean {
+    if (!['GET', 'HEAD'].includes(ctx.method) || ctx.get('Cache-Control').includes('no-cache'))
+        return false;
+
+    // If-None-Match takes precedence over If-Modified-Since
+    const ifNoneMatch = ctx.get('If-None-Match');
+    if (ifNoneMatch) {
+        const etag = ctx.response.get('ETag');
+        return !!etag && (ifNoneMatch.trim() === '*' || ifNoneMatch.split(',')
+            .map(tag => stripWeak(tag.trim()))
+            .includes(stripWeak(etag)));
+    }
+
+    const ifModifiedSince = Date.parse(ctx.get('If-Modified-Since'));
+    const lastModified = Date.parse(ctx.response.get('Last-Modified'));
+
+    return !isNaN(ifModifiedSince) && !isNaN(lastModified) && lastModified <= ifModifiedSince;
+}
+
+function stripWeak(etag: string): string {
+    return etag.startsWith('W/') ? etag.substring(2) : etag;
+}
@@ -11,6 +11,7 @@ export interface Config {
     env?: string;
     appInstance?: string;
     attribution?: string;
+    oaiAdminEmail?: string;
     hotFolderPath?: string;
     hotFolderPattern?: string;
     metadataOaiUrl?: string;
@@ -21,18 +22,22 @@ export interface Config {
     elasticSearchUser?: string;
     elasticSearchPassword?: string;
     ipAddressHeader?: string;
-    imageServerUrl: string;
-    imageServerName: 'loris' | 'sharp';
+    imageServerUrl?: string;
+    imageServerName: 'loris' | 'sharp' | 'cantaloupe' | 'iipimage' | 'embedded';
+    imageApiVersion: 2 | 3;
+    searchApiVersion: 1 | 2;
     viewerUrl: string;
     pdfPagesThreshold?: number;
     pdfSessionSeconds?: number;
     pdfImageSize: string;
+    pdfConcurrency: number;
     videoMosaicWidth: number,
     videoTilesRows: number,
     videoTilesColumns: number,
     imageTierSeparator: string;
     maxTasksPerWorker: number;
     maxSearchResults: number;
+    searchResultsPerPage: number;
     services: string[];
     secret: string;
     accessToken: string;
@@ -42,14 +47,23 @@ export interface Config {
     dataRootPath: string;
     collectionsRelativePath: string;
     derivativeRelativePath: string;
+    imageCacheRelativePath?: string;
+    imageCacheMaxSize: number;
     internalIpAddresses: string[];
+    webhooks: {
+        url: string;
+        secret?: string;
+        events?: string[];
+    }[];
     loginEnabled: boolean;
     externalEnabled: boolean;
     dnsCacheEnabled: boolean;
     accessTtl: number;
+    cacheMaxAge: number;
     elasticSearchUrl: string;
     elasticSearchIndexItems: string;
     elasticSearchIndexTexts: string;
+    elasticSearchIndexAnnotations: string;
     redisVolatile: null | {
         host: string;
         port: number;
@@ -64,6 +78,7 @@ const config: Config = {
     env: process.env.NODE_ENV,
     appInstance: process.env.NODE_APP_INSTANCE,
     attribution: process.env.IIIF_SERVER_ATTRIBUTION,
+    oaiAdminEmail: process.env.IIIF_SERVER_OAI_ADMIN_EMAIL,
     hotFolderPath: process.env.IIIF_SERVER_HOT_FOLDER_PATH,
     hotFolderPattern: process.env.IIIF_SERVER_HOT_FOLDER_PATTERN,
     metadataOaiUrl: process.env.IIIF_SERVER_METADATA_OAI_URL,
@@ -80,16 +95,41 @@ const config: Config = {
     dnsCacheEnabled: isEnabled(process.env.IIIF_SERVER_DNS_CACHE_ENABLED),
 
     imageServerUrl: (_ => {
-        if (!process.env.IIIF_SERVER_IMAGE_SERVER_URL || (process.env.IIIF_SERVER_IMAGE_SERVER_URL === 'null'))
+        if (!process.env.IIIF_SERVER_IMAGE_SERVER_URL || (process.env.IIIF_SERVER_IMAGE_SERVER_URL === 'null')) {
+            // The embedded image server reads the images directly from disk
+            if (process.env.IIIF_SERVER_IMAGE_SERVER_NAME === 'embedded')
+                return undefined;
+
             throw new Error('Image server url is not defined');
+        }
         return process.env.IIIF_SERVER_IMAGE_SERVER_URL;
     })(),
 
     imageServerName: (_ => {
+        const imageServerNames = ['loris', 'sharp', 'cantaloupe', 'iipimage', 'embedded'];
         if (!process.env.IIIF_SERVER_IMAGE_SERVER_NAME ||
-            !['loris', 'sharp'].includes(process.env.IIIF_SERVER_IMAGE_SERVER_NAME))
-            throw new Error('Image server name should either be \'loris\' or \'sharp\'');
-        return process.env.IIIF_SERVER_IMAGE_SERVER_NAME as 'loris' | 'sharp';
+            !imageServerNames.includes(process.env.IIIF_SERVER_IMAGE_SERVER_NAME))
+            throw new Error('Image server name should either be \'loris\', \'sharp\', \'cantaloupe\', ' +
+                '\'iipimage\' or \'embedded\'');
+        return process.env.IIIF_SERVER_IMAGE_SERVER_NAME as 'loris' | 'sharp' | 'cantaloupe' | 'iipimage' | 'embedded';
+    })(),
+
+    imageApiVersion: (_ => {
+        if (!process.env.IIIF_SERVER_IMAGE_API_VERSION || (process.env.IIIF_SERVER_IMAGE_API_VERSION === 'null'))
+            return 2;
+
+        if (!['2', '3'].includes(process.env.IIIF_SERVER_IMAGE_API_VERSION))
+            throw new Error('Image API version should either be \'2\' or \'3\'');
+        return parseInt(process.env.IIIF_SERVER_IMAGE_API_VERSION) as 2 | 3;
+    })(),
+
+    searchApiVersion: (_ => {
+        if (!process.env.IIIF_SERVER_SEARCH_API_VERSION || (process.env.IIIF_SERVER_SEARCH_API_VERSION === 'null'))
+            return 1;
+
+        if (!['1', '2'].includes(process.env.IIIF_SERVER_SEARCH_API_VERSION))
+            throw new Error('Search API version should either be \'1\' or \'2\'');
+        return parseInt(process.env.IIIF_SERVER_SEARCH_API_VERSION) as 1 | 2;
     })(),
 
     viewerUrl: (_ => {
@@ -118,6 +158,12 @@ const config: Config = {
         return process.env.IIIF_SERVER_PDF_IMAGE_SIZE || 'max';
     })(),
 
+    pdfConcurrency: (_ => {
+        const pdfConcurrency = process.env.IIIF_SERVER_PDF_CONCURRENCY
+            ? parseInt(process.env.IIIF_SERVER_PDF_CONCURRENCY) : 0;
+        return (pdfConcurrency > 0) ? pdfConcurrency : 4;
+    })(),
+
     videoMosaicWidth: (_ => {
         const width = process.env.IIIF_SERVER_VIDEO_MOSAIC_WIDTH
             ? parseInt(process.env.IIIF_SERVER_VIDEO_MOSAIC_WIDTH) : 0;
@@ -154,6 +200,12 @@ const config: Config = {
         return (maxSearchResults > 0) ? maxSearchResults : 5000;
     })(),
 
+    searchResultsPerPage: (_ => {
+        const searchResultsPerPage = process.env.IIIF_SERVER_SEARCH_RESULTS_PER_PAGE
+            ? parseInt(process.env.IIIF_SERVER_SEARCH_RESULTS_PER_PAGE) : 0;
+        return (searchResultsPerPage > 0) ? searchResultsPerPage : 100;
+    })(),
+
     services: (_ => {
         if (!process.env.IIIF_SERVER_SERVICES || (process.env.IIIF_SERVER_SERVICES === 'null'))
             throw new Error('Services to run are not defined');
@@ -206,17 +258,45 @@ const config: Config = {
         return process.env.IIIF_SERVER_DERIVATIVE_REL_PATH;
     })(),
 
+    imageCacheRelativePath: (_ => {
+        if (!process.env.IIIF_SERVER_IMAGE_CACHE_REL_PATH || (process.env.IIIF_SERVER_IMAGE_CACHE_REL_PATH === 'null'))
+            return undefined;
+        return process.env.IIIF_SERVER_IMAGE_CACHE_REL_PATH;
+    })(),
+
+    imageCacheMaxSize: (_ => {
+        const imageCacheMaxSize = process.env.IIIF_SERVER_IMAGE_CACHE_MAX_SIZE
+            ? parseInt(process.env.IIIF_SERVER_IMAGE_CACHE_MAX_SIZE) : 0;
+        return (imageCacheMaxSize > 0) ? imageCacheMaxSize : 1024;
+    })(),
+
     internalIpAddresses: (_ => {
         if (!process.env.IIIF_SERVER_INTERNAL_IP_ADDRESSES || (process.env.IIIF_SERVER_INTERNAL_IP_ADDRESSES === 'null'))
             return [];
         return process.env.IIIF_SERVER_INTERNAL_IP_ADDRESSES.split(',');
     })(),
 
+    webhooks: (_ => {
+        if (!process.env.IIIF_SERVER_WEBHOOKS || (process.env.IIIF_SERVER_WEBHOOKS === 'null'))
+            return [];
+
+        const webhooks = JSON.parse(process.env.IIIF_SERVER_WEBHOOKS);
+        if (!Array.isArray(webhooks) || webhooks.some(webhook => !webhook || typeof webhook.url !== 'string'))
+            throw new Error('The webhooks should be a JSON array of objects with at least an url');
+
+        return webhooks;
+    })(),
+
     accessTtl: (_ => {
         const accessTtl = process.env.IIIF_SERVER_ACCESS_TTL ? parseInt(process.env.IIIF_SERVER_ACCESS_TTL) : 0;
         return (accessTtl > 0) ? accessTtl : 3600;
     })(),
 
+    cacheMaxAge: (_ => {
+        const cacheMaxAge = process.env.IIIF_SERVER_CACHE_MAX_AGE ? parseInt(process.env.IIIF_SERVER_CACHE_MAX_AGE) : 0;
+        return (cacheMaxAge > 0) ? cacheMaxAge : 86400;
+    })(),
+
     elasticSearchUrl: (_ => {
         if (!process.env.IIIF_SERVER_ELASTICSEARCH_URL || (process.env.IIIF_SERVER_ELASTICSEARCH_URL === 'null'))
             throw new Error('The ElasticSearch URL is not defined');
@@ -235,6 +315,12 @@ const config: Config = {
             : process.env.IIIF_SERVER_ELASTICSEARCH_INDEX_PREFIX.concat('_', 'texts');
     })(),
 
+    elasticSearchIndexAnnotations: (_ => {
+        return (!process.env.IIIF_SERVER_ELASTICSEARCH_INDEX_PREFIX || (process.env.IIIF_SERVER_ELASTICSEARCH_INDEX_PREFIX === 'null'))
+            ? 'annotations'
+            : process.env.IIIF_SERVER_ELASTICSEARCH_INDEX_PREFIX.concat('_', 'annotations');
+    })(),
+
     redisVolatile: (_ => {
         if (!isEnabled(process.env.IIIF_SERVER_REDIS_VOLATILE_ENABLED))
             return null;
@@ -128,6 +128,9 @@ export function setElasticSearchClient(client: Client): void {
                         created_at: {
                             type: 'date'
                         },
+                        indexed_at: {
+                            type: 'date'
+                        },
                         width: {
                             type: 'short'
                         },
@@ -245,6 +248,54 @@ export function setElasticSearchClient(client: Client): void {
 
             logger.info(`Created the index ${config.elasticSearchIndexTexts} with a mapping`);
         }
+
+        const annotationsExists = await client.indices.exists({index: config.elasticSearchIndexAnnotations});
+        if (!annotationsExists) {
+            await client.indices.create({
+                index: config.elasticSearchIndexAnnotations,
+                mappings: {
+                    properties: {
+                        id: {
+                            type: 'keyword'
+                        },
+                        manifest_id: {
+                            type: 'keyword'
+                        },
+                        item_id: {
+                            type: 'keyword'
+                        },
+                        collection_id: {
+                            type: 'keyword'
+                        },
+                        motivation: {
+                            type: 'keyword'
+                        },
+                        target: {
+                            type: 'keyword'
+                        },
+                        text: {
+                            type: 'text',
+                            index_options: 'offsets'
+                        },
+                        annotation: {
+                            type: 'object',
+                            enabled: false
+                        },
+                        creator: {
+                            type: 'keyword'
+                        },
+                        created_at: {
+                            type: 'date'
+                        },
+                        modified_at: {
+                            type: 'date'
+                        }
+                    }
+                }
+            });
+
+            logger.info(`Created the index ${config.elasticSearchIndexAnnotations} with a mapping`);
+        }
     }
     catch (e) {
         setMapping();
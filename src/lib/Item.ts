@@ -8,6 +8,7 @@ import getClient from './ElasticSearch.js';
 import {DerivativeType} from './Derivative.js';
 import {RootItemChildItemsParams} from './ServiceTypes.js';
 import {Item, MinimalItem, RangeItem, RootItem} from './ItemInterfaces.js';
+import {recordDeleted, recordIndexed, recordUpdated} from './ChangeDiscovery.js';
 
 export function createItem(obj: MinimalItem): Item {
     return {
@@ -42,13 +43,15 @@ export function createItem(obj: MinimalItem): Item {
 }
 
 export async function indexItems(items: Item[]): Promise<void> {
+    const indexedItems = [...items];
+    const indexedAt = new Date().toISOString();
     try {
         while (items.length > 0) {
             const body = items
                 .splice(0, 100)
                 .map(item => [
                     {index: {_index: config.elasticSearchIndexItems, _id: item.id}},
-                    item
+                    {...item, indexed_at: indexedAt}
                 ]);
 
             await getClient().bulk({
@@ -60,9 +63,12 @@ export async function indexItems(items: Item[]): Promise<void> {
     catch (e) {
         throw new Error('Failed to index the items!');
     }
+
+    await recordIndexed(indexedItems);
 }
 
 export async function updateItems(items: MinimalItem[]): Promise<void> {
+    const indexedAt = new Date().toISOString();
     try {
         const uniqueItems = items.filter((item, i) =>
             items.findIndex(otherItem => otherItem.id === item.id) === i);
@@ -72,7 +78,7 @@ export async function updateItems(items: MinimalItem[]): Promise<void> {
                 .splice(0, 100)
                 .map(item => [
                     {update: {_index: config.elasticSearchIndexItems, _id: item.id}},
-                    {doc: item, upsert: createItem(item)}
+                    {doc: {...item, indexed_at: indexedAt}, upsert: createItem({...item, indexed_at: indexedAt})}
                 ]);
 
             await getClient().bulk({
@@ -83,13 +89,20 @@ export async function updateItems(items: MinimalItem[]): Promise<void> {
     catch (e) {
         throw new Error('Failed to update the items!');
     }
+
+    await recordUpdated(items);
 }
 
 export async function deleteItems(collectionId: string): Promise<void> {
+    const objects = await withItems(getItems(`collection_id:"${collectionId}" AND type:(root OR folder)`,
+        ['id', 'type']));
+
     await getClient().deleteByQuery({
         index: config.elasticSearchIndexItems,
         q: `collection_id:"${collectionId}"`
     });
+
+    await recordDeleted(collectionId, objects);
 }
 
 export async function getItem(id: string): Promise<Item | null> {
@@ -0,0 +1,177 @@
+import {randomUUID} from 'crypto';
+
+import logger from './Logger.js';
+import {evictCache} from './Cache.js';
+import {setIndexedAt} from './ConditionalGet.js';
+import {fireWebhooks} from './Webhook.js';
+import {getPersistentClient} from './Redis.js';
+
+export type JobStatus = 'running' | 'succeeded' | 'failed';
+export type JobTaskStatus = 'waiting' | 'succeeded' | 'failed';
+
+export interface JobTaskRef {
+    jobId: string;
+    taskId: string;
+}
+
+export interface Job {
+    id: string;
+    name: string;
+    collection_id: string | null;
+    status: JobStatus;
+    created_at: string;
+    finished_at: string | null;
+    follow_ups: string[];
+    counts: { [status in JobTaskStatus]: number };
+    tasks: { [taskId: string]: JobTaskStatus };
+}
+
+export const JOB_TTL_SEC = 7 * 24 * 60 * 60;
+
+const jobKey = (id: string) => `jobs:${id}`;
+const jobTasksKey = (id: string) => `jobs:${id}:tasks`;
+// The jobs waiting for a queued task; a task with the same dedupe key queued later may wait for other jobs
+export const taskJobsKey = (type: string, taskId: string) => `tasks:${type}:jobs:${taskId}`;
+
+// Follow-ups run once all tasks of a job have succeeded
+export const followUps: { [name: string]: (job: Job) => Promise<void> } = {
+    'evict-cache': async job => {
+        if (job.collection_id)
+            await Promise.all([
+                ...['collection', 'manifest', 'annopage', 'collection-v2', 'manifest-v2', 'annolist-v2']
+                    .map(type => evictCache(type, job.collection_id as string)),
+                setIndexedAt(job.collection_id)
+            ]);
+    },
+    'webhook': async job => {
+        fireWebhooks(`${job.name}.processed`, {collection_id: job.collection_id, job_id: job.id});
+    }
+};
+
+export async function createJob(name: string, collectionId: string | null,
+                                taskIds: string[], jobFollowUps: string[] = []): Promise<string> {
+    const client = getPersistentClient();
+    if (!client)
+        throw new Error('A persistent Redis server is required for jobs!');
+
+    const unknownFollowUp = jobFollowUps.find(followUp => !(followUp in followUps));
+    if (unknownFollowUp)
+        throw new Error(`No follow-up found with the name '${unknownFollowUp}'`);
+
+    const id = randomUUID();
+
+    let multi: any = client.multi().hSet(jobKey(id), {
+        name,
+        collection_id: collectionId || '',
+        created_at: new Date().toISOString(),
+        follow_ups: JSON.stringify(jobFollowUps)
+    });
+    if (taskIds.length > 0)
+        multi = multi.hSet(jobTasksKey(id), Object.fromEntries(taskIds.map(taskId => [taskId, 'waiting'])));
+
+    await multi
+        .expire(jobKey(id), JOB_TTL_SEC)
+        .expire(jobTasksKey(id), JOB_TTL_SEC)
+        .exec();
+
+    logger.debug(`Created job '${name}' with id ${id} and ${taskIds.length} task(s)`);
+
+    // A job without tasks is immediately done
+    if (taskIds.length === 0)
+        await updateJob(id);
+
+    return id;
+}
+
+export async function getJob(id: string): Promise<Job | null> {
+    const client = getPersistentClient();
+    if (!client)
+        throw new Error('A persistent Redis server is required for jobs!');
+
+    const job = await client.hGetAll(jobKey(id));
+    if (!job.name)
+        return null;
+
+    const tasks = await client.hGetAll(jobTasksKey(id)) as { [taskId: string]: JobTaskStatus };
+    const counts = {waiting: 0, succeeded: 0, failed: 0};
+    Object.values(tasks).forEach(status => counts[status]++);
+
+    return {
+        id,
+        name: job.name,
+        collection_id: job.collection_id || null,
+        status: getJobStatus(counts),
+        created_at: job.created_at,
+        finished_at: job.finished_at || null,
+        follow_ups: JSON.parse(job.follow_ups),
+        counts,
+        tasks
+    };
+}
+
+export async function completeJobTasks(type: string, taskId: string, status: JobTaskStatus): Promise<void> {
+    const client = getPersistentClient();
+    if (!client)
+        return;
+
+    try {
+        const refs = (await client.sMembers(taskJobsKey(type, taskId))).map(json => JSON.parse(json) as JobTaskRef);
+
+        // Failed tasks keep their jobs, as the task may still succeed when retried
+        if (status === 'succeeded')
+            await client.del(taskJobsKey(type, taskId));
+
+        for (const ref of refs)
+            await completeJobTask(ref, status);
+    }
+    catch (err) {
+        logger.error(`Failure updating the jobs of task with type '${type}' and id ${taskId}`, {err});
+    }
+}
+
+export async function completeJobTask(ref: JobTaskRef, status: JobTaskStatus): Promise<void> {
+    const client = getPersistentClient();
+    if (!client)
+        return;
+
+    try {
+        // The job may have expired in the meantime
+        if (await client.exists(jobTasksKey(ref.jobId))) {
+            await client.hSet(jobTasksKey(ref.jobId), ref.taskId, status);
+            await updateJob(ref.jobId);
+        }
+    }
+    catch (err) {
+        logger.error(`Failure updating job ${ref.jobId}`, {err});
+    }
+}
+
+export function getJobStatus(counts: { [status in JobTaskStatus]: number }): JobStatus {
+    if (counts.waiting > 0)
+        return 'running';
+    return counts.failed > 0 ? 'failed' : 'succeeded';
+}
+
+async function updateJob(id: string): Promise<void> {
+    const client = getPersistentClient();
+    const job = await getJob(id);
+    if (!client || !job || job.status === 'running')
+        return;
+
+    const now = new Date().toISOString();
+    await client.hSet(jobKey(id), 'finished_at', now);
+
+    // Only run the follow-ups once, also when the last tasks finish at the same time
+    if (job.status === 'succeeded' && await client.hSetNX(jobKey(id), 'followed_up_at', now)) {
+        logger.info(`Job '${job.name}' with id ${id} succeeded; running its follow-ups`);
+
+        for (const name of job.follow_ups) {
+            try {
+                await followUps[name](job);
+            }
+            catch (err) {
+                logger.error(`Failure running follow-up '${name}' of job ${id}`, {err});
+            }
+        }
+    }
+}
@@ -206,6 +206,12 @@ export async function getAccessIdFromRequest(ctx: Context, acceptToken = false):
     return accessCookie;
 }
 
+export async function getIdentitiesFromRequest(ctx: Context, acceptToken = false): Promise<string[]> {
+    const accessId = await getAccessIdFromRequest(ctx, acceptToken);
+    const accessIdInfo = accessId ? await getIdentitiesAndTokensForAccessId(accessId) : null;
+    return accessIdInfo ? accessIdInfo.identities : [];
+}
+
 export async function removeAccessIdFromRequest(ctx: Context): Promise<void> {
     const accessId = ctx.cookies.get('access');
     if (accessId) {
@@ -3,12 +3,20 @@ import config from './Config.js';
 interface Service {
     type: string;
     runAs: 'worker' | 'lib' | 'standalone' | 'cron';
+    retry?: RetryPolicy;
+    visibilityTimeoutSec?: number;
     implementations: ImplementationService[];
 }
 
+export interface RetryPolicy {
+    attempts: number;
+    backoffMs: number;
+}
+
 export interface ImplementationService {
     name: string;
     loadService: () => Promise<any>;
+    loadFailureHandler?: () => Promise<any>;
 }
 
 export interface CronImplementationService extends ImplementationService {
@@ -23,20 +31,26 @@ export interface ImplementationService {
 export const allServices: Service[] = [{
     type: 'index',
     runAs: 'worker',
+    retry: {attempts: 3, backoffMs: 60_000},
+    visibilityTimeoutSec: 300,
     implementations: [{
         name: 'iish-index',
-        loadService: async () => (await import('../service/iish/index.js')).default
+        loadService: async () => (await import('../service/iish/index.js')).default,
+        loadFailureHandler: async () => (await import('../service/iish/index.js')).onFailure
     }, {
         name: 'ecodices-index',
-        loadService: async () => (await import('../service/ecodices/index.js')).default
+        loadService: async () => (await import('../service/ecodices/index.js')).default,
+        loadFailureHandler: async () => (await import('../service/ecodices/index.js')).onFailure
     },
     {
         name: 'lm-index',
-        loadService: async () => (await import('../service/lm/index.js')).default
+        loadService: async () => (await import('../service/lm/index.js')).default,
+        loadFailureHandler: async () => (await import('../service/lm/index.js')).onFailure
     }]
 }, {
     type: 'text',
     runAs: 'worker',
+    retry: {attempts: 3, backoffMs: 10_000},
     implementations: [{
         name: 'text-index',
         loadService: async () => (await import('../service/text_index.js')).default
@@ -44,16 +58,20 @@ export const allServices: Service[] = [{
 }, {
     type: 'metadata',
     runAs: 'worker',
+    retry: {attempts: 5, backoffMs: 30_000},
     implementations: [{
         name: 'iish-metadata',
-        loadService: async () => (await import('../service/iish/metadata.js')).default
+        loadService: async () => (await import('../service/iish/metadata.js')).default,
+        loadFailureHandler: async () => (await import('../service/iish/metadata.js')).onFailure
     }, {
         name: 'ecodices-metadata',
-        loadService: async () => (await import('../service/ecodices/metadata.js')).default
+        loadService: async () => (await import('../service/ecodices/metadata.js')).default,
+        loadFailureHandler: async () => (await import('../service/ecodices/metadata.js')).onFailure
     }]
 }, {
     type: 'reindex',
     runAs: 'worker',
+    retry: {attempts: 1, backoffMs: 0},
     implementations: [{
         name: 'archivematica-reindex',
         loadService: async () => (await import('../service/archivematica_reindex.js')).default
@@ -61,6 +79,7 @@ export const allServices: Service[] = [{
 }, {
     type: 'process-update',
     runAs: 'worker',
+    retry: {attempts: 1, backoffMs: 0},
     implementations: [{
         name: 'process-update',
         loadService: async () => (await import('../service/process_update.js')).default
@@ -68,6 +87,7 @@ export const allServices: Service[] = [{
 }, {
     type: 'all-metadata-update',
     runAs: 'worker',
+    retry: {attempts: 1, backoffMs: 0},
     implementations: [{
         name: 'all-metadata-update',
         loadService: async () => (await import('../service/all_metadata_update.js')).default
@@ -75,23 +95,47 @@ export const allServices: Service[] = [{
 }, {
     type: 'waveform',
     runAs: 'worker',
+    visibilityTimeoutSec: 300,
     implementations: [{
         name: 'waveform',
-        loadService: async () => (await import('../service/waveform.js')).default
+        loadService: async () => (await import('../service/waveform.js')).default,
+        loadFailureHandler: async () => (await import('../service/waveform.js')).onFailure
     }]
 }, {
     type: 'pdf-image',
     runAs: 'worker',
+    visibilityTimeoutSec: 300,
     implementations: [{
         name: 'pdf-image',
-        loadService: async () => (await import('../service/pdf_image.js')).default
+        loadService: async () => (await import('../service/pdf_image.js')).default,
+        loadFailureHandler: async () => (await import('../service/pdf_image.js')).onFailure
+    }]
+}, {
+    type: 'pdf',
+    runAs: 'worker',
+    retry: {attempts: 2, backoffMs: 10_000},
+    visibilityTimeoutSec: 300,
+    implementations: [{
+        name: 'pdf',
+        loadService: async () => (await import('../service/pdf.js')).default,
+        loadFailureHandler: async () => (await import('../service/pdf.js')).onFailure
     }]
 }, {
     type: 'video-image',
     runAs: 'worker',
+    visibilityTimeoutSec: 300,
     implementations: [{
         name: 'video-image',
-        loadService: async () => (await import('../service/video_image.js')).default
+        loadService: async () => (await import('../service/video_image.js')).default,
+        loadFailureHandler: async () => (await import('../service/video_image.js')).onFailure
+    }]
+}, {
+    type: 'webhook',
+    runAs: 'worker',
+    retry: {attempts: 5, backoffMs: 30_000},
+    implementations: [{
+        name: 'webhook',
+        loadService: async () => (await import('../service/webhook.js')).default
     }]
 }, {
     type: 'access',
@@ -182,6 +226,9 @@ export const allServices: Service[] = [{
     } as CronImplementationService]
 }];
 
+export const defaultRetryPolicy: RetryPolicy = {attempts: 3, backoffMs: 5_000};
+export const defaultVisibilityTimeoutSec = 60;
+
 export let isRunningWeb: boolean = config.services.find(name => name.toLowerCase() === 'web') != undefined;
 export let workersRunning: { [type: string]: ImplementationService } = {};
 export let libsRunning: { [type: string]: ImplementationService } = {};
@@ -204,7 +251,11 @@ for (const name of config.services.filter(name => name.toLowerCase() != 'web'))
         case 'worker':
             if (serviceFound.type in workersRunning)
                 throw new Error(`There is more than one worker of type '${serviceFound.type}' configured!`);
-            workersRunning[serviceFound.type] = {name: implementation.name, loadService: implementation.loadService};
+            workersRunning[serviceFound.type] = {
+                name: implementation.name,
+                loadService: implementation.loadService,
+                loadFailureHandler: implementation.loadFailureHandler
+            };
             break;
         case 'lib':
             if (serviceFound.type in libsRunning)
@@ -230,6 +281,14 @@ for (const libService of allServices.filter(service => service.runAs === 'lib'))
     }
 }
 
+export function getRetryPolicy(type: string): RetryPolicy {
+    return allServices.find(service => service.type === type)?.retry || defaultRetryPolicy;
+}
+
+export function getVisibilityTimeoutSec(type: string): number {
+    return allServices.find(service => service.type === type)?.visibilityTimeoutSec || defaultVisibilityTimeoutSec;
+}
+
 // for testing purposes
 export function setLibsRunning(services: { [type: string]: ImplementationService }) {
     if (config.env === 'test')
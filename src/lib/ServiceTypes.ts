@@ -1,5 +1,5 @@
 import {Item, RootItem} from './ItemInterfaces.js';
-import {AuthTexts} from '@archival-iiif/presentation-builder/v2';
+import {AccessTier, AuthTexts} from '@archival-iiif/presentation-builder/v2';
 import {ManifestBehavior, CanvasBehavior} from '@archival-iiif/presentation-builder/v3';
 
 export type EmptyParams = {};
@@ -12,6 +12,15 @@ export type TextParams = { item: TextItem };
 export type ReindexParams = { collectionIds?: string[], query?: string };
 export type AccessParams = { item: Item, ip?: string, identities?: string[] };
 export type MetadataParams = { metadataId?: string | null, rootId?: string, collectionId?: string };
+export type WebhookParams = { url: string, event: WebhookEvent };
+export type PdfParams = { jobId: string, rootId: string, pages: number[] | null, text: string | null, tier?: AccessTier };
+
+export type WebhookEvent = {
+    id: string,
+    event: string,
+    created_at: string,
+    data: { [property: string]: any }
+};
 
 export type TextItem = {
     id: string,
@@ -1,22 +1,136 @@
+import {randomUUID} from 'crypto';
+
 import logger from './Logger.js';
 import {workersRunning, libsRunning} from './Service.js';
 import {getPersistentClient} from './Redis.js';
+import {JobTaskRef, JOB_TTL_SEC, createJob, completeJobTask, taskJobsKey} from './Job.js';
+
+export type TaskPriority = 'interactive' | 'bulk';
+
+export interface TaskOptions {
+    priority?: TaskPriority;
+    dedupeKey?: string | null;
+    job?: JobTaskRef;
+}
+
+export interface QueuedTask<T = any> {
+    id: string;
+    priority: TaskPriority;
+    dedupeKey?: string;
+    task: T;
+}
+
+export interface JobTask<T = any> {
+    type: string;
+    task: T;
+    options?: TaskOptions;
+}
+
+// Workers take tasks from the lanes in this order
+export const taskPriorities: TaskPriority[] = ['interactive', 'bulk'];
+
+// The lanes only hold the ids of the tasks, the tasks themselves wait in a hash with the task id as the key.
+// A task with the same dedupe key which is still waiting takes over the newest payload of the task
+// and is moved to the lane of the new task if that lane has a higher priority.
+const QUEUE_TASK_SCRIPT = `
+local queuedKey, payloadsKey = KEYS[1], KEYS[2]
+local id, msg, priority, dedupeKey, job, jobTtl, jobsKey = ARGV[1], ARGV[2], ARGV[3], ARGV[4], ARGV[5], ARGV[6], ARGV[7]
+
+local function lane(name)
+    for i = 8, #ARGV do
+        if ARGV[i] == name then
+            return KEYS[i - 5], i
+        end
+    end
+end
 
-export function runTask<T>(type: string, task: T): void {
+local function addJob(id)
+    if job ~= '' then
+        redis.call('SADD', jobsKey .. id, job)
+        redis.call('EXPIRE', jobsKey .. id, jobTtl)
+    end
+end
+
+local function queuedTask(id, priority)
+    local dedupe = dedupeKey ~= '' and ',"dedupeKey":' .. cjson.encode(dedupeKey) or ''
+    return '{"id":' .. cjson.encode(id) .. ',"priority":' .. cjson.encode(priority) .. dedupe
+        .. ',"task":' .. msg .. '}'
+end
+
+if dedupeKey ~= '' then
+    local queuedId = redis.call('HGET', queuedKey, dedupeKey)
+    local queued = queuedId and redis.call('HGET', payloadsKey, queuedId)
+    if queued then
+        local queuedPriority = cjson.decode(queued).priority
+        local queuedLane, queuedOrder = lane(queuedPriority)
+        local newLane, newOrder = lane(priority)
+
+        if newOrder < queuedOrder and redis.call('LREM', queuedLane, 1, queuedId) > 0 then
+            redis.call('RPUSH', newLane, queuedId)
+            queuedPriority = priority
+        end
+
+        -- A retried task hands its jobs over to the task which is still waiting
+        if queuedId ~= id and redis.call('EXISTS', jobsKey .. id) == 1 then
+            redis.call('SUNIONSTORE', jobsKey .. queuedId, jobsKey .. queuedId, jobsKey .. id)
+            redis.call('EXPIRE', jobsKey .. queuedId, jobTtl)
+            redis.call('DEL', jobsKey .. id)
+        end
+
+        redis.call('HSET', payloadsKey, queuedId, queuedTask(queuedId, queuedPriority))
+        addJob(queuedId)
+        return queuedId
+    end
+
+    redis.call('HSET', queuedKey, dedupeKey, id)
+end
+
+redis.call('HSET', payloadsKey, id, queuedTask(id, priority))
+redis.call('RPUSH', (lane(priority)), id)
+addJob(id)
+return id`;
+
+export const taskQueueName = (type: string, priority: TaskPriority = 'interactive') =>
+    priority === 'interactive' ? `tasks:${type}` : `tasks:${type}:${priority}`;
+
+export function runTask<T>(type: string, task: T, {priority = 'interactive', dedupeKey, job}: TaskOptions = {}): void {
     if (type in workersRunning) {
         const service = workersRunning[type];
         service.loadService().then(service =>
-            service(task).catch((err: any) =>
-                logger.error(`Failure during task with type '${type}'`, {err})));
+            service(task)
+                .then(() => job && completeJobTask(job, 'succeeded'))
+                .catch(async (err: any) => {
+                    logger.error(`Failure during task with type '${type}'`, {err});
+                    await runFailureHandler(type, task, err);
+                    return job && completeJobTask(job, 'failed');
+                }));
         return;
     }
 
-    const client = getPersistentClient();
-    if (!client)
+    if (!getPersistentClient())
         throw new Error('A persistent Redis server is required for sending tasks to workers!');
 
-    logger.debug(`Sending a new task with type '${type}'`);
-    client.rPush(`tasks:${type}`, JSON.stringify(task));
+    logger.debug(`Sending a new task with type '${type}' and priority '${priority}'`);
+
+    queueTask(type, JSON.stringify(task), priority, dedupeKey, job).catch(err =>
+        logger.error(`Failure sending a task with type '${type}'`, {err}));
+}
+
+export async function runJob(name: string, collectionId: string | null,
+                             tasks: JobTask[], followUps: string[] = []): Promise<string | null> {
+    // Without a persistent Redis server, the tasks are run without keeping track of them
+    if (!getPersistentClient()) {
+        tasks.forEach(({type, task, options}) => runTask(type, task, options));
+        return null;
+    }
+
+    const taskIds = tasks.map(({type, options}, i) => `${type}:${options?.dedupeKey || i}`);
+    const jobId = await createJob(name, collectionId, taskIds, followUps);
+
+    tasks.forEach(({type, task, options}, i) =>
+        runTask(type, task, {...options, job: {jobId, taskId: taskIds[i]}}));
+
+    return jobId;
 }
 
 export async function runLib<P, R>(type: string, params: P): Promise<R> {
@@ -26,3 +140,44 @@ export async function runLib<P, R>(type: string, params: P): Promise<R> {
     const service = await libsRunning[type].loadService();
     return service(params);
 }
+
+// Tasks which are not retried anymore may need to be cleaned up or reported by the service
+export async function runFailureHandler<T>(type: string, task: T, err: Error): Promise<void> {
+    const loadFailureHandler = workersRunning[type]?.loadFailureHandler;
+    if (!loadFailureHandler)
+        return;
+
+    try {
+        const failureHandler = await loadFailureHandler();
+        await failureHandler(task, err);
+    }
+    catch (err) {
+        logger.error(`Failure handling the failed task with type '${type}'`, {err});
+    }
+}
+
+export async function queueTask(type: string, msg: string, priority: TaskPriority = 'interactive',
+                                dedupeKey?: string | null, job?: JobTaskRef,
+                                id: string = randomUUID()): Promise<string> {
+    const client = getPersistentClient();
+    if (!client)
+        throw new Error('A persistent Redis server is required for sending tasks to workers!');
+
+    return await client.eval(QUEUE_TASK_SCRIPT, {
+        keys: [
+            `tasks:${type}:queued`,
+            `tasks:${type}:payloads`,
+            ...taskPriorities.map(priority => taskQueueName(type, priority))
+        ],
+        arguments: [
+            id,
+            msg,
+            priority,
+            dedupeKey || '',
+            job ? JSON.stringify(job) : '',
+            String(JOB_TTL_SEC),
+            taskJobsKey(type, ''),
+            ...taskPriorities
+        ]
+    }) as string;
+}
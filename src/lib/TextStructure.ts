@@ -2,9 +2,16 @@ import {Element, parseXml} from 'libxmljs2';
 import {readFileAsync} from './Promisified.js';
 
 export interface TextStructure {
+    page?: TextPage;
     blocks: TextBlock[];
 }
 
+export interface TextPage {
+    width?: number;
+    height?: number;
+    unit: string;
+}
+
 export interface TextBlock {
     lines: TextLine[];
 }
@@ -43,7 +50,18 @@ export async function readAlto(uri: string): Promise<TextStructure> {
     let i = 0;
     const ns = {'alto': alto.root()?.namespaces().find(ns => ns.prefix() == null)?.href() || ''};
 
+    // The coordinates of the words are expressed in the measurement unit, relative to the size of the page
+    const pageElem = alto.get<Element>('//alto:Page | //Page', ns);
+    const pageWidth = pageElem?.attr('WIDTH')?.value();
+    const pageHeight = pageElem?.attr('HEIGHT')?.value();
+    const unit = alto.get<Element>('//alto:MeasurementUnit | //MeasurementUnit', ns)?.text().trim();
+
     return {
+        page: {
+            width: (pageWidth && parseFloat(pageWidth)) || undefined,
+            height: (pageHeight && parseFloat(pageHeight)) || undefined,
+            unit: unit || 'pixel'
+        },
         blocks: alto.find<Element>('//alto:TextBlock | //TextBlock', ns).map(blockElem => ({
             lines: blockElem.find<Element>('./alto:TextLine | ./TextLine', ns).map(lineElem => ({
                 words: lineElem.find<Element>('./alto:String | ./String', ns).reduce((acc, stringElem) => {
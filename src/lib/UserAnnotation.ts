@@ -0,0 +1,78 @@
+import {ResponseError} from '@elastic/transport/lib/errors.js';
+
+import config from './Config.js';
+import getClient from './ElasticSearch.js';
+
+export type WebAnnotation = { [property: string]: any };
+
+export interface UserAnnotation {
+    id: string;
+    manifest_id: string;
+    item_id: string | null;
+    collection_id: string;
+    motivation: string[];
+    target: string;
+    text: string;
+    annotation: WebAnnotation;
+    creator: string | null;
+    created_at: string;
+    modified_at: string;
+}
+
+export interface UserAnnotations {
+    annotations: UserAnnotation[];
+    total: number;
+}
+
+export async function indexUserAnnotation(annotation: UserAnnotation): Promise<void> {
+    try {
+        // Wait for the refresh, so the annotation is immediately listed in its container
+        await getClient().index({
+            index: config.elasticSearchIndexAnnotations,
+            id: annotation.id,
+            document: annotation,
+            refresh: 'wait_for'
+        });
+    }
+    catch (e) {
+        throw new Error('Failed to index the annotation!');
+    }
+}
+
+export async function deleteUserAnnotation(id: string): Promise<void> {
+    await getClient().delete({
+        index: config.elasticSearchIndexAnnotations,
+        id,
+        refresh: 'wait_for'
+    });
+}
+
+export async function getUserAnnotation(id: string): Promise<UserAnnotation | null> {
+    try {
+        const response = await getClient().get<UserAnnotation>({index: config.elasticSearchIndexAnnotations, id});
+        return response._source || null;
+    }
+    catch (err: any) {
+        if (err instanceof ResponseError && err.statusCode === 404)
+            return null;
+        throw err;
+    }
+}
+
+export async function getUserAnnotations(manifestId: string, page: number, size: number): Promise<UserAnnotations> {
+    const response = await getClient().search<UserAnnotation>({
+        index: config.elasticSearchIndexAnnotations,
+        from: page * size,
+        size,
+        track_total_hits: true,
+        query: {
+            term: {manifest_id: manifestId}
+        },
+        sort: [{created_at: {order: 'asc'}}, {id: {order: 'asc'}}]
+    });
+
+    return {
+        annotations: response.hits.hits.map(hit => hit._source as UserAnnotation),
+        total: typeof response.hits.total === 'number' ? response.hits.total : response.hits.total?.value || 0
+    };
+}
@@ -0,0 +1,74 @@
+import {createHmac, randomUUID} from 'crypto';
+
+import config from './Config.js';
+import logger from './Logger.js';
+import {runTask} from './Task.js';
+import {getPersistentClient} from './Redis.js';
+import {WebhookParams} from './ServiceTypes.js';
+
+export type WebhookDeliveryStatus = 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+    id: string;
+    url: string;
+    event: string;
+    status: WebhookDeliveryStatus;
+    status_code: number | null;
+    error: string | null;
+    delivered_at: string;
+}
+
+const DELIVERIES_KEY = 'webhooks:deliveries';
+const MAX_DELIVERIES = 1000;
+
+export function fireWebhooks(event: string, data: { [property: string]: any }): void {
+    const webhooks = config.webhooks.filter(webhook => matchesEvent(webhook.events, event));
+    if (webhooks.length === 0)
+        return;
+
+    const webhookEvent = {id: randomUUID(), event, created_at: new Date().toISOString(), data};
+    for (const webhook of webhooks) {
+        // Notifying others should never interfere with the indexing or processing itself
+        try {
+            runTask<WebhookParams>('webhook', {url: webhook.url, event: webhookEvent});
+        }
+        catch (err) {
+            logger.error(`Failure sending event '${event}' to the webhook ${webhook.url}`, {err});
+        }
+    }
+}
+
+export function matchesEvent(events: string[] | undefined, event: string): boolean {
+    if (!events || events.length === 0)
+        return true;
+
+    return events.some(filter => filter === '*' || filter === event
+        || (filter.endsWith('.*') && event.startsWith(filter.slice(0, -1))));
+}
+
+export function signPayload(secret: string, payload: string): string {
+    return 'sha256=' + createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+export async function recordDelivery(delivery: WebhookDelivery): Promise<void> {
+    const client = getPersistentClient();
+    if (!client)
+        return;
+
+    await client.multi()
+        .lPush(DELIVERIES_KEY, JSON.stringify(delivery))
+        .lTrim(DELIVERIES_KEY, 0, MAX_DELIVERIES - 1)
+        .exec();
+}
+
+export async function getDeliveries(event?: string, status?: WebhookDeliveryStatus): Promise<WebhookDelivery[]> {
+    const client = getPersistentClient();
+    if (!client)
+        throw new Error('A persistent Redis server is required for the webhook deliveries!');
+
+    const deliveries = (await client.lRange(DELIVERIES_KEY, 0, -1))
+        .map(json => JSON.parse(json) as WebhookDelivery);
+
+    return deliveries.filter(delivery =>
+        (!event || delivery.event === event) && (!status || delivery.status === status));
+}
@@ -1,20 +1,62 @@
 import crypto from 'crypto';
+import {hostname} from 'os';
 import {RedisClientType} from 'redis';
 
 import config from './Config.js';
 import logger from './Logger.js';
 import {sleep} from './Promisified.js';
 import getEsClient from './ElasticSearch.js';
-import {allServices, workersRunning} from './Service.js';
+import {allServices, workersRunning, getRetryPolicy, getVisibilityTimeoutSec} from './Service.js';
 import registerGracefulShutdownHandler from './GracefulShutdown.js';
 import {getPersistentClient, createNewPersistentClient} from './Redis.js';
+import {QueuedTask, TaskPriority, taskPriorities, taskQueueName, queueTask, runFailureHandler} from './Task.js';
+import {completeJobTasks} from './Job.js';
 
-type WorkerStatus<T> = { waiting: T[], working: T[] };
+type WorkerStatus<T> = { waiting: { [priority in TaskPriority]?: T[] }, working: T[], delayed: T[] };
 type WorkerStatusType<T> = { type: string } & WorkerStatus<T>;
 
+export interface FailedTask {
+    id: string;
+    payload: string;
+    priority: TaskPriority;
+    dedupe_key: string | null;
+    error: string;
+    attempts: number;
+    failed_at: string;
+}
+
 let shutdown = false;
+const workerId = `${hostname()}:${process.pid}`;
 const createHash = (str: string): string => crypto.createHash('md5').update(str).digest('hex');
 
+// The same task may only be in progress once; tasks with the same dedupe key are considered the same task
+const lockName = (type: string, queuedTask: QueuedTask) =>
+    'tasks:' + type + ':' + createHash(queuedTask.dedupeKey || queuedTask.id);
+
+// Takes the task from the waiting tasks, so a new task with the same dedupe key is queued again
+const CLAIM_TASK_SCRIPT = `
+local queuedTask = redis.call('HGET', KEYS[2], ARGV[1])
+if queuedTask then
+    local dedupeKey = cjson.decode(queuedTask).dedupeKey
+    if type(dedupeKey) == 'string' and redis.call('HGET', KEYS[1], dedupeKey) == ARGV[1] then
+        redis.call('HDEL', KEYS[1], dedupeKey)
+    end
+end
+return queuedTask`;
+
+// The lock may have expired and been taken by another worker, so only the worker holding it may renew or release it
+const RENEW_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return redis.call('EXPIRE', KEYS[1], ARGV[2])
+end
+return 0`;
+
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
 export async function workerStatus(): Promise<{ [type: string]: WorkerStatus<any> }> {
     const client = getPersistentClient();
     if (!client)
@@ -24,25 +66,114 @@ export async function workerStatus(): Promise<{ [type: string]: WorkerStatus<any
         .filter(service => service.runAs === 'worker')
         .filter(service => !(service.type in workersRunning))
         .map(async service => {
-            const nameQueue = 'tasks:' + service.type;
             const nameProgressList = 'tasks:' + service.type + ':progress';
+            const nameDelayedList = 'tasks:' + service.type + ':delayed';
+
+            const waiting: { [priority in TaskPriority]?: any[] } = {};
+            for (const priority of taskPriorities) {
+                const tasksInQueue = await client.lRange(taskQueueName(service.type, priority), 0, -1);
+                waiting[priority] = await getTasks(service.type, tasksInQueue, client);
+            }
 
-            const tasksInQueue = await client.lRange(nameQueue, 0, -1);
             const tasksInProgress = await client.lRange(nameProgressList, 0, -1);
+            const tasksDelayed = await client.zRange(nameDelayedList, 0, -1);
 
             return {
                 type: service.type,
-                waiting: tasksInQueue.map(json => JSON.parse(json)),
-                working: tasksInProgress.map(json => JSON.parse(json))
+                waiting,
+                working: await getTasks(service.type, tasksInProgress, client),
+                delayed: await getTasks(service.type, tasksDelayed, client)
             };
         }));
 
     return results.reduce((acc: { [type: string]: WorkerStatus<any> }, result: WorkerStatusType<any>) => {
-        acc[result.type] = {waiting: result.waiting, working: result.working};
+        acc[result.type] = {waiting: result.waiting, working: result.working, delayed: result.delayed};
         return acc;
     }, {});
 }
 
+export async function hasWorkers(type: string): Promise<boolean> {
+    const client = getPersistentClient();
+    if (!client)
+        return false;
+
+    const since = Date.now() - getVisibilityTimeoutSec(type) * 1000;
+    return await client.zCount('workers:' + type, since, '+inf') > 0;
+}
+
+export async function failedTasks(type?: string): Promise<{ [type: string]: FailedTask[] }> {
+    const client = getPersistentClient();
+    if (!client)
+        throw new Error('A persistent Redis server is required for workers!');
+
+    const types = type ? [type] : allServices
+        .filter(service => service.runAs === 'worker')
+        .map(service => service.type);
+
+    const results: { [type: string]: FailedTask[] } = {};
+    for (const type of types) {
+        const tasksFailed = await client.lRange('tasks:' + type + ':failed', 0, -1);
+        results[type] = tasksFailed.map(json => JSON.parse(json));
+    }
+
+    return results;
+}
+
+export async function retryFailedTasks(type: string, index?: number): Promise<number> {
+    const client = getPersistentClient();
+    if (!client)
+        throw new Error('A persistent Redis server is required for workers!');
+
+    const tasks = await takeFailedTasks(type, client, index);
+    for (const task of tasks)
+        await queueTask(type, task.payload, task.priority, task.dedupe_key, undefined, task.id);
+
+    return tasks.length;
+}
+
+export async function purgeFailedTasks(type: string, index?: number): Promise<number> {
+    const client = getPersistentClient();
+    if (!client)
+        throw new Error('A persistent Redis server is required for workers!');
+
+    const tasks = await takeFailedTasks(type, client, index);
+    return tasks.length;
+}
+
+async function getQueuedTasks(type: string, ids: string[],
+                              client: RedisClientType): Promise<(QueuedTask | null)[]> {
+    if (ids.length === 0)
+        return [];
+
+    const queuedTasks = await client.hmGet('tasks:' + type + ':payloads', ids);
+    return queuedTasks.map(json => json ? JSON.parse(json) : null);
+}
+
+async function getTasks(type: string, ids: string[], client: RedisClientType): Promise<any[]> {
+    const queuedTasks = await getQueuedTasks(type, ids, client);
+    return queuedTasks
+        .filter(queuedTask => queuedTask !== null)
+        .map(queuedTask => (queuedTask as QueuedTask).task);
+}
+
+async function takeFailedTasks(type: string, client: RedisClientType, index?: number): Promise<FailedTask[]> {
+    const nameFailedList = 'tasks:' + type + ':failed';
+
+    const tasksFailed = index !== undefined
+        ? [await client.lIndex(nameFailedList, index)].filter(json => json !== null) as string[]
+        : await client.lRange(nameFailedList, 0, -1);
+
+    if (tasksFailed.length > 0) {
+        let multi: any = client.multi();
+        for (const json of tasksFailed)
+            multi = multi.lRem(nameFailedList, 1, json);
+
+        await multi.exec();
+    }
+
+    return tasksFailed.map(json => JSON.parse(json));
+}
+
 export async function onTask<A, R>(type: string, process: (args: A) => Promise<R>): Promise<void> {
     const client = getPersistentClient();
     const blockingClient = createNewPersistentClient('blocking');
@@ -56,8 +187,25 @@ export async function onTask<A, R>(type: string, process: (args: A) => Promise<R
 
     await blockingClient.connect();
 
-    registerGracefulShutdownHandler(async () =>
-        gracefulShutdown(type, tasksInProgress, client, blockingClient));
+    // Let others know that tasks of this type are picked up
+    await registerWorker(type, client);
+    const registerInterval = setInterval(() => registerWorker(type, client),
+        getVisibilityTimeoutSec(type) * 1000 / 3);
+
+    // Tasks which failed are retried after a delay, so regularly move the tasks which are due back to the queue
+    const delayedTasksInterval = setInterval(() => moveDelayedTasksToQueue(type, client), 1000);
+
+    // Tasks of workers which stopped sending heartbeats are given to another worker
+    const suspectedTasks = new Set<string>();
+    const expiredTasksInterval = setInterval(() => moveExpiredTasksToQueue(type, client, suspectedTasks),
+        getVisibilityTimeoutSec(type) * 1000);
+
+    registerGracefulShutdownHandler(async () => {
+        clearInterval(registerInterval);
+        clearInterval(delayedTasksInterval);
+        clearInterval(expiredTasksInterval);
+        await gracefulShutdown(type, tasksInProgress, client, blockingClient);
+    });
 
     waitForTask(type, process, tasksInProgress, client, blockingClient);
 }
@@ -75,46 +223,108 @@ async function waitForReady(client: RedisClientType): Promise<void> {
     }
 }
 
-export async function moveExpiredTasksToQueue<A>(type: string, client: RedisClientType): Promise<void> {
+export async function registerWorker(type: string, client: RedisClientType): Promise<void> {
+    try {
+        const nameWorkers = 'workers:' + type;
+        const now = Date.now();
+
+        await client
+            .multi()
+            .zAdd(nameWorkers, {score: now, value: workerId})
+            .zRemRangeByScore(nameWorkers, 0, now - getVisibilityTimeoutSec(type) * 1000)
+            .exec();
+    }
+    catch (err) {
+        logger.error(`Failure registering the worker for tasks with type '${type}'`, {err});
+    }
+}
+
+export async function moveExpiredTasksToQueue<A>(type: string, client: RedisClientType,
+                                                 suspectedTasks?: Set<string>): Promise<void> {
     try {
-        const nameQueue = 'tasks:' + type;
         const nameProgressList = 'tasks:' + type + ':progress';
 
         const tasksInProgress = await client.lRange(nameProgressList, 0, -1);
-        const expiredTasks = await Promise.all(tasksInProgress.map(async msg => {
-            const hasNotExpired = await client.get('tasks:' + type + ':' + createHash(msg));
-            return hasNotExpired ? null : msg;
+        const queuedTasks = await getQueuedTasks(type, tasksInProgress, client);
+        const expiredTasks = await Promise.all(tasksInProgress.map(async (id, i) => {
+            const queuedTask = queuedTasks[i];
+            const hasNotExpired = queuedTask && await client.get(lockName(type, queuedTask));
+            return hasNotExpired ? null : id;
         }));
 
-        const filteredExpiredTasks = expiredTasks.filter(task => task !== null) as string[];
-        if (filteredExpiredTasks.length > 0)
-            await client.rPush(nameQueue, filteredExpiredTasks);
+        // A worker only sets the heartbeat right after taking the task from the queue,
+        // so only tasks which were also found without a heartbeat during the previous check have expired
+        let filteredExpiredTasks = expiredTasks.filter(task => task !== null) as string[];
+        if (suspectedTasks) {
+            const newlySuspectedTasks = filteredExpiredTasks.filter(id => !suspectedTasks.has(id));
+            filteredExpiredTasks = filteredExpiredTasks.filter(id => suspectedTasks.has(id));
+
+            suspectedTasks.clear();
+            newlySuspectedTasks.forEach(id => suspectedTasks.add(id));
+        }
+
+        if (filteredExpiredTasks.length > 0) {
+            let multi: any = client.multi();
+            for (const id of filteredExpiredTasks) {
+                // Tasks without a payload cannot be run anymore
+                const queuedTask = queuedTasks[tasksInProgress.indexOf(id)];
+                multi = multi.lRem(nameProgressList, 1, id);
+                if (queuedTask)
+                    multi = multi.rPush(taskQueueName(type, queuedTask.priority), id);
+            }
+
+            await multi.exec();
+        }
     }
     catch (err) {
         logger.error(`Failure moving expired tasks with type '${type}' back to the queue`, {err});
     }
 }
 
+export async function moveDelayedTasksToQueue(type: string, client: RedisClientType): Promise<void> {
+    try {
+        const nameDelayedList = 'tasks:' + type + ':delayed';
+
+        const dueTasks = await client.zRangeByScore(nameDelayedList, 0, Date.now());
+        const queuedTasks = await getQueuedTasks(type, dueTasks, client);
+        for (const queuedTask of queuedTasks) {
+            // Only move the task if another worker did not already do so
+            if (queuedTask && await client.zRem(nameDelayedList, queuedTask.id) > 0)
+                await client.rPush(taskQueueName(type, queuedTask.priority), queuedTask.id);
+        }
+    }
+    catch (err) {
+        logger.error(`Failure moving delayed tasks with type '${type}' back to the queue`, {err});
+    }
+}
+
 export async function gracefulShutdown(type: string, tasksInProgress: string[],
                                        client: RedisClientType, blockingClient: RedisClientType): Promise<void> {
     try {
         shutdown = true;
         await blockingClient.disconnect();
+        await client.zRem('workers:' + type, workerId);
 
         if (tasksInProgress.length > 0) {
             logger.debug('Tasks found!');
 
-            const nameQueue = 'tasks:' + type;
             const nameProgressList = 'tasks:' + type + ':progress';
-
-            let multi: any = client.multi().rPush(nameQueue, tasksInProgress);
-
-            for (const task of tasksInProgress) {
-                multi = multi.lrem(nameProgressList, 1, task);
-                multi = multi.del(nameQueue + ':' + createHash(task));
+            const queuedTasks = await getQueuedTasks(type, tasksInProgress, client);
+
+            let multi: any = client.multi();
+            for (const [i, id] of tasksInProgress.entries()) {
+                const queuedTask = queuedTasks[i];
+                multi = multi.lRem(nameProgressList, 1, id);
+                if (queuedTask)
+                    multi = multi.rPush(taskQueueName(type, queuedTask.priority), id);
             }
 
             await multi.exec();
+
+            for (const queuedTask of queuedTasks) {
+                if (queuedTask)
+                    await releaseLock(lockName(type, queuedTask), client);
+            }
         }
     }
     catch (err) {
@@ -132,18 +342,17 @@ export async function waitForTask<A, R>(type: string, process: (args: A) => Prom
 
         logger.debug(`Waiting for a new task with type '${type}'`);
 
-        const nameQueue = 'tasks:' + type;
-        const nameProgressList = 'tasks:' + type + ':progress';
-
-        const msg = await blockingClient.blMove(nameQueue, nameProgressList, 'RIGHT', 'LEFT', 0);
-        if (msg) {
-            tasksInProgress.push(msg);
+        const id = await takeTask(type, blockingClient);
+        if (id) {
+            tasksInProgress.push(id);
             waitForTask(type, process, tasksInProgress, client, blockingClient);
 
-            await handleMessage(type, msg, process, client);
+            await handleMessage(type, id, process, client);
 
-            tasksInProgress.splice(tasksInProgress.indexOf(msg), 1);
+            tasksInProgress.splice(tasksInProgress.indexOf(id), 1);
         }
+        else if (!shutdown)
+            waitForTask(type, process, tasksInProgress, client, blockingClient);
     }
     catch (err) {
         if (!shutdown) {
@@ -153,28 +362,159 @@ export async function waitForTask<A, R>(type: string, process: (args: A) => Prom
     }
 }
 
-export async function handleMessage<A, R>(type: string, msg: string, process: (args: A) => Promise<R>,
+async function takeTask(type: string, blockingClient: RedisClientType): Promise<string | null> {
+    const nameProgressList = 'tasks:' + type + ':progress';
+
+    for (const priority of taskPriorities) {
+        const id = await blockingClient.lMove(taskQueueName(type, priority), nameProgressList, 'RIGHT', 'LEFT');
+        if (id)
+            return id;
+    }
+
+    // Only block for a short while, so new tasks in the other lanes are also picked up
+    return blockingClient.blMove(taskQueueName(type, taskPriorities[0]), nameProgressList, 'RIGHT', 'LEFT', 1);
+}
+
+async function claimTask<A>(type: string, id: string, client: RedisClientType): Promise<QueuedTask<A> | null> {
+    const queuedTask = await client.eval(CLAIM_TASK_SCRIPT, {
+        keys: ['tasks:' + type + ':queued', 'tasks:' + type + ':payloads'],
+        arguments: [id]
+    }) as string | null;
+
+    return queuedTask ? JSON.parse(queuedTask) : null;
+}
+
+async function renewLock(nameLock: string, visibilityTimeoutSec: number, client: RedisClientType): Promise<void> {
+    const isRenewed = await client.eval(RENEW_LOCK_SCRIPT, {
+        keys: [nameLock],
+        arguments: [workerId, String(visibilityTimeoutSec)]
+    });
+
+    if (!isRenewed)
+        logger.warn(`Lost the lock ${nameLock} to another worker`);
+}
+
+async function releaseLock(nameLock: string, client: RedisClientType): Promise<void> {
+    await client.eval(RELEASE_LOCK_SCRIPT, {keys: [nameLock], arguments: [workerId]});
+}
+
+export async function handleMessage<A, R>(type: string, id: string, process: (args: A) => Promise<R>,
                                           client: RedisClientType): Promise<void> {
+    let heartbeat: NodeJS.Timeout | undefined;
+    let queuedTask: QueuedTask<A> | null = null;
+
     try {
-        const task = JSON.parse(msg) as A;
+        const nameProgressList = 'tasks:' + type + ':progress';
+        const nameDelayedList = 'tasks:' + type + ':delayed';
+        const visibilityTimeoutSec = getVisibilityTimeoutSec(type);
+
+        queuedTask = await claimTask<A>(type, id, client);
+        if (!queuedTask) {
+            await client.lRem(nameProgressList, 1, id);
+            logger.warn(`No task found with type '${type}' and id ${id}; skipped`);
+            return;
+        }
+
+        const msg = JSON.stringify(queuedTask.task);
+        const nameLock = lockName(type, queuedTask);
         logger.debug(`Received a new task with type '${type}' and data ${msg}`);
 
-        const nameProgressList = 'tasks:' + type + ':progress';
-        const nameExpiration = 'tasks:' + type + ':' + createHash(msg);
+        // The same task may only be in progress once, so postpone it while another worker is working on it
+        const isFirst = await client.set(nameLock, workerId, {NX: true, EX: visibilityTimeoutSec});
+        if (!isFirst) {
+            await client
+                .multi()
+                .lRem(nameProgressList, 1, id)
+                .zAdd(nameDelayedList, {score: Date.now() + visibilityTimeoutSec * 1000, value: id})
+                .exec();
+
+            logger.debug(`Task with type '${type}' and data ${msg} is already in progress; postponed`);
+            return;
+        }
+
+        heartbeat = setInterval(() => renewLock(nameLock, visibilityTimeoutSec, client).catch(err =>
+            logger.error(`Failure renewing the heartbeat of task with type '${type}'`, {err})),
+            visibilityTimeoutSec * 1000 / 3);
 
-        await client.setEx(nameExpiration, 60 * 5, createHash(msg));
-        await process(task);
+        await process(queuedTask.task);
 
+        await releaseLock(nameLock, client);
         await client
             .multi()
-            .del(nameExpiration)
-            .lRem(nameProgressList, 1, msg)
+            .lRem(nameProgressList, 1, id)
+            .hDel('tasks:' + type + ':attempts', id)
+            .hDel('tasks:' + type + ':payloads', id)
             .exec();
 
+        await completeJobTasks(type, queuedTask.id, 'succeeded');
+
         logger.debug(`Finished task with type '${type}' and data ${msg}`);
     }
+    catch (err: any) {
+        logger.error(`Failure during task with type '${type}' and id ${id}`, {err});
+
+        // A task which could not be claimed is sent back to the queue once its missing heartbeat is noticed
+        if (queuedTask)
+            await handleFailure(type, queuedTask, err, client);
+    }
+    finally {
+        clearInterval(heartbeat);
+    }
+}
+
+async function handleFailure(type: string, queuedTask: QueuedTask, err: any, client: RedisClientType): Promise<void> {
+    const msg = JSON.stringify(queuedTask.task);
+
+    try {
+        const nameProgressList = 'tasks:' + type + ':progress';
+        const nameDelayedList = 'tasks:' + type + ':delayed';
+        const nameFailedList = 'tasks:' + type + ':failed';
+        const nameAttempts = 'tasks:' + type + ':attempts';
+
+        const retryPolicy = getRetryPolicy(type);
+        const attempts = await client.hIncrBy(nameAttempts, queuedTask.id, 1);
+
+        await releaseLock(lockName(type, queuedTask), client);
+
+        let multi: any = client
+            .multi()
+            .lRem(nameProgressList, 1, queuedTask.id);
+
+        if (attempts < retryPolicy.attempts) {
+            const delay = retryPolicy.backoffMs * Math.pow(2, attempts - 1);
+            multi = multi.zAdd(nameDelayedList, {score: Date.now() + delay, value: queuedTask.id});
+
+            logger.warn(`Retrying task with type '${type}' in ${delay} ms ` +
+                `(attempt ${attempts + 1} of ${retryPolicy.attempts})`);
+        }
+        else {
+            const failedTask: FailedTask = {
+                id: queuedTask.id,
+                payload: msg,
+                priority: queuedTask.priority,
+                dedupe_key: queuedTask.dedupeKey || null,
+                error: err?.message || String(err),
+                attempts,
+                failed_at: new Date().toISOString()
+            };
+
+            multi = multi
+                .hDel(nameAttempts, queuedTask.id)
+                .hDel('tasks:' + type + ':payloads', queuedTask.id)
+                .rPush(nameFailedList, JSON.stringify(failedTask));
+
+            logger.error(`Task with type '${type}' failed after ${attempts} attempts; moved to the failed tasks`);
+        }
+
+        await multi.exec();
+
+        if (attempts >= retryPolicy.attempts) {
+            await runFailureHandler(type, queuedTask.task, err);
+            await completeJobTasks(type, queuedTask.id, 'failed');
+        }
+    }
     catch (err) {
-        await client.lRem('tasks:' + type + ':progress', 1, msg);
-        logger.error(`Failure during task with type '${type}' and data ${msg}`, {err});
+        await client.lRem('tasks:' + type + ':progress', 1, queuedTask.id);
+        logger.error(`Cannot schedule a retry for the task with type '${type}' and data ${msg}`, {err});
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,12 @@
+export type OaiErrorCode = 'badArgument' | 'badResumptionToken' | 'badVerb' | 'cannotDisseminateFormat' |
+    'idDoesNotExist' | 'noRecordsMatch' | 'noMetadataFormats' | 'noSetHierarchy';
+
+export default class OaiError extends Error {
+    code: OaiErrorCode;
+
+    constructor(code: OaiErrorCode, ...params: any[]) {
+        super(...params);
+        this.code = code;
+        Error.captureStackTrace(this, OaiError);
+    }
+}
@@ -0,0 +1,201 @@
+import {
+    AggregationsMinAggregate,
+    AggregationsMultiBucketAggregateBase,
+    AggregationsStringRareTermsBucketKeys,
+    QueryDslQueryContainer
+} from '@elastic/elasticsearch/lib/api/types.js';
+
+import config from '../lib/Config.js';
+import getClient from '../lib/ElasticSearch.js';
+import {Item} from '../lib/ItemInterfaces.js';
+import {getItem, getItems, withItems} from '../lib/Item.js';
+
+import OaiError from './OaiError.js';
+
+export interface OaiQuery {
+    metadataPrefix: string;
+    set?: string;
+    from?: string;
+    until?: string;
+}
+
+export interface OaiSet {
+    spec: string;
+    name: string;
+}
+
+export interface OaiList {
+    items: Item[];
+    cursor: number;
+    completeListSize: number;
+    resumptionToken: string | null;
+}
+
+export interface ResumptionToken extends OaiQuery {
+    searchAfter: string;
+    cursor: number;
+}
+
+const PAGE_SIZE = 100;
+const RECORD_TYPES = ['root', 'folder'];
+
+// Set specs only allow a few characters, so the others are escaped with a dot; spaces become underscores
+export const toSpec = (value: string): string => encodeURIComponent(value)
+    .replace(/[._]/g, char => '%' + char.charCodeAt(0).toString(16).toUpperCase())
+    .replaceAll('%20', '_')
+    .replaceAll('%', '.');
+export const fromSpec = (spec: string): string =>
+    decodeURIComponent(spec.replaceAll('.', '%').replaceAll('_', '%20'));
+
+export async function getRecordItem(id: string): Promise<Item | null> {
+    const item = await getItem(id);
+    return item && RECORD_TYPES.includes(item.type) ? item : null;
+}
+
+export async function listRecordItems(query: OaiQuery, token?: ResumptionToken): Promise<OaiList> {
+    const response = await getClient().search<Item>({
+        index: config.elasticSearchIndexItems,
+        size: PAGE_SIZE,
+        sort: [{id: 'asc'}],
+        search_after: token ? [token.searchAfter] : undefined,
+        track_total_hits: true,
+        query: getQuery(query)
+    });
+
+    const items = response.hits.hits.map(hit => hit._source as Item);
+    const completeListSize = typeof response.hits.total === 'number'
+        ? response.hits.total : response.hits.total?.value || 0;
+    if (completeListSize === 0)
+        throw new OaiError('noRecordsMatch', 'No records match the given arguments');
+
+    const cursor = token?.cursor || 0;
+    const hasMore = items.length > 0 && cursor + items.length < completeListSize;
+
+    return {
+        items,
+        cursor,
+        completeListSize,
+        resumptionToken: hasMore ? encodeToken({
+            metadataPrefix: query.metadataPrefix,
+            set: query.set,
+            from: query.from,
+            until: query.until,
+            searchAfter: items[items.length - 1].id,
+            cursor: cursor + items.length
+        }) : null
+    };
+}
+
+export async function listSets(): Promise<OaiSet[]> {
+    const formats = await getClient().search<unknown, Record<'formats', AggregationsMultiBucketAggregateBase<AggregationsStringRareTermsBucketKeys>>>({
+        index: config.elasticSearchIndexItems,
+        size: 0,
+        query: {terms: {type: RECORD_TYPES}},
+        aggs: {
+            formats: {
+                terms: {
+                    field: 'formats',
+                    size: 1000
+                }
+            }
+        }
+    });
+
+    const buckets = (formats.aggregations?.formats?.buckets as AggregationsStringRareTermsBucketKeys[]) || [];
+    const collections = await withItems(getItems('type:(root OR folder) AND NOT _exists_:parent_id',
+        ['id', 'collection_id', 'label']));
+
+    return [
+        ...buckets.map(bucket => ({spec: `format-${toSpec(bucket.key)}`, name: bucket.key})),
+        ...collections
+            .filter(item => item.id === item.collection_id)
+            .map(item => ({spec: `collection-${toSpec(item.collection_id)}`, name: item.label}))
+    ];
+}
+
+export async function getEarliestDatestamp(): Promise<Date | null> {
+    // Records which were never indexed use the date of creation as datestamp
+    const response = await getClient().search<unknown, Record<'indexed_at' | 'created_at', AggregationsMinAggregate>>({
+        index: config.elasticSearchIndexItems,
+        size: 0,
+        query: {terms: {type: RECORD_TYPES}},
+        aggs: {
+            indexed_at: {min: {field: 'indexed_at'}},
+            created_at: {min: {field: 'created_at'}}
+        }
+    });
+
+    const dates = [response.aggregations?.indexed_at.value, response.aggregations?.created_at.value]
+        .filter(date => typeof date === 'number') as number[];
+
+    return dates.length > 0 ? new Date(Math.min(...dates)) : null;
+}
+
+export function decodeToken(token: string): ResumptionToken {
+    let decoded: Partial<ResumptionToken> | null;
+    try {
+        decoded = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    }
+    catch (e) {
+        throw new OaiError('badResumptionToken', 'The resumption token is invalid');
+    }
+
+    const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+    if (typeof decoded?.metadataPrefix !== 'string' || typeof decoded?.searchAfter !== 'string'
+        || typeof decoded?.cursor !== 'number' || !isOptionalString(decoded.set)
+        || !isOptionalString(decoded.from) || !isOptionalString(decoded.until))
+        throw new OaiError('badResumptionToken', 'The resumption token is invalid');
+
+    return decoded as ResumptionToken;
+}
+
+function encodeToken(token: ResumptionToken): string {
+    return Buffer.from(JSON.stringify(token)).toString('base64url');
+}
+
+function getQuery({set, from, until}: OaiQuery): QueryDslQueryContainer {
+    const filter: QueryDslQueryContainer[] = [{terms: {type: RECORD_TYPES}}];
+
+    if (set?.startsWith('format-'))
+        filter.push({term: {formats: getSetValue(set, 'format-')}});
+    else if (set?.startsWith('collection-'))
+        filter.push({term: {collection_id: getSetValue(set, 'collection-')}});
+    else if (set)
+        throw new OaiError('noRecordsMatch', `No set found with spec ${set}`);
+
+    // The until date includes the whole day or second
+    if (from || until) {
+        const range = {
+            gte: from && from.length === 10 ? `${from}T00:00:00Z` : from,
+            lte: until && (until.length === 10 ? `${until}T23:59:59.999Z` : until.replace('Z', '.999Z'))
+        };
+
+        // Just like the datestamp, fall back to the date of creation for records which were never indexed
+        filter.push({
+            bool: {
+                should: [
+                    {range: {indexed_at: range}},
+                    {
+                        bool: {
+                            must_not: {exists: {field: 'indexed_at'}},
+                            should: undefined,
+                            filter: {range: {created_at: range}}
+                        }
+                    }
+                ],
+                minimum_should_match: 1
+            }
+        });
+    }
+
+    return {bool: {filter, should: undefined}};
+}
+
+function getSetValue(set: string, prefix: string): string {
+    try {
+        return fromSpec(set.substring(prefix.length));
+    }
+    catch (e) {
+        throw new OaiError('noRecordsMatch', `No set found with spec ${set}`);
+    }
+}
@@ -0,0 +1,162 @@
+import config from '../lib/Config.js';
+import {Item} from '../lib/ItemInterfaces.js';
+
+import {collectionUri, manifestUri} from '../builder/UriHelper.js';
+
+import {OaiErrorCode} from './OaiError.js';
+import {OaiList, OaiSet, toSpec} from './oaiRecords.js';
+
+export const baseUrl = `${config.baseUrl}/oai`;
+
+export const METADATA_FORMATS: { [prefix: string]: { schema: string, namespace: string } } = {
+    oai_dc: {
+        schema: 'http://www.openarchives.org/OAI/2.0/oai_dc.xsd',
+        namespace: 'http://www.openarchives.org/OAI/2.0/oai_dc/'
+    },
+    iiif: {
+        schema: `${baseUrl}/iiif.xsd`,
+        namespace: 'http://iiif.io/api/presentation/3#'
+    }
+};
+export const repositoryIdentifier = new URL(config.baseUrl).hostname;
+
+export const getOaiIdentifier = (id: string) => `oai:${repositoryIdentifier}:${id}`;
+export const getDatestamp = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+export function getResponse(args: Record<string, string>, content: string): string {
+    const attributes = Object.entries(args).map(([name, value]) => ` ${name}="${escape(value)}"`).join('');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<OAI-PMH xmlns="http://www.openarchives.org/OAI/2.0/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.openarchives.org/OAI/2.0/ http://www.openarchives.org/OAI/2.0/OAI-PMH.xsd">
+  <responseDate>${getDatestamp(new Date())}</responseDate>
+  <request${attributes}>${escape(baseUrl)}</request>
+  ${content}
+</OAI-PMH>
+`;
+}
+
+export function getError(code: OaiErrorCode, message: string): string {
+    return `<error code="${code}">${escape(message)}</error>`;
+}
+
+export function getIdentify(earliestDatestamp: Date | null): string {
+    return `<Identify>
+    <repositoryName>${escape(config.attribution || 'Archival IIIF server')}</repositoryName>
+    <baseURL>${escape(baseUrl)}</baseURL>
+    <protocolVersion>2.0</protocolVersion>
+    ${config.oaiAdminEmail ? `<adminEmail>${escape(config.oaiAdminEmail)}</adminEmail>` : ''}
+    <earliestDatestamp>${getDatestamp(earliestDatestamp || new Date(0))}</earliestDatestamp>
+    <deletedRecord>no</deletedRecord>
+    <granularity>YYYY-MM-DDThh:mm:ssZ</granularity>
+    <description>
+      <oai-identifier xmlns="http://www.openarchives.org/OAI/2.0/oai-identifier" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.openarchives.org/OAI/2.0/oai-identifier http://www.openarchives.org/OAI/2.0/oai-identifier.xsd">
+        <scheme>oai</scheme>
+        <repositoryIdentifier>${escape(repositoryIdentifier)}</repositoryIdentifier>
+        <delimiter>:</delimiter>
+        <sampleIdentifier>${escape(getOaiIdentifier('12345'))}</sampleIdentifier>
+      </oai-identifier>
+    </description>
+  </Identify>`;
+}
+
+export function getListMetadataFormats(): string {
+    const formats = Object.entries(METADATA_FORMATS).map(([prefix, {schema, namespace}]) => `<metadataFormat>
+      <metadataPrefix>${prefix}</metadataPrefix>
+      <schema>${escape(schema)}</schema>
+      <metadataNamespace>${escape(namespace)}</metadataNamespace>
+    </metadataFormat>`);
+
+    return `<ListMetadataFormats>\n    ${formats.join('\n    ')}\n  </ListMetadataFormats>`;
+}
+
+export function getListSets(sets: OaiSet[]): string {
+    const setsXml = sets.map(set =>
+        `<set><setSpec>${escape(set.spec)}</setSpec><setName>${escape(set.name)}</setName></set>`);
+
+    return `<ListSets>\n    ${setsXml.join('\n    ')}\n  </ListSets>`;
+}
+
+export function getListIdentifiers(list: OaiList): string {
+    const headers = list.items.map(item => getHeader(item));
+    return `<ListIdentifiers>\n    ${headers.join('\n    ')}\n    ${getResumptionToken(list)}\n  </ListIdentifiers>`;
+}
+
+export function getListRecords(list: OaiList, metadataPrefix: string): string {
+    const records = list.items.map(item => getRecord(item, metadataPrefix));
+    return `<ListRecords>\n    ${records.join('\n    ')}\n    ${getResumptionToken(list)}\n  </ListRecords>`;
+}
+
+export function getGetRecord(item: Item, metadataPrefix: string): string {
+    return `<GetRecord>\n    ${getRecord(item, metadataPrefix)}\n  </GetRecord>`;
+}
+
+function getRecord(item: Item, metadataPrefix: string): string {
+    const metadata = metadataPrefix === 'iiif' ? getIIIFMetadata(item) : getDublinCoreMetadata(item);
+    return `<record>${getHeader(item)}<metadata>${metadata}</metadata></record>`;
+}
+
+function getHeader(item: Item): string {
+    const date = item.indexed_at || item.created_at;
+    const sets = [...item.formats.map(format => `format-${toSpec(format)}`), `collection-${toSpec(item.collection_id)}`];
+
+    return `<header>` +
+        `<identifier>${escape(getOaiIdentifier(item.id))}</identifier>` +
+        `<datestamp>${getDatestamp(date ? new Date(date) : new Date(0))}</datestamp>` +
+        sets.map(set => `<setSpec>${escape(set)}</setSpec>`).join('') +
+        `</header>`;
+}
+
+function getDublinCoreMetadata(item: Item): string {
+    const elements: [string, string | null][] = [
+        ['title', item.label],
+        ...item.authors.flatMap(author =>
+            (Array.isArray(author.name) ? author.name : [author.name]).map(name => ['creator', name])),
+        ['description', item.description],
+        ...item.dates.map(date => ['date', date]),
+        ...item.formats.map(format => ['type', format]),
+        ['identifier', getUri(item)]
+    ] as [string, string | null][];
+
+    return `<oai_dc:dc xmlns:oai_dc="http://www.openarchives.org/OAI/2.0/oai_dc/" ` +
+        `xmlns:dc="http://purl.org/dc/elements/1.1/" ` +
+        `xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ` +
+        `xsi:schemaLocation="http://www.openarchives.org/OAI/2.0/oai_dc/ http://www.openarchives.org/OAI/2.0/oai_dc.xsd">` +
+        elements
+            .filter(([_, value]) => value)
+            .map(([name, value]) => `<dc:${name}>${escape(value as string)}</dc:${name}>`)
+            .join('') +
+        `</oai_dc:dc>`;
+}
+
+function getIIIFMetadata(item: Item): string {
+    const {schema, namespace} = METADATA_FORMATS.iiif;
+
+    return `<iiif:resource xmlns:iiif="${namespace}" ` +
+        `xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ` +
+        `xsi:schemaLocation="${namespace} ${escape(schema)}">` +
+        `<iiif:id>${escape(getUri(item))}</iiif:id>` +
+        `<iiif:type>${item.type === 'root' ? 'Manifest' : 'Collection'}</iiif:type>` +
+        `<iiif:label>${escape(item.label)}</iiif:label>` +
+        `</iiif:resource>`;
+}
+
+function getResumptionToken(list: OaiList): string {
+    // The last part of an incomplete list has an empty resumption token
+    if (!list.resumptionToken && list.cursor === 0)
+        return '';
+
+    return `<resumptionToken completeListSize="${list.completeListSize}" cursor="${list.cursor}">` +
+        `${list.resumptionToken ? escape(list.resumptionToken) : ''}</resumptionToken>`;
+}
+
+function getUri(item: Item): string {
+    return item.type === 'root' ? manifestUri(item.id) : collectionUri(item.id);
+}
+
+function escape(str: string): string {
+    return str
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
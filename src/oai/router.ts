@@ -0,0 +1,161 @@
+import Router from '@koa/router';
+import send from 'koa-send';
+import {DefaultState} from 'koa';
+
+import logger from '../lib/Logger.js';
+import {ExtendedContext} from '../lib/Koa.js';
+
+import OaiError from './OaiError.js';
+import {
+    decodeToken, getEarliestDatestamp, getRecordItem, listRecordItems, listSets, OaiQuery, ResumptionToken
+} from './oaiRecords.js';
+import {
+    METADATA_FORMATS, repositoryIdentifier, getResponse, getError, getIdentify, getListMetadataFormats,
+    getListSets, getListIdentifiers, getListRecords, getGetRecord
+} from './oaiXml.js';
+
+export const router = new Router<DefaultState, ExtendedContext>({prefix: '/oai'});
+
+type OaiParams = Record<string, string | string[] | undefined>;
+
+const VERBS: { [verb: string]: { required: string[], optional: string[], exclusive?: string } } = {
+    Identify: {required: [], optional: []},
+    ListMetadataFormats: {required: [], optional: ['identifier']},
+    ListSets: {required: [], optional: [], exclusive: 'resumptionToken'},
+    ListIdentifiers: {required: ['metadataPrefix'], optional: ['from', 'until', 'set'], exclusive: 'resumptionToken'},
+    ListRecords: {required: ['metadataPrefix'], optional: ['from', 'until', 'set'], exclusive: 'resumptionToken'},
+    GetRecord: {required: ['identifier', 'metadataPrefix'], optional: []}
+};
+
+router.get('/', async ctx => {
+    await handleRequest(ctx, ctx.query);
+});
+
+router.get('/iiif.xsd', async ctx => {
+    await send(ctx, '/src/static/oai-iiif.xsd');
+});
+
+router.post('/', async ctx => {
+    await handleRequest(ctx, ctx.request.body as OaiParams || {});
+});
+
+async function handleRequest(ctx: ExtendedContext, params: OaiParams): Promise<void> {
+    logger.info(`Received an OAI-PMH request with verb ${params.verb}`);
+
+    ctx.set('Content-Type', 'text/xml; charset=utf-8');
+
+    try {
+        const args = getArguments(params);
+        ctx.body = getResponse(args, await handleVerb(args));
+    }
+    catch (err: any) {
+        if (!(err instanceof OaiError))
+            throw err;
+
+        // The request is only echoed with its arguments if these are valid
+        const isValid = !['badVerb', 'badArgument'].includes(err.code);
+        ctx.body = getResponse(isValid ? getArguments(params) : {}, getError(err.code, err.message));
+    }
+
+    logger.info(`Sending an OAI-PMH response for verb ${params.verb}`);
+}
+
+async function handleVerb(args: Record<string, string>): Promise<string> {
+    switch (args.verb) {
+        case 'Identify':
+            return getIdentify(await getEarliestDatestamp());
+        case 'ListMetadataFormats':
+            if (args.identifier)
+                await getItemByIdentifier(args.identifier);
+            return getListMetadataFormats();
+        case 'ListSets':
+            if (args.resumptionToken)
+                throw new OaiError('badResumptionToken', 'The list of sets is never split up');
+            return getListSets(await listSets());
+        case 'ListIdentifiers': {
+            const [query, token] = getListQuery(args);
+            return getListIdentifiers(await listRecordItems(query, token));
+        }
+        case 'ListRecords': {
+            const [query, token] = getListQuery(args);
+            return getListRecords(await listRecordItems(query, token), query.metadataPrefix);
+        }
+        case 'GetRecord':
+            validateMetadataPrefix(args.metadataPrefix);
+            return getGetRecord(await getItemByIdentifier(args.identifier), args.metadataPrefix);
+        default:
+            throw new OaiError('badVerb', 'Illegal OAI verb');
+    }
+}
+
+function getArguments(params: OaiParams): Record<string, string> {
+    const verb = params.verb;
+    if (typeof verb !== 'string' || !(verb in VERBS))
+        throw new OaiError('badVerb', 'Illegal or missing OAI verb');
+
+    const args: Record<string, string> = {};
+    for (const [name, value] of Object.entries(params)) {
+        if (typeof value !== 'string')
+            throw new OaiError('badArgument', `The argument ${name} is repeated`);
+        args[name] = value;
+    }
+
+    const {required, optional, exclusive} = VERBS[verb];
+    const names = Object.keys(args).filter(name => name !== 'verb');
+
+    if (exclusive && names.includes(exclusive)) {
+        if (names.length > 1)
+            throw new OaiError('badArgument', `The argument ${exclusive} is exclusive`);
+        return args;
+    }
+
+    const missing = required.find(name => !names.includes(name));
+    if (missing)
+        throw new OaiError('badArgument', `The argument ${missing} is missing`);
+
+    const illegal = names.find(name => !required.includes(name) && !optional.includes(name));
+    if (illegal)
+        throw new OaiError('badArgument', `The argument ${illegal} is illegal`);
+
+    validateDates(args.from, args.until);
+
+    return args;
+}
+
+function getListQuery(args: Record<string, string>): [OaiQuery, ResumptionToken?] {
+    if (args.resumptionToken) {
+        const token = decodeToken(args.resumptionToken);
+        return [token, token];
+    }
+
+    validateMetadataPrefix(args.metadataPrefix);
+    return [{metadataPrefix: args.metadataPrefix, set: args.set, from: args.from, until: args.until}];
+}
+
+async function getItemByIdentifier(identifier: string) {
+    const prefix = `oai:${repositoryIdentifier}:`;
+    const item = identifier.startsWith(prefix) ? await getRecordItem(identifier.substring(prefix.length)) : null;
+    if (!item)
+        throw new OaiError('idDoesNotExist', `No record found with identifier ${identifier}`);
+
+    return item;
+}
+
+function validateMetadataPrefix(metadataPrefix: string): void {
+    if (!(metadataPrefix in METADATA_FORMATS))
+        throw new OaiError('cannotDisseminateFormat', `The metadata format ${metadataPrefix} is not supported`);
+}
+
+function validateDates(from?: string, until?: string): void {
+    const isValid = (date: string) =>
+        /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}:\d{2}Z)?$/.test(date) && !isNaN(new Date(date).getTime());
+
+    if ((from && !isValid(from)) || (until && !isValid(until)))
+        throw new OaiError('badArgument', 'The from and until arguments should be valid dates');
+
+    if (from && until && from.length !== until.length)
+        throw new OaiError('badArgument', 'The from and until arguments should have the same granularity');
+
+    if (from && until && from > until)
+        throw new OaiError('badArgument', 'The from argument should not be later than the until argument');
+}
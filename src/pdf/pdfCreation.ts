@@ -1,28 +1,67 @@
-import {PDFDocument, PDFPage} from 'pdf-lib';
+import {dirname} from 'path';
+import {randomUUID} from 'crypto';
+import {ensureDir, move} from 'fs-extra';
+import {
+    PDFDocument, PDFFont, PDFPage, StandardFonts, TextRenderingMode, setTextRenderingMode
+} from 'pdf-lib';
 import {AccessTier} from '@archival-iiif/presentation-builder/v2';
 
 import config from '../lib/Config.js';
 import logger from '../lib/Logger.js';
+import {Text} from '../lib/Text.js';
+import {runLib} from '../lib/Task.js';
+import {writeFileAsync} from '../lib/Promisified.js';
+import {getRangeItemsByCollectionId} from '../lib/Item.js';
 import {ImageItem, RootItem} from '../lib/ItemInterfaces.js';
+import {BasicIIIFMetadata, ItemParams} from '../lib/ServiceTypes.js';
+import {getWordsFromStructure, TextStructure} from '../lib/TextStructure.js';
 
 import {getImage} from '../image/imageServer.js';
+import {getRangeHierarchy} from '../builder/PresentationUtils.js';
 
-export default async function createPDF(rootItem: RootItem, items: ImageItem[], tier?: AccessTier): Promise<Buffer> {
+import {addCoverPage, addOutline, sanitizeText, setMetadata} from './pdfMetadata.js';
+
+export default async function createPDF(rootItem: RootItem, items: ImageItem[], output: string, tier?: AccessTier,
+                                        texts: Text[] = [],
+                                        onProgress?: (pagesDone: number) => Promise<void>): Promise<void> {
     const document = await PDFDocument.create();
+    const font = await document.embedFont(StandardFonts.Helvetica);
+    const boldFont = await document.embedFont(StandardFonts.HelveticaBold);
+    const md = await runLib<ItemParams, BasicIIIFMetadata>('basic-iiif-metadata', {item: rootItem});
+
+    setMetadata(document, rootItem, md);
+    addCoverPage(document, rootItem, md, font, boldFont);
+
+    // Fetch a limited number of images at the same time, while keeping the pages in order
+    const pages: (PDFPage | null)[] = new Array(items.length).fill(null);
+    let next = 0, pagesDone = 0;
+    await Promise.all(Array.from({length: Math.min(config.pdfConcurrency, items.length)}, async () => {
+        while (next < items.length) {
+            const i = next++;
+            pages[i] = await createPdfPage(document, items[i], tier);
+
+            const text = texts.find(text => text.item_id === items[i].id);
+            if (pages[i] && text?.structure)
+                drawTextLayer(pages[i] as PDFPage, font, items[i], text.structure);
 
-    document.setTitle(rootItem.label);
-    rootItem.authors.length > 0 && document.setAuthor(
-        Array.isArray(rootItem.authors[0].name) ? rootItem.authors[0].name[0] : rootItem.authors[0].name);
-    config.attribution && document.setProducer(config.attribution);
-    config.attribution && document.setCreator(config.attribution);
+            onProgress && await onProgress(++pagesDone);
+        }
+    }));
 
-    const pages = await Promise.all(items.map(async item => createPdfPage(document, item, tier)));
     for (const page of pages)
         page && document.addPage(page);
 
-    const docBytes = await document.save();
+    // Only the included pages are referred to from the outline
+    const pagesByItemId = new Map<string, PDFPage>();
+    items.forEach((item, i) => pages[i] && pagesByItemId.set(item.id, pages[i] as PDFPage));
 
-    return Buffer.from(docBytes.buffer);
+    const ranges = await getRangeItemsByCollectionId(rootItem.id);
+    addOutline(document, getRangeHierarchy(items, ranges), pagesByItemId);
+
+    const tmpPath = `${output}.${randomUUID()}.tmp`;
+    await ensureDir(dirname(output));
+    await writeFileAsync(tmpPath, await document.save());
+    await move(tmpPath, output, {overwrite: true});
 }
 
 async function createPdfPage(document: PDFDocument, item: ImageItem, tier?: AccessTier): Promise<PDFPage | null> {
@@ -52,3 +91,42 @@ async function createPdfPage(document: PDFDocument, item: ImageItem, tier?: Acce
 
     return page;
 }
+
+export function drawTextLayer(page: PDFPage, font: PDFFont, item: ImageItem, structure: TextStructure): void {
+    // Without the size of the page, the coordinates can only be pixels of the image
+    const isPixels = !structure.page || structure.page.unit === 'pixel';
+    const pageWidth = structure.page?.width || (isPixels ? item.width : null);
+    const pageHeight = structure.page?.height || (isPixels ? item.height : null);
+    if (!pageWidth || !pageHeight) {
+        logger.warn(`Cannot place the text layer of item ${item.id} without the size of the page`);
+        return;
+    }
+
+    const scaleX = page.getWidth() / pageWidth;
+    const scaleY = page.getHeight() / pageHeight;
+    const words = getWordsFromStructure(structure);
+
+    // Invisible text is not rendered, but can still be searched, selected and copied
+    page.pushOperators(setTextRenderingMode(TextRenderingMode.Invisible));
+
+    for (const word of words) {
+        if (word.x === undefined || word.y === undefined || !word.width || !word.height)
+            continue;
+
+        const content = sanitizeText(font, word.content);
+        const contentWidth = font.widthOfTextAtSize(content, 1);
+        if (contentWidth === 0)
+            continue;
+
+        const width = word.width * scaleX;
+        const height = word.height * scaleY;
+        page.drawText(content, {
+            font,
+            x: word.x * scaleX,
+            y: page.getHeight() - (word.y * scaleY) - height,
+            size: Math.min(height, width / contentWidth)
+        });
+    }
+
+    page.pushOperators(setTextRenderingMode(TextRenderingMode.Fill));
+}
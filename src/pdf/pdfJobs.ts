@@ -0,0 +1,85 @@
+import {join} from 'path';
+import {createHash} from 'crypto';
+import {remove} from 'fs-extra';
+import {AccessTier} from '@archival-iiif/presentation-builder/v2';
+
+import config from '../lib/Config.js';
+import {getChildItems} from '../lib/Item.js';
+import {getPersistentClient} from '../lib/Redis.js';
+import {ImageItem, Item} from '../lib/ItemInterfaces.js';
+
+export type PdfJobStatus = 'waiting' | 'working' | 'done' | 'failed';
+
+export interface PdfJob {
+    id: string;
+    status: PdfJobStatus;
+    pagesDone: number;
+    pagesTotal: number;
+    download: string;
+}
+
+// Keep the status of a job around long enough for clients to poll for the result
+const JOB_EXPIRATION = 60 * 60 * 24;
+
+export function getPdfJobId(rootItem: Item, pages: number[] | null, text: string | null,
+                            tier: AccessTier | undefined, lastModified: Date | null): string {
+    const key = [rootItem.id, pages ? [...pages].sort((a, b) => a - b).join(',') : '', text || '',
+        tier?.name || '', lastModified?.getTime() || ''].join('/');
+    return createHash('md5').update(key).digest('hex');
+}
+
+export async function getPdfPageItems(rootItem: Item, pages: number[] | null): Promise<ImageItem[]> {
+    return (await getChildItems(rootItem))
+        .filter(item => item.type === 'image')
+        .filter(item => item.order && (!pages || pages.includes(item.order))) as ImageItem[];
+}
+
+export async function getPdfJob(jobId: string): Promise<PdfJob | null> {
+    // Without a persistent Redis server, there are no jobs
+    const client = getPersistentClient();
+    if (!client)
+        return null;
+
+    const job = await client.hGetAll(`pdf:job:${jobId}`);
+    if (!job.status)
+        return null;
+
+    return {
+        id: jobId,
+        status: job.status as PdfJobStatus,
+        pagesDone: parseInt(job.pagesDone),
+        pagesTotal: parseInt(job.pagesTotal),
+        download: job.download
+    };
+}
+
+export async function updatePdfJob(jobId: string, job: Partial<Omit<PdfJob, 'id'>>): Promise<void> {
+    const key = `pdf:job:${jobId}`;
+    const values = Object.fromEntries(Object.entries(job).map(([field, value]) => [field, String(value)]));
+
+    await getClient()
+        .multi()
+        .hSet(key, values)
+        .expire(key, JOB_EXPIRATION)
+        .exec();
+}
+
+export function getPdfPath(rootItem: Item, jobId: string): string {
+    return join(getPdfDirectory(rootItem.id), `${jobId}.pdf`);
+}
+
+export async function purgePdfs(rootId: string): Promise<void> {
+    await remove(getPdfDirectory(rootId));
+}
+
+function getPdfDirectory(rootId: string): string {
+    return join(config.dataRootPath, config.derivativeRelativePath, 'pdf', ...rootId.split('-'), rootId);
+}
+
+function getClient() {
+    const client = getPersistentClient();
+    if (!client)
+        throw new Error('A persistent Redis server is required for creating PDFs!');
+
+    return client;
+}
@@ -0,0 +1,184 @@
+import {
+    PDFDocument, PDFFont, PDFHexString, PDFName, PDFPage, PDFRef, PageSizes, rgb
+} from 'pdf-lib';
+
+import config from '../lib/Config.js';
+import {Item, RootItem} from '../lib/ItemInterfaces.js';
+import {BasicIIIFMetadata} from '../lib/ServiceTypes.js';
+
+import {RangeHierarchy} from '../builder/PresentationUtils.js';
+
+const MARGIN = 56;
+const TITLE_SIZE = 20;
+const TEXT_SIZE = 11;
+const LINE_HEIGHT = 1.4;
+
+export function setMetadata(document: PDFDocument, rootItem: RootItem, md: BasicIIIFMetadata): void {
+    const authors = getAuthors(rootItem);
+    const creationDate = rootItem.created_at ? new Date(rootItem.created_at) : new Date();
+
+    document.setTitle(rootItem.label);
+    authors.length > 0 && document.setAuthor(authors[0]);
+    rootItem.description && document.setSubject(rootItem.description);
+    rootItem.formats.length > 0 && document.setKeywords(rootItem.formats);
+    config.attribution && document.setProducer(config.attribution);
+    config.attribution && document.setCreator(config.attribution);
+    document.setCreationDate(creationDate);
+    document.setModificationDate(new Date());
+
+    const xmp = getXmp(rootItem, md, authors, creationDate);
+    const stream = document.context.stream(new TextEncoder().encode(xmp), {Type: 'Metadata', Subtype: 'XML'});
+    document.catalog.set(PDFName.of('Metadata'), document.context.register(stream));
+}
+
+export function addCoverPage(document: PDFDocument, rootItem: RootItem, md: BasicIIIFMetadata,
+                             font: PDFFont, boldFont: PDFFont): void {
+    const page = document.addPage(PageSizes.A4);
+    const maxWidth = page.getWidth() - 2 * MARGIN;
+    let y = page.getHeight() - MARGIN;
+
+    const drawLines = (text: string, curFont: PDFFont, size: number) => {
+        for (const line of wrapText(sanitizeText(curFont, text), curFont, size, maxWidth)) {
+            y -= size * LINE_HEIGHT;
+            page.drawText(line, {x: MARGIN, y, size, font: curFont, color: rgb(0, 0, 0)});
+        }
+    };
+
+    drawLines(rootItem.label, boldFont, TITLE_SIZE);
+    y -= TEXT_SIZE;
+
+    const authors = getAuthors(rootItem);
+    authors.length > 0 && drawLines(authors.join('; '), font, TEXT_SIZE);
+    rootItem.dates.length > 0 && drawLines(rootItem.dates.join('; '), font, TEXT_SIZE);
+    y -= TEXT_SIZE;
+
+    md.rights && drawLines(`Rights: ${md.rights}`, font, TEXT_SIZE);
+    for (const homepage of md.homepage)
+        drawLines(`${homepage.label}: ${homepage.id}`, font, TEXT_SIZE);
+
+    if (config.attribution) {
+        y -= TEXT_SIZE;
+        drawLines(config.attribution, font, TEXT_SIZE);
+    }
+}
+
+export function addOutline(document: PDFDocument, hierarchy: RangeHierarchy[],
+                           pagesByItemId: Map<string, PDFPage>): void {
+    const outlinesRef = document.context.nextRef();
+    const itemRefs = addOutlineItems(document, hierarchy, outlinesRef, pagesByItemId);
+    if (itemRefs.length === 0)
+        return;
+
+    document.context.assign(outlinesRef, document.context.obj({
+        Type: 'Outlines',
+        First: itemRefs[0],
+        Last: itemRefs[itemRefs.length - 1],
+        Count: itemRefs.length
+    }));
+
+    document.catalog.set(PDFName.of('Outlines'), outlinesRef);
+    document.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
+
+export function sanitizeText(font: PDFFont, text: string): string {
+    // The standard fonts only support a limited set of characters
+    const characterSet = new Set(font.getCharacterSet());
+    return [...text.replace(/\s+/g, ' ')]
+        .filter(char => characterSet.has(char.codePointAt(0) as number))
+        .join('');
+}
+
+function addOutlineItems(document: PDFDocument, levels: RangeHierarchy[], parentRef: PDFRef,
+                         pagesByItemId: Map<string, PDFPage>): PDFRef[] {
+    // Ranges without any of the included pages are left out of the outline
+    const entries = levels
+        .map(level => ({level, page: getFirstPage(level, pagesByItemId)}))
+        .filter(entry => entry.page !== null) as { level: RangeHierarchy, page: PDFPage }[];
+    const refs = entries.map(_ => document.context.nextRef());
+
+    entries.forEach(({level, page}, i) => {
+        const childRefs = addOutlineItems(document, level.children, refs[i], pagesByItemId);
+        const dict = document.context.obj({
+            Title: PDFHexString.fromText(level.range.label),
+            Parent: parentRef,
+            Dest: [page.ref, 'Fit']
+        });
+
+        if (i > 0)
+            dict.set(PDFName.of('Prev'), refs[i - 1]);
+        if (i < refs.length - 1)
+            dict.set(PDFName.of('Next'), refs[i + 1]);
+
+        // A negative count marks the entry as closed
+        if (childRefs.length > 0) {
+            dict.set(PDFName.of('First'), childRefs[0]);
+            dict.set(PDFName.of('Last'), childRefs[childRefs.length - 1]);
+            dict.set(PDFName.of('Count'), document.context.obj(-childRefs.length));
+        }
+
+        document.context.assign(refs[i], dict);
+    });
+
+    return refs;
+}
+
+function getFirstPage(level: RangeHierarchy, pagesByItemId: Map<string, PDFPage>): PDFPage | null {
+    const items = [...level.items].sort((a, b) => (a.order || 0) - (b.order || 0));
+    const page = items.map(item => pagesByItemId.get(item.id)).find(page => page !== undefined);
+    if (page)
+        return page;
+
+    return level.children.reduce<PDFPage | null>((acc, child) =>
+        acc || getFirstPage(child, pagesByItemId), null);
+}
+
+function getAuthors(item: Item): string[] {
+    return item.authors.flatMap(author => Array.isArray(author.name) ? author.name : [author.name]);
+}
+
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+    return text.split(' ').reduce<string[]>((lines, word) => {
+        const line = lines.length > 0 ? `${lines[lines.length - 1]} ${word}` : word;
+        if (lines.length > 0 && font.widthOfTextAtSize(line, size) <= maxWidth)
+            lines[lines.length - 1] = line;
+        else
+            lines.push(word);
+
+        return lines;
+    }, []);
+}
+
+function getXmp(rootItem: RootItem, md: BasicIIIFMetadata, authors: string[], creationDate: Date): string {
+    const escape = (str: string) => str
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+    const list = (type: 'Seq' | 'Bag', values: string[]) =>
+        `<rdf:${type}>${values.map(value => `<rdf:li>${escape(value)}</rdf:li>`).join('')}</rdf:${type}>`;
+    const langAlt = (value: string) => `<rdf:Alt><rdf:li xml:lang="x-default">${escape(value)}</rdf:li></rdf:Alt>`;
+
+    return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+        xmlns:dc="http://purl.org/dc/elements/1.1/"
+        xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+        xmlns:pdf="http://ns.adobe.com/pdf/1.3/">
+      <dc:format>application/pdf</dc:format>
+      <dc:title>${langAlt(rootItem.label)}</dc:title>
+      ${authors.length > 0 ? `<dc:creator>${list('Seq', authors)}</dc:creator>` : ''}
+      ${rootItem.description ? `<dc:description>${langAlt(rootItem.description)}</dc:description>` : ''}
+      ${rootItem.formats.length > 0 ? `<dc:subject>${list('Bag', rootItem.formats)}</dc:subject>` : ''}
+      ${rootItem.dates.length > 0 ? `<dc:date>${list('Seq', rootItem.dates)}</dc:date>` : ''}
+      ${md.rights ? `<dc:rights>${langAlt(md.rights)}</dc:rights>` : ''}
+      ${md.homepage.length > 0 ? `<dc:identifier>${escape(md.homepage[0].id)}</dc:identifier>` : ''}
+      ${rootItem.formats.length > 0 ? `<pdf:Keywords>${escape(rootItem.formats.join(', '))}</pdf:Keywords>` : ''}
+      ${config.attribution ? `<pdf:Producer>${escape(config.attribution)}</pdf:Producer>` : ''}
+      <xmp:CreateDate>${creationDate.toISOString()}</xmp:CreateDate>
+      <xmp:ModifyDate>${new Date().toISOString()}</xmp:ModifyDate>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
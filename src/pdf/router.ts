@@ -1,19 +1,40 @@
 import Router from '@koa/router';
 import {DefaultState} from 'koa';
+import {createReadStream, existsSync} from 'fs';
 
 import logger from '../lib/Logger.js';
 import config from '../lib/Config.js';
+import {runTask} from '../lib/Task.js';
+import {getItem} from '../lib/Item.js';
 import HttpError from '../lib/HttpError.js';
+import {hasWorkers} from '../lib/Worker.js';
 import {ExtendedContext} from '../lib/Koa.js';
-import {getVolatileClient} from '../lib/Redis.js';
-import {ImageItem, RootItem} from '../lib/ItemInterfaces.js';
-import {getChildItems, getItem} from '../lib/Item.js';
+import {workersRunning} from '../lib/Service.js';
+import {PdfParams} from '../lib/ServiceTypes.js';
+import {RootItem} from '../lib/ItemInterfaces.js';
+import {getTextsForCollectionId, withTexts} from '../lib/Text.js';
+import {getPersistentClient, getVolatileClient} from '../lib/Redis.js';
 import {AccessState, hasAccess, getIpAddress, hasAdminAccess} from '../lib/Security.js';
+import {getLastModified, setCacheHeaders} from '../lib/ConditionalGet.js';
 
 import createPDF from './pdfCreation.js';
+import {getPdfJob, getPdfJobId, getPdfPageItems, getPdfPath, updatePdfJob} from './pdfJobs.js';
 
 export const router = new Router<DefaultState, ExtendedContext>({prefix: '/pdf'});
 
+router.get('/job/:jobId', async ctx => {
+    logger.info(`Received a request for the status of a pdf job with id ${ctx.params.jobId}`);
+
+    const job = await getPdfJob(ctx.params.jobId);
+    if (!job)
+        throw new HttpError(404, `No pdf job found with id ${ctx.params.jobId}`);
+
+    ctx.set('Cache-Control', 'no-store');
+    ctx.body = job;
+
+    logger.info(`Sending the status of a pdf job with id ${ctx.params.jobId}`);
+});
+
 router.get('/:id', async ctx => {
     logger.info(`Received a request for a pdf with id ${ctx.params.id}`);
 
@@ -31,40 +52,97 @@ router.get('/:id', async ctx => {
             ? [ctx.query.pages]
             : [];
 
-    const pages = pagesRaw
+    const pages = ctx.query.pages ? pagesRaw
         .map(page => parseInt(page))
-        .filter(page => !isNaN(page));
+        .filter(page => !isNaN(page)) : null;
 
-    const children = (await getChildItems(item))
-        .filter(item => item.type === 'image')
-        .filter(item => item.order && (!ctx.query.pages || pages.includes(item.order))) as ImageItem[];
+    const text = ctx.queryFirst('text') || null;
+    if (text && text !== 'transcription')
+        throw new HttpError(400, 'Only a text layer with the transcription is supported');
 
+    const children = await getPdfPageItems(item, pages);
     if (children.length === 0)
         throw new HttpError(400, `Not able to produce pdf for manifest with id ${ctx.params.id}`);
 
-    if (!hasAdminAccess(ctx) && config.pdfPagesThreshold && config.pdfSessionSeconds
-        && children.length > config.pdfPagesThreshold) {
-        const client = getVolatileClient();
-        const ip = getIpAddress(ctx);
-
-        if (client) {
-            const result = await client.set(`pdf:${ip}`, ip, {EX: config.pdfSessionSeconds, NX: true});
-            if (!result) {
-                const minutes = Math.ceil(config.pdfSessionSeconds / 60);
-                throw new HttpError(429,
-                    `You can only request one large PDF every ${minutes} minutes. Please try again later.`);
-            }
-        }
+    const jobId = getPdfJobId(item, pages, text, access.tier, await getLastModified(item));
+    const path = getPdfPath(item, jobId);
+
+    // Without a worker to pick up a job, the pdf is produced right away
+    if (!existsSync(path) && !await hasPdfWorker()) {
+        await limitLargePdfs(ctx, children.length);
+
+        logger.info(`No pdf worker available; producing a pdf with id ${ctx.params.id} right away`);
+
+        const texts = text ? await withTexts(getTextsForCollectionId(item.id, text)) : [];
+        await createPDF(item as RootItem, children, path, access.tier, texts);
+    }
+
+    if (existsSync(path)) {
+        if (await setCacheHeaders(ctx, item, access, {etag: jobId}))
+            return;
+
+        ctx.set('Content-Type', 'application/pdf');
+        ctx.set('Content-Disposition', `attachment; filename="${item.id}.pdf"`);
+        ctx.body = createReadStream(path);
+
+        logger.info(`Sending a pdf with id ${ctx.params.id}`);
+        return;
     }
 
-    logger.info(`Start producing a pdf with id ${ctx.params.id}`);
+    let job = await getPdfJob(jobId);
+    if (!job || job.status === 'failed' || job.status === 'done') {
+        await limitLargePdfs(ctx, children.length);
+
+        logger.info(`Start producing a pdf with id ${ctx.params.id} in job ${jobId}`);
+
+        const status = {
+            status: 'waiting',
+            pagesDone: 0,
+            pagesTotal: children.length,
+            download: getDownloadUrl(ctx.path, pages, text)
+        } as const;
 
-    const pdf = await createPDF(item as RootItem, children, access.tier);
+        await updatePdfJob(jobId, status);
+        job = {id: jobId, ...status};
 
-    ctx.set('Content-Type', 'application/pdf');
-    ctx.set('Content-Disposition', `attachment; filename="${item.id}.pdf"`);
-    ctx.body = pdf;
+        runTask<PdfParams>('pdf', {jobId, rootId: item.id, pages, text, tier: access.tier});
+    }
+
+    ctx.status = 202;
+    ctx.set('Location', `${config.baseUrl}/pdf/job/${job.id}`);
+    ctx.set('Cache-Control', 'no-store');
+    ctx.body = job;
 
-    logger.info(`Sending a pdf with id ${ctx.params.id}`);
+    logger.info(`Sending the status of the pdf job ${jobId} for a pdf with id ${ctx.params.id}`);
 });
 
+async function hasPdfWorker(): Promise<boolean> {
+    return getPersistentClient() !== null && ('pdf' in workersRunning || await hasWorkers('pdf'));
+}
+
+async function limitLargePdfs(ctx: ExtendedContext, pagesTotal: number): Promise<void> {
+    if (hasAdminAccess(ctx) || !config.pdfPagesThreshold || !config.pdfSessionSeconds
+        || pagesTotal <= config.pdfPagesThreshold)
+        return;
+
+    const client = getVolatileClient();
+    const ip = getIpAddress(ctx);
+
+    if (client) {
+        const result = await client.set(`pdf:${ip}`, ip, {EX: config.pdfSessionSeconds, NX: true});
+        if (!result) {
+            const minutes = Math.ceil(config.pdfSessionSeconds / 60);
+            throw new HttpError(429,
+                `You can only request one large PDF every ${minutes} minutes. Please try again later.`);
+        }
+    }
+}
+
+function getDownloadUrl(path: string, pages: number[] | null, text: string | null): string {
+    const params = new URLSearchParams();
+    pages?.forEach(page => params.append('pages', String(page)));
+    text && params.set('text', text);
+
+    const query = params.toString();
+    return config.baseUrl + path + (query ? `?${query}` : '');
+}
@@ -4,77 +4,210 @@ import {DefaultState} from 'koa';
 import logger from '../lib/Logger.js';
 import {cache} from '../lib/Cache.js';
 import {getItem} from '../lib/Item.js';
-import {getText} from '../lib/Text.js';
+import {getText, Text} from '../lib/Text.js';
 import HttpError from '../lib/HttpError.js';
 import {ExtendedContext} from '../lib/Koa.js';
-import {AccessState, hasAccess} from '../lib/Security.js';
+import {Item} from '../lib/ItemInterfaces.js';
+import {Access, AccessState, hasAccess} from '../lib/Security.js';
+import {getLastModified, hash, setCacheHeaders, setValidators, Validators} from '../lib/ConditionalGet.js';
 
-import {getAnnotationPage, getCollection, getManifest, isCollection, isManifest} from '../builder/PresentationBuilder.js';
+import {
+    getAnnotationPage, getCollection, getManifest, getAnnotationListV2, getCollectionV2, getManifestV2,
+    getCanvas, getRange, getLegacyRangeId, getAnnotation, getAnnotationCollection, isCollection, isManifest
+} from '../builder/PresentationBuilder.js';
 
-import {setContent} from './util.js';
+import {getPresentationVersion, PresentationVersion, setContent} from './util.js';
 import {router as routerTop} from './router-top.js';
 
 export const router = new Router<DefaultState, ExtendedContext>({prefix: '/iiif/presentation'});
 
+// All documents are negotiated on the Accept header, which a 304 has to state as well
+router.use(async (ctx, next) => {
+    ctx.vary('Accept');
+    await next();
+});
+
 router.use(routerTop.routes());
 
-router.get('/collection/:id', async ctx => {
-    logger.info(`Received a request for a IIIF collection with id ${ctx.params.id}`);
+// Register the Presentation API 2.1 routes first, so they take precedence over the Presentation API 3.0 routes
+for (const version of [2, 3] as PresentationVersion[]) {
+    const path = version === 2 ? '/v2' : '';
+
+    router.get(`${path}/collection/:id`, async ctx => {
+        logger.info(`Received a request for a IIIF collection with id ${ctx.params.id}`);
+
+        const item = await getItem(ctx.params.id);
+        if (!item || !isCollection(item))
+            throw new HttpError(404, `No collection found with id ${ctx.params.id}`);
+
+        const presentationVersion = getPresentationVersion(ctx, version);
+        const access = await hasAccess(ctx, item, true);
+
+        const getVersionedCollection = presentationVersion === 2 ? getCollectionV2 : getCollection;
+        if (access.state === AccessState.CLOSED) {
+            await setCacheHeaders(ctx, item, access);
+            ctx.status = 401;
+            setContent(ctx, await getVersionedCollection(item, access), presentationVersion);
+            return;
+        }
+
+        const collection = await cache(presentationVersion === 2 ? 'collection-v2' : 'collection',
+            item.collection_id, item.id, async () => getVersionedCollection(item, access));
+        if (await setCacheHeaders(ctx, item, access, await getValidators(item, collection)))
+            return;
+
+        setContent(ctx, collection, presentationVersion);
+
+        logger.info(`Sending a IIIF collection with id ${ctx.params.id}`);
+    });
+
+    router.get(`${path}/:id/manifest`, async ctx => {
+        logger.info(`Received a request for a IIIF manifest with id ${ctx.params.id}`);
+
+        const item = await getItem(ctx.params.id);
+        if (!item || !isManifest(item))
+            throw new HttpError(404, `No manifest found with id ${ctx.params.id}`);
+
+        const presentationVersion = getPresentationVersion(ctx, version);
+        const access = await hasAccess(ctx, item, true);
+
+        const manifest = presentationVersion === 2
+            ? await cache('manifest-v2', item.collection_id, item.id, async () => getManifestV2(item, access))
+            : await cache('manifest', item.collection_id, item.id, async () => getManifest(item, access));
+        if (await setCacheHeaders(ctx, item, access, await getValidators(item, manifest)))
+            return;
+
+        setContent(ctx, manifest, presentationVersion);
+
+        logger.info(`Sending a IIIF manifest with id ${ctx.params.id}`);
+    });
+
+    router.get(`${path}/:id/${version === 2 ? 'list' : 'annopage'}/:annoPageId`, async ctx => {
+        logger.info(`Received a request for a IIIF annotation page with id ${ctx.params.id} and annotation page id ${ctx.params.annoPageId}`);
+
+        const item = await getItem(ctx.params.id);
+        if (!item || !isManifest(item))
+            throw new HttpError(404, `No manifest found for id ${ctx.params.id}`);
+
+        const text = await getText(ctx.params.annoPageId);
+        if (!text)
+            throw new HttpError(404, `No annotation page found with id ${ctx.params.annoPageId} in manifest with id ${ctx.params.id}`);
+
+        const presentationVersion = getPresentationVersion(ctx, version);
+
+        const annoPage = presentationVersion === 2
+            ? await cache('annolist-v2', item.collection_id, text.id, async () => getAnnotationListV2(item, text))
+            : await cache('annopage', item.collection_id, text.id, async () => getAnnotationPage(item, text));
+        if (setValidators(ctx, await getValidators(text, annoPage)))
+            return;
+
+        setContent(ctx, annoPage, presentationVersion);
+
+        logger.info(`Sending a IIIF annotation page with id ${ctx.params.id} and annotation page id ${ctx.params.annoPageId}`);
+    });
+}
+
+router.get('/annocoll/:id/:type/:language?', async ctx => {
+    logger.info(`Received a request for a IIIF annotation collection with id ${ctx.params.id} and type ${ctx.params.type}`);
 
     const item = await getItem(ctx.params.id);
-    if (!item || !isCollection(item))
-        throw new HttpError(404, `No collection found with id ${ctx.params.id}`);
+    if (!item || !isManifest(item))
+        throw new HttpError(404, `No manifest found for id ${ctx.params.id}`);
+
+    const annoCollection = await getAnnotationCollection(item, ctx.params.type, ctx.params.language || null);
+    if (!annoCollection)
+        throw new HttpError(404, `No annotation collection found with type ${ctx.params.type} in manifest with id ${ctx.params.id}`);
 
-    const access = await hasAccess(ctx, item, true);
-    if (access.state === AccessState.CLOSED) {
-        ctx.status = 401;
-        setContent(ctx, await getCollection(item, access));
+    if (setValidators(ctx, await getValidators(item, annoCollection)))
         return;
-    }
 
-    setContent(
-        ctx,
-        await cache('collection', item.collection_id, item.id,
-            async () => getCollection(item, access))
-    );
+    setContent(ctx, annoCollection);
 
-    logger.info(`Sending a IIIF collection with id ${ctx.params.id}`);
+    logger.info(`Sending a IIIF annotation collection with id ${ctx.params.id} and type ${ctx.params.type}`);
 });
 
-router.get('/:id/manifest', async ctx => {
-    logger.info(`Received a request for a IIIF manifest with id ${ctx.params.id}`);
+router.get('/:id/canvas/:page', async ctx => {
+    logger.info(`Received a request for a IIIF canvas with id ${ctx.params.id} and page ${ctx.params.page}`);
 
-    const item = await getItem(ctx.params.id);
-    if (!item || !isManifest(item))
-        throw new HttpError(404, `No manifest found with id ${ctx.params.id}`);
+    const [item, access] = await getManifestItem(ctx);
+    const manifest = await getCachedManifest(item, access);
+    const canvas = manifest && getCanvas(item, manifest, parseInt(ctx.params.page));
+    if (!canvas)
+        throw new HttpError(404, `No canvas found with page ${ctx.params.page} in manifest with id ${ctx.params.id}`);
 
-    const access = await hasAccess(ctx, item, true);
+    if (await setCacheHeaders(ctx, item, access, await getValidators(item, canvas)))
+        return;
 
-    setContent(
-        ctx,
-        await cache('manifest', item.collection_id, item.id,
-            async () => getManifest(item, access))
-    );
+    setContent(ctx, canvas);
 
-    logger.info(`Sending a IIIF manifest with id ${ctx.params.id}`);
+    logger.info(`Sending a IIIF canvas with id ${ctx.params.id} and page ${ctx.params.page}`);
 });
 
-router.get('/:id/annopage/:annoPageId', async ctx => {
-    logger.info(`Received a request for a IIIF annotation page with id ${ctx.params.id} and annotation page id ${ctx.params.annoPageId}`);
+router.get('/:id/range/:range', async ctx => {
+    logger.info(`Received a request for a IIIF range with id ${ctx.params.id} and range ${ctx.params.range}`);
+
+    const [item, access] = await getManifestItem(ctx);
+    const manifest = await getCachedManifest(item, access);
+    const range = manifest && getRange(item, manifest, ctx.params.range);
+
+    // Ranges used to be identified by a number, so redirect these to the range with a stable id
+    if (!range && /^\d+$/.test(ctx.params.range)) {
+        const rangeId = await getLegacyRangeId(item, parseInt(ctx.params.range));
+        if (rangeId) {
+            ctx.status = 301;
+            ctx.redirect(`/iiif/presentation/${item.id}/range/${encodeURIComponent(rangeId)}`);
+            return;
+        }
+    }
+
+    if (!range)
+        throw new HttpError(404, `No range found with id ${ctx.params.range} in manifest with id ${ctx.params.id}`);
+
+    if (await setCacheHeaders(ctx, item, access, await getValidators(item, range)))
+        return;
+
+    setContent(ctx, range);
 
+    logger.info(`Sending a IIIF range with id ${ctx.params.id} and range ${ctx.params.range}`);
+});
+
+router.get('/:id/annotation/:childId/:page', async ctx => {
+    logger.info(`Received a request for a IIIF annotation with id ${ctx.params.id} and child id ${ctx.params.childId}`);
+
+    const [item, access] = await getManifestItem(ctx);
+    const manifest = await getCachedManifest(item, access);
+
+    // The annotations of a text are found on the annotation page of that text
+    const text = await getText(ctx.params.childId);
+    const annoPage = text && text.collection_id === item.id
+        ? await cache('annopage', item.collection_id, text.id, async () => getAnnotationPage(item, text))
+        : undefined;
+
+    const annotation = manifest && getAnnotation(item, manifest, ctx.params.childId, parseInt(ctx.params.page), annoPage);
+    if (!annotation)
+        throw new HttpError(404, `No annotation found with child id ${ctx.params.childId} in manifest with id ${ctx.params.id}`);
+
+    if (await setCacheHeaders(ctx, item, access, await getValidators(item, annotation)))
+        return;
+
+    setContent(ctx, annotation);
+
+    logger.info(`Sending a IIIF annotation with id ${ctx.params.id} and child id ${ctx.params.childId}`);
+});
+
+async function getManifestItem(ctx: ExtendedContext): Promise<[Item, Access]> {
     const item = await getItem(ctx.params.id);
     if (!item || !isManifest(item))
         throw new HttpError(404, `No manifest found for id ${ctx.params.id}`);
 
-    const text = await getText(ctx.params.annoPageId);
-    if (!text)
-        throw new HttpError(404, `No annotation page found with id ${ctx.params.annoPageId} in manifest with id ${ctx.params.id}`);
+    return [item, await hasAccess(ctx, item, true)];
+}
 
-    setContent(
-        ctx,
-        await cache('annopage', item.collection_id, text.id,
-            async () => getAnnotationPage(item, text))
-    );
+async function getCachedManifest(item: Item, access: Access) {
+    return cache('manifest', item.collection_id, item.id, async () => getManifest(item, access));
+}
 
-    logger.info(`Sending a IIIF annotation page with id ${ctx.params.id} and annotation page id ${ctx.params.annoPageId}`);
-});
+// A document also changes when the items it describes are updated, so it is validated on its content as well
+async function getValidators(item: Item | Text, content: object | null): Promise<Validators> {
+    return {lastModified: await getLastModified(item), etag: `"${hash(content)}"`};
+}
@@ -1,10 +1,32 @@
 import {Context} from 'koa';
-import {Manifest, Collection, AnnotationPage} from '@archival-iiif/presentation-builder/v3';
+import {
+    Manifest, Collection, AnnotationPage, AnnotationCollection, Canvas, Range, Annotation
+} from '@archival-iiif/presentation-builder/v3';
+import {Collection as CollectionV2, AnnotationList} from '@archival-iiif/presentation-builder/v2';
 
-export function setContent(ctx: Context, jsonDoc: Manifest | Collection | AnnotationPage | null): void {
+import {Manifest as ManifestV2} from '../builder/PresentationV2.js';
+
+export type PresentationVersion = 2 | 3;
+
+export function getPresentationVersion(ctx: Context, version: PresentationVersion = 3): PresentationVersion {
+    // Allow clients to request a Presentation API 2.1 document on the default routes using the profile parameter
+    const accept = ctx.get('Accept');
+    if (version === 3 && accept.includes('http://iiif.io/api/presentation/2/context.json'))
+        return 2;
+
+    return version;
+}
+
+type PresentationDocument = Manifest | Collection | AnnotationPage | AnnotationCollection | Canvas | Range |
+    Annotation | ManifestV2 | CollectionV2 | AnnotationList;
+
+export function setContent(ctx: Context, jsonDoc: PresentationDocument | null,
+                           version: PresentationVersion = 3): void {
     if (jsonDoc === null)
         return;
 
+    ctx.vary('Accept');
+
     switch (ctx.accepts('application/ld+json', 'application/json')) {
         case 'application/json':
             ctx.body = jsonDoc;
@@ -13,6 +35,6 @@ export function setContent(ctx: Context, jsonDoc: Manifest | Collection | Annota
         case 'application/ld+json':
         default:
             ctx.body = jsonDoc;
-            ctx.set('Content-Type', 'application/ld+json;profile=http://iiif.io/api/presentation/3/context.json');
+            ctx.set('Content-Type', `application/ld+json;profile=http://iiif.io/api/presentation/${version}/context.json`);
     }
 }
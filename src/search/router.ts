@@ -5,15 +5,33 @@ import HttpError from '../lib/HttpError.js';
 import {Item} from '../lib/ItemInterfaces.js';
 import {ExtendedContext} from '../lib/Koa.js';
 import {getChildItems, getItem} from '../lib/Item.js';
+import {AccessState, hasAccess} from '../lib/Security.js';
 import {Text, getText, getTextsForCollectionId, withTexts} from '../lib/Text.js';
 
-import {getSearch, getAutocomplete} from '../builder/PresentationBuilder.js';
-import {searchInCollection, searchInText, autoCompleteForCollection, autocompleteForText} from './search.js';
+import {
+    getSearch,
+    getAutocomplete,
+    getSearchV2,
+    getAutocompleteV2,
+    getSearchCollection,
+    getItemSearchCollection
+} from '../builder/PresentationBuilder.js';
+import {
+    SearchPaging,
+    searchInCollection,
+    searchInText,
+    searchInAllCollections,
+    searchItems,
+    autoCompleteForCollection,
+    autocompleteForText
+} from './search.js';
+
+type SearchVersion = 1 | 2;
 
 export const router = new Router<DefaultState, ExtendedContext>({prefix: '/iiif/search'});
 
-const ignored = (query: { [key: string]: any }) =>
-    Object.keys(query).filter(key => ['motivation', 'date', 'user'].includes(key));
+const ignored = (query: { [key: string]: any }, supported: string[] = []) =>
+    Object.keys(query).filter(key => ['motivation', 'date', 'user'].includes(key) && !supported.includes(key));
 
 router.use(async (ctx, next) => {
     if (!ctx.queryFirst('q'))
@@ -21,65 +39,149 @@ router.use(async (ctx, next) => {
     await next();
 });
 
-router.get('/:id', async ctx => {
-    const item = await getItem(ctx.params.id);
-    const text = await getText(ctx.params.id);
-    if (!item && !text)
-        throw new HttpError(404, `No item found for id ${ctx.params.id}`);
+router.get('/', async ctx => {
+    const filters = {
+        type: ctx.queryFirst('type'),
+        language: ctx.queryFirst('language'),
+        collection_id: ctx.queryFirst('collection_id'),
+        access: ctx.queryFirst('access')
+    };
+
+    // Collections the user has no access to are never listed, as that would disclose that they match the query
+    if (filters.access && ![AccessState.OPEN, AccessState.TIERED].includes(filters.access as AccessState))
+        throw new HttpError(400, `Invalid access state ${filters.access}!`);
+
+    const items = new Map<string, Item>();
+    const isAccessible = async (collectionId: string): Promise<boolean> => {
+        const item = await getItem(collectionId);
+        if (!item)
+            return false;
+
+        const access = await hasAccess(ctx, item);
+        if (access.state === AccessState.CLOSED || (filters.access && access.state !== filters.access))
+            return false;
+
+        items.set(item.id, item);
+        return true;
+    };
+
+    const {page} = getPaging(ctx);
+    const searchResults = await searchInAllCollections(ctx.queryFirst('q') as string, {
+        type: filters.type,
+        language: filters.language,
+        collectionIdPrefix: filters.collection_id
+    }, isAccessible, page);
 
-    const id = item ? item.collection_id : (text as Text).id;
-    const items = item ? await getChildItems(item) : [await getItem((text as Text).item_id) as Item];
+    ctx.set('Content-Type', 'application/json');
+    ctx.body = await getSearchCollection(searchResults, Array.from(items.values()),
+        ctx.queryFirst('q') as string, filters);
+});
+
+router.get('/items', async ctx => {
+    const filters = {
+        formats: ctx.queryFirst('formats'),
+        type: ctx.queryFirst('type'),
+        dates: ctx.queryFirst('dates'),
+        author_types: ctx.queryFirst('author_types')
+    };
 
-    const searchResults = item
-        ? await searchInCollection(ctx.queryFirst('q') as string, id)
-        : await searchInText(ctx.queryFirst('q') as string, id);
+    const {page} = getPaging(ctx);
+    const searchResults = await searchItems(ctx.queryFirst('q') as string, filters, page);
 
     ctx.set('Content-Type', 'application/json');
-    ctx.body = getSearch(searchResults, ctx.queryFirst('q') as string, ignored(ctx.query), items, id);
+    ctx.body = await getItemSearchCollection(searchResults, ctx.queryFirst('q') as string, filters);
 });
 
-router.get('/:id/:type(/:language)?', async ctx => {
-    const texts = await withTexts(getTextsForCollectionId(ctx.params.id, ctx.params.type, ctx.params.language));
-    if (!texts || texts.length === 0)
-        throw new HttpError(404,
-            `No text found of type ${ctx.params.type} and language ${ctx.params.language} for item with id ${ctx.params.id}`);
+// Register the Search API 2.0 routes first, so they take precedence over the Search API 1.0 routes
+for (const version of [2, 1] as SearchVersion[]) {
+    const path = version === 2 ? '/v2' : '';
 
-    const collectionItem = await getItem(ctx.params.id);
-    const items = await getChildItems(collectionItem as Item);
+    router.get(`${path}/autocomplete/:id`, async ctx => {
+        const item = await getItem(ctx.params.id);
+        const text = await getText(ctx.params.id);
+        if (!item && !text)
+            throw new HttpError(404, `No item found for id ${ctx.params.id}`);
 
-    const searchResults = await searchInCollection(
-        ctx.queryFirst('q') as string, texts[0].collection_id, texts[0].type, texts[0].language);
+        const autocompleteResult = item
+            ? await autoCompleteForCollection(ctx.queryFirst('q') as string, item.collection_id)
+            : await autocompleteForText(ctx.queryFirst('q') as string, text ? text.id : '');
 
-    ctx.set('Content-Type', 'application/json');
-    ctx.body = getSearch(searchResults, ctx.queryFirst('q') as string, ignored(ctx.query),
-        items, texts[0].collection_id, texts[0].type, texts[0].language);
-});
+        const getAutocompleteForVersion = version === 2 ? getAutocompleteV2 : getAutocomplete;
 
-router.get('/autocomplete/:id', async ctx => {
-    const item = await getItem(ctx.params.id);
-    const text = await getText(ctx.params.id);
-    if (!item && !text)
-        throw new HttpError(404, `No item found for id ${ctx.params.id}`);
+        ctx.set('Content-Type', 'application/json');
+        ctx.body = getAutocompleteForVersion(autocompleteResult, ctx.queryFirst('q') as string, ignored(ctx.query),
+            item ? item.collection_id : (text ? text.id : ''));
+    });
 
-    const autocompleteResult = item
-        ? await autoCompleteForCollection(ctx.queryFirst('q') as string, item.collection_id)
-        : await autocompleteForText(ctx.queryFirst('q') as string, text ? text.id : '');
+    router.get(`${path}/autocomplete/:id/:type(/:language)?`, async ctx => {
+        const texts = await withTexts(getTextsForCollectionId(ctx.params.id, ctx.params.type, ctx.params.language));
+        if (!texts || texts.length === 0)
+            throw new HttpError(404,
+                `No text found of type ${ctx.params.type} and language ${ctx.params.language} for item with id ${ctx.params.id}`);
 
-    ctx.set('Content-Type', 'application/json');
-    ctx.body = getAutocomplete(autocompleteResult, ctx.queryFirst('q') as string, ignored(ctx.query),
-        item ? item.collection_id : (text ? text.id : ''));
-});
+        const autocompleteResult = await autoCompleteForCollection(
+            ctx.queryFirst('q') as string, texts[0].collection_id, texts[0].type, texts[0].language);
 
-router.get('/autocomplete/:id/:type(/:language)?', async ctx => {
-    const texts = await withTexts(getTextsForCollectionId(ctx.params.id, ctx.params.type, ctx.params.language));
-    if (!texts || texts.length === 0)
-        throw new HttpError(404,
-            `No text found of type ${ctx.params.type} and language ${ctx.params.language} for item with id ${ctx.params.id}`);
+        const getAutocompleteForVersion = version === 2 ? getAutocompleteV2 : getAutocomplete;
 
-    const autocompleteResult = await autoCompleteForCollection(
-        ctx.queryFirst('q') as string, texts[0].collection_id, texts[0].type, texts[0].language);
+        ctx.set('Content-Type', 'application/json');
+        ctx.body = getAutocompleteForVersion(autocompleteResult, ctx.queryFirst('q') as string, ignored(ctx.query),
+            texts[0].collection_id, texts[0].type, texts[0].language);
+    });
 
-    ctx.set('Content-Type', 'application/json');
-    ctx.body = getAutocomplete(autocompleteResult, ctx.queryFirst('q') as string, ignored(ctx.query),
-        texts[0].collection_id, texts[0].type, texts[0].language);
-});
+    router.get(`${path}/:id`, async ctx => {
+        const item = await getItem(ctx.params.id);
+        const text = await getText(ctx.params.id);
+        if (!item && !text)
+            throw new HttpError(404, `No item found for id ${ctx.params.id}`);
+
+        const id = item ? item.collection_id : (text as Text).id;
+        const items = item ? await getChildItems(item) : [await getItem((text as Text).item_id) as Item];
+
+        const searchResults = item
+            ? await searchInCollection(ctx.queryFirst('q') as string, id, getPaging(ctx),
+                undefined, undefined, getMotivations(ctx))
+            : await searchInText(ctx.queryFirst('q') as string, id, getPaging(ctx), getMotivations(ctx));
+
+        const getSearchForVersion = version === 2 ? getSearchV2 : getSearch;
+
+        ctx.set('Content-Type', 'application/json');
+        ctx.body = getSearchForVersion(searchResults, ctx.queryFirst('q') as string,
+            ignored(ctx.query, ['motivation']), items, id);
+    });
+
+    router.get(`${path}/:id/:type(/:language)?`, async ctx => {
+        const texts = await withTexts(getTextsForCollectionId(ctx.params.id, ctx.params.type, ctx.params.language));
+        if (!texts || texts.length === 0)
+            throw new HttpError(404,
+                `No text found of type ${ctx.params.type} and language ${ctx.params.language} for item with id ${ctx.params.id}`);
+
+        const collectionItem = await getItem(ctx.params.id);
+        const items = await getChildItems(collectionItem as Item);
+
+        const searchResults = await searchInCollection(ctx.queryFirst('q') as string,
+            texts[0].collection_id, getPaging(ctx), texts[0].type, texts[0].language, getMotivations(ctx));
+
+        const getSearchForVersion = version === 2 ? getSearchV2 : getSearch;
+
+        ctx.set('Content-Type', 'application/json');
+        ctx.body = getSearchForVersion(searchResults, ctx.queryFirst('q') as string, ignored(ctx.query, ['motivation']),
+            items, texts[0].collection_id, texts[0].type, texts[0].language);
+    });
+}
+
+function getMotivations(ctx: ExtendedContext): string[] | undefined {
+    const motivations = ctx.queryFirst('motivation')?.split(/\s+/)
+        .filter(motivation => motivation.length > 0)
+        .map(motivation => motivation.replace(/^(oa|sc):/, ''));
+
+    return motivations && motivations.length > 0 ? motivations : undefined;
+}
+
+function getPaging(ctx: ExtendedContext): SearchPaging {
+    const page = ctx.queryFirst('page') ? Number(ctx.queryFirst('page')) : 0;
+    if (!Number.isInteger(page) || page < 0)
+        throw new HttpError(400, `Invalid page ${ctx.queryFirst('page')}!`);
+
+    return {page, after: ctx.queryFirst('after')};
+}
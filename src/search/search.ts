@@ -1,15 +1,83 @@
 import {Text} from '../lib/Text.js';
 import config from '../lib/Config.js';
+import {Item} from '../lib/ItemInterfaces.js';
 import getClient from '../lib/ElasticSearch.js';
-import {getWordsFromStructure, TextWord} from '../lib/TextStructure.js';
+import {UserAnnotation} from '../lib/UserAnnotation.js';
+import {getWordsFromStructure, TextStructure, TextWord} from '../lib/TextStructure.js';
+
+import {
+    AggregationsAggregate,
+    AggregationsStringTermsAggregate,
+    AggregationsStringTermsBucket,
+    QueryDslQueryContainer,
+    SearchResponse,
+    Sort,
+    SortResults
+} from '@elastic/elasticsearch/lib/api/types.js';
 
 const PRE_TAG = '{{{', POST_TAG = '}}}';
+const SORT: Sort = [{_score: {order: 'desc'}}, {id: {order: 'asc'}}];
+
+// The indexed texts are published as annotations with these motivations
+const TEXT_MOTIVATIONS = ['painting', 'supplementing'];
 
-export interface SearchResult {
+// Files with an order are the pages of a manifest and cannot be referenced on their own
+const FILE_TYPES = ['file', 'pdf', 'image', 'audio', 'video'];
+
+export interface SearchResults {
+    results: SearchResult[],
+    total: number,
+    page: number,
+    pages: number,
+    next?: string
+}
+
+export type SearchResult = {
     text: Text,
+    annotation?: undefined,
+    matches: SearchResultMatch[]
+} | {
+    text?: undefined,
+    annotation: UserAnnotation,
     matches: SearchResultMatch[]
+};
+
+export interface SearchPaging {
+    page: number,
+    after?: string
 }
 
+export interface CollectionSearchResults {
+    results: CollectionSearchResult[],
+    total: number,
+    page: number,
+    pages: number
+}
+
+export interface CollectionSearchResult {
+    collectionId: string,
+    hits: number,
+    snippets: string[]
+}
+
+export interface CollectionSearchFilters {
+    type?: string,
+    language?: string,
+    collectionIdPrefix?: string
+}
+
+export interface ItemSearchResults {
+    items: Item[],
+    total: number,
+    page: number,
+    pages: number,
+    facets: ItemSearchFacets
+}
+
+export type ItemSearchFacet = 'formats' | 'type' | 'dates' | 'author_types';
+export type ItemSearchFacets = { [facet in ItemSearchFacet]: { value: string, count: number }[] };
+export type ItemSearchFilters = { [facet in ItemSearchFacet]?: string };
+
 export interface SearchResultMatch {
     match: string,
     before: string,
@@ -17,17 +85,192 @@ export interface SearchResultMatch {
     words: TextWord[]
 }
 
-export async function searchInCollection(query: string, collectionId: string,
-                                         type?: string, language?: string | null): Promise<SearchResult[]> {
+export async function searchInCollection(query: string, collectionId: string, paging: SearchPaging,
+                                         type?: string, language?: string | null,
+                                         motivations?: string[]): Promise<SearchResults> {
+    // User annotations have no type or language, so only search these when not searching a specific text type
+    const indices = type
+        ? [config.elasticSearchIndexTexts]
+        : [config.elasticSearchIndexTexts, config.elasticSearchIndexAnnotations];
+
     return search(query, {
         collection_id: collectionId,
         type,
         language: language || undefined
+    }, paging, indices, motivations);
+}
+
+export async function searchInText(query: string, textId: string, paging: SearchPaging,
+                                   motivations?: string[]): Promise<SearchResults> {
+    return search(query, {id: textId}, paging, [config.elasticSearchIndexTexts], motivations);
+}
+
+export async function searchInAllCollections(query: string, {type, language, collectionIdPrefix}: CollectionSearchFilters,
+                                             isAccessible: (collectionId: string) => Promise<boolean>,
+                                             page: number): Promise<CollectionSearchResults> {
+    query = query.trim();
+
+    const isPhraseMatch = query.startsWith('"') && query.endsWith('"');
+    query = isPhraseMatch ? query.substring(1, query.length - 1) : query;
+
+    const match: QueryDslQueryContainer = {
+        [isPhraseMatch ? 'match_phrase' : 'match']: {
+            text: {
+                query,
+                fuzziness: !isPhraseMatch ? 'AUTO' : undefined
+            }
+        }
+    };
+
+    const filters: QueryDslQueryContainer[] = [];
+    if (type)
+        filters.push({term: {type}});
+    if (language)
+        filters.push({term: {language}});
+    if (collectionIdPrefix)
+        filters.push({prefix: {collection_id: collectionIdPrefix}});
+
+    // Access is determined per collection, so first find all matching collections to page over the accessible ones
+    const response = await getClient().search<Pick<Text, 'collection_id'>>({
+        index: config.elasticSearchIndexTexts,
+        size: config.maxSearchResults,
+        _source: ['collection_id'],
+        query: {bool: {must: match, should: undefined, filter: filters}},
+        collapse: {field: 'collection_id'}
     });
+
+    const collectionIds: string[] = [];
+    for (const hit of response.hits.hits) {
+        const collectionId = hit._source?.collection_id as string;
+        if (await isAccessible(collectionId))
+            collectionIds.push(collectionId);
+    }
+
+    const pageCollectionIds = collectionIds.slice(
+        page * config.searchResultsPerPage, (page + 1) * config.searchResultsPerPage);
+
+    return {
+        results: await getCollectionSearchResults(match, filters, pageCollectionIds),
+        total: collectionIds.length,
+        page,
+        pages: Math.ceil(collectionIds.length / config.searchResultsPerPage)
+    };
 }
 
-export async function searchInText(query: string, textId: string): Promise<SearchResult[]> {
-    return search(query, {id: textId});
+async function getCollectionSearchResults(match: QueryDslQueryContainer, filters: QueryDslQueryContainer[],
+                                          collectionIds: string[]): Promise<CollectionSearchResult[]> {
+    if (collectionIds.length === 0)
+        return [];
+
+    // Collapse all matching texts into one hit per collection, the snippets are taken from the best matching text
+    const response = await getClient().search<Pick<Text, 'collection_id'>>({
+        index: config.elasticSearchIndexTexts,
+        size: collectionIds.length,
+        _source: ['collection_id'],
+        query: {bool: {must: match, should: undefined, filter: [...filters, {terms: {collection_id: collectionIds}}]}},
+        collapse: {
+            field: 'collection_id',
+            inner_hits: {
+                name: 'texts',
+                size: 0
+            }
+        },
+        highlight: {
+            type: 'unified',
+            fragment_size: 150,
+            number_of_fragments: 3,
+            pre_tags: [''],
+            post_tags: [''],
+            fields: {
+                text: {}
+            }
+        }
+    });
+
+    const results = response.hits.hits.map(hit => {
+        const texts = hit.inner_hits?.texts.hits.total;
+        return {
+            collectionId: hit._source?.collection_id as string,
+            hits: typeof texts === 'number' ? texts : texts?.value || 0,
+            snippets: hit.highlight?.text || []
+        };
+    });
+
+    return collectionIds
+        .map(collectionId => results.find(result => result.collectionId === collectionId))
+        .filter(result => result !== undefined) as CollectionSearchResult[];
+}
+
+export async function searchItems(query: string, filters: ItemSearchFilters,
+                                  page: number): Promise<ItemSearchResults> {
+    const filter: QueryDslQueryContainer[] = [];
+
+    if (filters.formats)
+        filter.push({term: {formats: filters.formats}});
+    if (filters.type)
+        filter.push({term: {type: filters.type}});
+    if (filters.dates)
+        filter.push({term: {dates: filters.dates}});
+    if (filters.author_types)
+        filter.push({nested: {path: 'authors', query: {term: {'authors.type': filters.author_types}}}});
+
+    const response = await getClient().search<Item>({
+        index: config.elasticSearchIndexItems,
+        from: page * config.searchResultsPerPage,
+        size: config.searchResultsPerPage,
+        track_total_hits: true,
+        query: {
+            bool: {
+                should: [
+                    {multi_match: {query, fields: ['label^3', 'description']}},
+                    {nested: {path: 'authors', query: {match: {'authors.name': query}}}},
+                    {term: {metadata: query}},
+                    {term: {dates: query}}
+                ],
+                minimum_should_match: 1,
+                must_not: [
+                    {term: {type: 'range'}},
+                    {
+                        bool: {
+                            filter: {exists: {field: 'order'}},
+                            should: FILE_TYPES.map(type => ({term: {type}})),
+                            minimum_should_match: 1
+                        }
+                    }
+                ],
+                filter
+            }
+        },
+        aggs: {
+            formats: {terms: {field: 'formats'}},
+            type: {terms: {field: 'type'}},
+            dates: {terms: {field: 'dates'}},
+            authors: {
+                nested: {path: 'authors'},
+                aggs: {
+                    author_types: {terms: {field: 'authors.type'}}
+                }
+            }
+        }
+    });
+
+    const aggregations = response.aggregations || {};
+    const authors = aggregations.authors as { author_types?: AggregationsAggregate } | undefined;
+
+    const total = typeof response.hits.total === 'number' ? response.hits.total : response.hits.total?.value || 0;
+
+    return {
+        items: response.hits.hits.map(hit => hit._source as Item),
+        total,
+        page,
+        pages: Math.ceil(total / config.searchResultsPerPage),
+        facets: {
+            formats: mapBuckets(aggregations.formats),
+            type: mapBuckets(aggregations.type),
+            dates: mapBuckets(aggregations.dates),
+            author_types: mapBuckets(authors?.author_types)
+        }
+    };
 }
 
 export async function autoCompleteForCollection(query: string, collectionId: string,
@@ -43,31 +286,60 @@ export async function autocompleteForText(query: string, textId: string): Promis
     return autocomplete(query, {id: textId});
 }
 
-async function search(query: string, filters: { [field: string]: string | undefined }): Promise<SearchResult[]> {
+async function search(query: string, filters: { [field: string]: string | undefined },
+                      {page, after}: SearchPaging, indices: string[],
+                      motivations?: string[]): Promise<SearchResults> {
     query = query.trim();
 
     const isPhraseMatch = query.startsWith('"') && query.endsWith('"');
     query = isPhraseMatch ? query.substring(1, query.length - 1) : query;
 
-    const response = await getClient().search<Text>({
-        index: config.elasticSearchIndexTexts,
-        size: config.maxSearchResults,
-        query: {
+    // Texts have no motivation of their own, so these are only included if one of the text motivations is requested
+    if (motivations) {
+        indices = indices.filter(index => index !== config.elasticSearchIndexTexts
+            || motivations.some(motivation => TEXT_MOTIVATIONS.includes(motivation)));
+        if (indices.length === 0)
+            return {results: [], total: 0, page, pages: 0};
+    }
+
+    const filter: QueryDslQueryContainer[] = [{term: filters}];
+    if (motivations)
+        filter.push({
             bool: {
-                must: {
-                    [isPhraseMatch ? 'match_phrase' : 'match']: {
-                        text: {
-                            query,
-                            fuzziness: !isPhraseMatch ? 'AUTO' : undefined
-                        }
+                should: [
+                    {terms: {motivation: motivations}},
+                    {term: {_index: config.elasticSearchIndexTexts}}
+                ]
+            }
+        });
+
+    const esQuery: QueryDslQueryContainer = {
+        bool: {
+            must: {
+                [isPhraseMatch ? 'match_phrase' : 'match']: {
+                    text: {
+                        query,
+                        fuzziness: !isPhraseMatch ? 'AUTO' : undefined
                     }
-                },
-                should: undefined,
-                filter: {
-                    term: filters
                 }
-            }
-        },
+            },
+            should: undefined,
+            filter
+        }
+    };
+
+    // A cursor is only provided when following a 'next' link, otherwise find the cursor of the requested page
+    const searchAfter = (page > 0) ? (decodeCursor(after) || await findCursor(indices, esQuery, page)) : undefined;
+    if (page > 0 && !searchAfter)
+        return {results: [], total: 0, page, pages: 0};
+
+    const response = await getClient().search<Text | UserAnnotation>({
+        index: indices,
+        size: config.searchResultsPerPage,
+        track_total_hits: true,
+        query: esQuery,
+        sort: SORT,
+        search_after: searchAfter,
         highlight: {
             type: 'unified',
             number_of_fragments: 0,
@@ -79,10 +351,66 @@ async function search(query: string, filters: { [field: string]: string | undefi
         }
     });
 
-    return response.hits.hits.map(hit => ({
-        text: hit._source as Text,
-        matches: mapMatches(hit._source as Text, hit.highlight?.text[0] || '', isPhraseMatch ? query : null)
-    }));
+    const hits = response.hits.hits;
+    const total = typeof response.hits.total === 'number' ? response.hits.total : response.hits.total?.value || 0;
+    const pages = Math.ceil(total / config.searchResultsPerPage);
+    const hasNext = hits.length === config.searchResultsPerPage && page + 1 < pages;
+
+    return {
+        results: hits.map(hit => {
+            const matches = (structure: TextStructure | null) =>
+                mapMatches(structure, hit.highlight?.text[0] || '', isPhraseMatch ? query : null);
+
+            return hit._index === config.elasticSearchIndexAnnotations
+                ? {annotation: hit._source as UserAnnotation, matches: matches(null)}
+                : {text: hit._source as Text, matches: matches((hit._source as Text).structure)};
+        }),
+        total,
+        page,
+        pages,
+        next: hasNext ? encodeCursor(hits[hits.length - 1].sort as SortResults) : undefined
+    };
+}
+
+async function findCursor(indices: string[], query: QueryDslQueryContainer,
+                          page: number): Promise<SortResults | undefined> {
+    let searchAfter: SortResults | undefined = undefined;
+    for (let curPage = 0; curPage < page; curPage++) {
+        const response: SearchResponse = await getClient().search({
+            index: indices,
+            size: config.searchResultsPerPage,
+            _source: false,
+            track_total_hits: false,
+            query,
+            sort: SORT,
+            search_after: searchAfter
+        });
+
+        const hits = response.hits.hits;
+        if (hits.length < config.searchResultsPerPage)
+            return undefined;
+
+        searchAfter = hits[hits.length - 1].sort;
+    }
+
+    return searchAfter;
+}
+
+function encodeCursor(sort: SortResults): string {
+    return Buffer.from(JSON.stringify(sort)).toString('base64url');
+}
+
+function decodeCursor(cursor?: string): SortResults | undefined {
+    if (!cursor)
+        return undefined;
+
+    try {
+        const sort = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+        return Array.isArray(sort) ? sort : undefined;
+    }
+    catch (err) {
+        return undefined;
+    }
 }
 
 async function autocomplete(query: string, filters: { [field: string]: string | undefined }): Promise<Set<string>> {
@@ -131,9 +459,9 @@ async function autocomplete(query: string, filters: { [field: string]: string |
     }, new Set<string>());
 }
 
-function mapMatches(text: Text, hl: string, matchExact: string | null): SearchResultMatch[] {
+function mapMatches(structure: TextStructure | null, hl: string, matchExact: string | null): SearchResultMatch[] {
     const matches: SearchResultMatch[] = [];
-    const words = text.structure ? getWordsFromStructure(text.structure) : [];
+    const words = structure ? getWordsFromStructure(structure) : [];
     const tokens = hl
         .split(/[\t\r\n\s]+/)
         .filter(token => token.length > 0);
@@ -175,6 +503,13 @@ function mapMatches(text: Text, hl: string, matchExact: string | null): SearchRe
     return matches;
 }
 
+function mapBuckets(aggregation?: AggregationsAggregate): { value: string, count: number }[] {
+    const buckets = (aggregation as AggregationsStringTermsAggregate | undefined)?.buckets;
+    return Array.isArray(buckets)
+        ? buckets.map((bucket: AggregationsStringTermsBucket) => ({value: String(bucket.key), count: bucket.doc_count}))
+        : [];
+}
+
 function getHighlightedWord(token: string): string {
     return token.replace(PRE_TAG, '').replace(POST_TAG, '');
 }
@@ -4,5 +4,6 @@ import {EmptyParams, MetadataParams} from '../lib/ServiceTypes.js';
 
 export default async function allMetadataUpdate(noParams?: EmptyParams): Promise<void> {
     for await (const item of getAllRootItems())
-        runTask<MetadataParams>('metadata', {metadataId: item.metadata_id});
+        runTask<MetadataParams>('metadata', {metadataId: item.metadata_id},
+            {priority: 'bulk', dedupeKey: item.metadata_id});
 }
@@ -14,14 +14,16 @@ export default async function processReindex({collectionIds, query}: ReindexPara
         });
 
         for await (const item of scrollItems)
-            runTask<CollectionPathParams>('index', {collectionPath: getPathForItem(item)});
+            runTask<CollectionPathParams>('index', {collectionPath: getPathForItem(item)},
+                {priority: 'bulk', dedupeKey: getPathForItem(item)});
     }
 
     if (collectionIds) {
         for (const collectionId of collectionIds) {
             const items = await getItemsSearch(`parent_id:"${collectionId}"`, 1);
             for (const item of items)
-                runTask<CollectionPathParams>('index', {collectionPath: getPathForItem(item)});
+                runTask<CollectionPathParams>('index', {collectionPath: getPathForItem(item)},
+                {priority: 'bulk', dedupeKey: getPathForItem(item)});
         }
     }
 }
@@ -37,5 +37,5 @@ async function startIndexForNewCollection(path: string): Promise<void> {
 
     await move(path, newPath);
     logger.info(`Moved collection from hot folder ${path} to ${newPath}; sending index task to queue`);
-    runTask<CollectionPathParams>('index', {collectionPath: newPath});
+    runTask<CollectionPathParams>('index', {collectionPath: newPath}, {dedupeKey: newPath});
 }
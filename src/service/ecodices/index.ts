@@ -2,6 +2,7 @@ import {parse} from 'path';
 
 import logger from '../../lib/Logger.js';
 import {runTask} from '../../lib/Task.js';
+import {fireWebhooks} from '../../lib/Webhook.js';
 import {createItem, indexItems} from '../../lib/Item.js';
 import {ImageItem, RangeItem} from '../../lib/ItemInterfaces.js';
 import {CollectionPathParams, MetadataParams} from '../../lib/ServiceTypes.js';
@@ -23,7 +24,8 @@ export default async function processForIndex({collectionPath}: CollectionPathPa
 
         logger.debug(`Collection ${collectionPath} indexed; running metadata index`);
 
-        runTask<MetadataParams>('metadata', {collectionId: rootItem.id});
+        runTask<MetadataParams>('metadata', {collectionId: rootItem.id}, {dedupeKey: rootItem.id});
+        fireWebhooks('index.succeeded', {collection_id: rootItem.id, collection_path: collectionPath});
     }
     catch (e: any) {
         const err = new Error(`Failed to index the collection ${collectionPath}: ${e.message}`);
@@ -32,6 +34,10 @@ export default async function processForIndex({collectionPath}: CollectionPathPa
     }
 }
 
+export async function onFailure({collectionPath}: CollectionPathParams, err: Error): Promise<void> {
+    fireWebhooks('index.failed', {collection_path: collectionPath, error: err.message});
+}
+
 function processItems(collectionId: string, childItems: ImageItem[]): RangeItem[] {
     const rangeItems: RangeItem[] = [];
     for (const childItem of childItems)
@@ -7,6 +7,7 @@ import logger from '../../lib/Logger.js';
 import config from '../../lib/Config.js';
 import {MetadataParams} from '../../lib/ServiceTypes.js';
 import {readFileAsync} from '../../lib/Promisified.js';
+import {fireWebhooks} from '../../lib/Webhook.js';
 import {getChildItems, getItem, updateItems} from '../../lib/Item.js';
 import {Item, Metadata, MinimalItem} from '../../lib/ItemInterfaces.js';
 
@@ -36,6 +37,8 @@ export default async function processMetadata({metadataId, collectionId}: Metada
 
             await updateWithMetadataId(metadataId);
         }
+
+        fireWebhooks('metadata.succeeded', {collection_id: collectionId || null, metadata_id: metadataId || null});
     }
     catch (e: any) {
         const err = new Error(`Failed to process the metadata for ${metadataId}: ${e.message}`);
@@ -44,6 +47,11 @@ export default async function processMetadata({metadataId, collectionId}: Metada
     }
 }
 
+export async function onFailure({metadataId, collectionId}: MetadataParams, err: Error): Promise<void> {
+    fireWebhooks('metadata.failed',
+        {collection_id: collectionId || null, metadata_id: metadataId || null, error: err.message});
+}
+
 async function findMetadataIdByCollectionId(id: string): Promise<string | null> {
     const rl = readline.createInterface({
         input: createReadStream(join(config.metadataPath as string, 'mapping.csv'))
@@ -2,6 +2,7 @@ import {Element} from 'libxmljs2';
 
 import logger from '../../lib/Logger.js';
 import {indexItems} from '../../lib/Item.js';
+import {fireWebhooks} from '../../lib/Webhook.js';
 import {CollectionPathParams} from '../../lib/ServiceTypes.js';
 
 import {cleanup, runTasks} from '../util/index_utils.js';
@@ -39,7 +40,8 @@ export default async function processDip({collectionPath}: CollectionPathParams)
 
         logger.debug(`Collection ${collectionPath} indexed; running metadata index, text index and derivative services`);
 
-        runTasks(rootItem.id, childItems, textItems);
+        const jobId = await runTasks(rootItem.id, childItems, textItems);
+        fireWebhooks('index.succeeded', {collection_id: rootItem.id, collection_path: collectionPath, job_id: jobId});
     }
     catch (e: any) {
         const err = new Error(`Failed to index the collection ${collectionPath}: ${e.message}`);
@@ -47,3 +49,7 @@ export default async function processDip({collectionPath}: CollectionPathParams)
         throw err;
     }
 }
+
+export async function onFailure({collectionPath}: CollectionPathParams, err: Error): Promise<void> {
+    fireWebhooks('index.failed', {collection_path: collectionPath, error: err.message});
+}
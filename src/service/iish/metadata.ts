@@ -5,6 +5,7 @@ import config from '../../lib/Config.js';
 import logger from '../../lib/Logger.js';
 import {MinimalItem} from '../../lib/ItemInterfaces.js';
 import {MetadataParams} from '../../lib/ServiceTypes.js';
+import {fireWebhooks} from '../../lib/Webhook.js';
 import {updateItems, getCollectionsByMetadataId, getCollectionIdsIndexed} from '../../lib/Item.js';
 
 import * as EAD from './util/EAD.js';
@@ -27,6 +28,8 @@ export default async function processMetadata({metadataId, rootId, collectionId}
 
         if (metadataId)
             await updateWithIdentifier(metadataId, collectionId);
+
+        fireWebhooks('metadata.succeeded', {collection_id: collectionId || null, metadata_id: metadataId || null});
     }
     catch (e: any) {
         const err = new Error(`Failed to process the metadata for ${collectionId}: ${e.message}`);
@@ -35,6 +38,11 @@ export default async function processMetadata({metadataId, rootId, collectionId}
     }
 }
 
+export async function onFailure({metadataId, collectionId}: MetadataParams, err: Error): Promise<void> {
+    fireWebhooks('metadata.failed',
+        {collection_id: collectionId || null, metadata_id: metadataId || null, error: err.message});
+}
+
 export async function getOAIIdentifier(collectionId: string): Promise<string | null> {
     const rootId = EAD.getRootId(collectionId);
     if (collectionId.includes('ARCH') || collectionId.includes('COLL'))
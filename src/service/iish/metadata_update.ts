@@ -18,7 +18,8 @@ export default async function updateMetadata(): Promise<void> {
     try {
         const fromDate = dayjs().subtract(5, 'day').format('YYYY-MM-DD');
         for (const oaiIdentifier of await getOAIIdentifiersOfUpdated(fromDate, config.metadataOaiUrl))
-            runTask<MetadataParams>('metadata', {metadataId: oaiIdentifier});
+            runTask<MetadataParams>('metadata', {metadataId: oaiIdentifier},
+                {priority: 'bulk', dedupeKey: oaiIdentifier});
     }
     catch (err: any) {
         logger.error(`Failed to run the recurring update metadata procedure: ${err.message}`, {err});
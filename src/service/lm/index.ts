@@ -1,4 +1,5 @@
 import { indexItems } from '../../lib/Item.js';
+import { fireWebhooks } from '../../lib/Webhook.js';
 import logger from '../../lib/Logger.js';
 import { CollectionPathParams } from '../../lib/ServiceTypes.js';
 
@@ -45,7 +46,8 @@ export default async function processDip({ collectionPath }: CollectionPathParam
         for (const entry of reassignedItems) {
             await cleanup(entry.rootItem.id);
             await indexItems([entry.rootItem, ...entry.childItems]);
-            runTasks(entry.rootItem.id, entry.childItems, entry.textItems);
+            const jobId = await runTasks(entry.rootItem.id, entry.childItems, entry.textItems);
+            fireWebhooks('index.succeeded', { collection_id: entry.rootItem.id, collection_path: collectionPath, job_id: jobId });
         }
 
         logger.debug(`Collection ${collectionPath} indexed; running metadata index, text index and derivative services`);
@@ -57,6 +59,10 @@ export default async function processDip({ collectionPath }: CollectionPathParam
     }
 }
 
+export async function onFailure({ collectionPath }: CollectionPathParams, err: Error): Promise<void> {
+    fireWebhooks('index.failed', { collection_path: collectionPath, error: err.message });
+}
+
 
 async function reassignRootItems(collectionPath: string, customStructMapId: string, rootItem: Item, childItems: Item[], textItems: TextItem[]): Promise<CollectionProcessingResult[]> {
     const metsFile = (await readdirAsync(collectionPath)).find(file => file.startsWith('METS') && file.endsWith('xml'));
@@ -0,0 +1,36 @@
+import {getItem} from '../lib/Item.js';
+import {RootItem} from '../lib/ItemInterfaces.js';
+import {PdfParams} from '../lib/ServiceTypes.js';
+import {getTextsForCollectionId, withTexts} from '../lib/Text.js';
+
+import createPDF from '../pdf/pdfCreation.js';
+import {getPdfPageItems, getPdfPath, updatePdfJob} from '../pdf/pdfJobs.js';
+
+export default async function processPdf({jobId, rootId, pages, text, tier}: PdfParams): Promise<void> {
+    try {
+        const rootItem = await getItem(rootId);
+        if (!rootItem || rootItem.type !== 'root')
+            throw new Error(`No root item found with id ${rootId}`);
+
+        const items = await getPdfPageItems(rootItem, pages);
+        const texts = text ? await withTexts(getTextsForCollectionId(rootItem.id, text)) : [];
+        await updatePdfJob(jobId, {status: 'working', pagesDone: 0, pagesTotal: items.length});
+
+        await createPDF(rootItem as RootItem, items, getPdfPath(rootItem, jobId), tier, texts,
+            async pagesDone => updatePdfJob(jobId, {pagesDone}));
+
+        await updatePdfJob(jobId, {status: 'done'});
+    }
+    catch (e: any) {
+        // The job is only marked as failed once the task is not retried anymore
+        await updatePdfJob(jobId, {status: 'waiting', pagesDone: 0});
+
+        const err = new Error(`Failed to create the pdf for ${rootId}: ${e.message}`);
+        err.stack = e.stack;
+        throw err;
+    }
+}
+
+export async function onFailure({jobId}: PdfParams): Promise<void> {
+    await updatePdfJob(jobId, {status: 'failed'});
+}
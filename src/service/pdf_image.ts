@@ -1,6 +1,7 @@
 import derivatives from '../lib/Derivative.js';
 import {getChildItemsByType} from '../lib/Item.js';
 import {CollectionIdParams} from '../lib/ServiceTypes.js';
+import {fireWebhooks} from '../lib/Webhook.js';
 
 import {createDerivativeWithCommand} from './util/derivative_creation.js';
 
@@ -12,6 +13,8 @@ export default async function processPDFItems({collectionId}: CollectionIdParams
                 (input, output) =>
                     `gs -dBATCH -dNOPAUSE -sDEVICE=jpeg -dJPEGQ=97 -r200 -sOutputFile=${output} ${input}`);
         }
+
+        fireWebhooks('derivative.succeeded', {collection_id: collectionId, type: 'pdf-image'});
     }
     catch (e: any) {
         const err = new Error(`Failed to process the pdf items for ${collectionId}: ${e.message}`);
@@ -19,3 +22,7 @@ export default async function processPDFItems({collectionId}: CollectionIdParams
         throw err;
     }
 }
+
+export async function onFailure({collectionId}: CollectionIdParams, err: Error): Promise<void> {
+    fireWebhooks('derivative.failed', {collection_id: collectionId, type: 'pdf-image', error: err.message});
+}
@@ -12,5 +12,6 @@ export default async function processUpdate({type, query}: ProcessUpdateParams):
     });
 
     for await (const item of scrollItems)
-        runTask<MetadataParams | CollectionIdParams>(type, {collectionId: item.collection_id});
+        runTask<MetadataParams | CollectionIdParams>(type, {collectionId: item.collection_id},
+            {priority: 'bulk', dedupeKey: item.collection_id});
 }
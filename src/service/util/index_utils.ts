@@ -1,9 +1,12 @@
-import {runTask} from '../../lib/Task.js';
+import {JobTask, runJob} from '../../lib/Task.js';
 import {evictCache} from '../../lib/Cache.js';
 import {deleteItems} from '../../lib/Item.js';
 import {Item} from '../../lib/ItemInterfaces.js';
 import {CollectionIdParams, MetadataParams, TextItem, TextParams} from '../../lib/ServiceTypes.js';
 import {deleteTexts} from '../../lib/Text.js';
+import {setIndexedAt} from '../../lib/ConditionalGet.js';
+import {purgePdfs} from '../../pdf/pdfJobs.js';
+import {purgeImageCache} from '../../image/imageCache.js';
 
 export async function cleanup(id: string): Promise<void> {
     await Promise.all([
@@ -11,21 +14,32 @@ export async function cleanup(id: string): Promise<void> {
         deleteTexts(id),
         evictCache('collection', id),
         evictCache('manifest', id),
-        evictCache('annopage', id)
+        evictCache('annopage', id),
+        evictCache('collection-v2', id),
+        evictCache('manifest-v2', id),
+        evictCache('annolist-v2', id),
+        purgeImageCache(id),
+        purgePdfs(id),
+        setIndexedAt(id)
     ]);
 }
 
-export function runTasks(collectionId: string, items: Item[], textItems: TextItem[]): void {
-    runTask<MetadataParams>('metadata', {collectionId});
+export async function runTasks(collectionId: string, items: Item[], textItems: TextItem[]): Promise<string | null> {
+    const tasks: JobTask[] = [
+        {type: 'metadata', task: {collectionId} as MetadataParams, options: {dedupeKey: collectionId}}
+    ];
 
     // Run derivative services
     if (items.find(item => item.type === 'audio'))
-        runTask<CollectionIdParams>('waveform', {collectionId});
+        tasks.push({type: 'waveform', task: {collectionId} as CollectionIdParams, options: {dedupeKey: collectionId}});
     if (items.find(item => item.type === 'pdf'))
-        runTask<CollectionIdParams>('pdf-image', {collectionId});
+        tasks.push({type: 'pdf-image', task: {collectionId} as CollectionIdParams, options: {dedupeKey: collectionId}});
     if (items.find(item => item.type === 'video'))
-        runTask<CollectionIdParams>('video-image', {collectionId});
+        tasks.push({type: 'video-image', task: {collectionId} as CollectionIdParams, options: {dedupeKey: collectionId}});
 
     for (const textItem of textItems)
-        runTask<TextParams>('text', {item: textItem});
+        tasks.push({type: 'text', task: {item: textItem} as TextParams, options: {dedupeKey: textItem.id}});
+
+    // Once all tasks are done, the collection is fully processed
+    return runJob('index', collectionId, tasks, ['evict-cache', 'webhook']);
 }
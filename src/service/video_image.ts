@@ -3,6 +3,7 @@ import derivatives from '../lib/Derivative.js';
 import {VideoItem} from '../lib/ItemInterfaces.js';
 import {getChildItemsByType} from '../lib/Item.js';
 import {CollectionIdParams} from '../lib/ServiceTypes.js';
+import {fireWebhooks} from '../lib/Webhook.js';
 
 import {createDerivativeWithCommand, createDerivativeWithBuffer} from './util/derivative_creation.js';
 import {imageResourceUri} from '../builder/UriHelper.js';
@@ -16,6 +17,8 @@ export default async function processVideoItems({collectionId}: CollectionIdPara
             await createImage(item as VideoItem);
             await createMosaic(item as VideoItem);
         }
+
+        fireWebhooks('derivative.succeeded', {collection_id: collectionId, type: 'video-image'});
     }
     catch (e: any) {
         const err = new Error(`Failed to process the pdf items for ${collectionId}: ${e.message}`);
@@ -24,6 +27,10 @@ export default async function processVideoItems({collectionId}: CollectionIdPara
     }
 }
 
+export async function onFailure({collectionId}: CollectionIdParams, err: Error): Promise<void> {
+    fireWebhooks('derivative.failed', {collection_id: collectionId, type: 'video-image', error: err.message});
+}
+
 async function createImage(item: VideoItem): Promise<void> {
     const seconds = Math.round(item.duration / 2);
     await createDerivativeWithCommand(item, derivatives['video-image'],
@@ -1,6 +1,7 @@
 import derivatives from '../lib/Derivative.js';
 import {getChildItemsByType} from '../lib/Item.js';
 import {CollectionIdParams} from '../lib/ServiceTypes.js';
+import {fireWebhooks} from '../lib/Webhook.js';
 
 import {createDerivativeWithCommand} from './util/derivative_creation.js';
 
@@ -11,6 +12,8 @@ export default async function processAudioItems({collectionId}: CollectionIdPara
             await createDerivativeWithCommand(item, derivatives.waveform,
                 (input, output) => `audiowaveform -i ${input} -o ${output} -z 256 -b 8`);
         }
+
+        fireWebhooks('derivative.succeeded', {collection_id: collectionId, type: 'waveform'});
     }
     catch (e: any) {
         const err = new Error(`Failed to process the audio items for ${collectionId}: ${e.message}`);
@@ -18,3 +21,7 @@ export default async function processAudioItems({collectionId}: CollectionIdPara
         throw err;
     }
 }
+
+export async function onFailure({collectionId}: CollectionIdParams, err: Error): Promise<void> {
+    fireWebhooks('derivative.failed', {collection_id: collectionId, type: 'waveform', error: err.message});
+}
@@ -0,0 +1,52 @@
+import got, {HTTPError} from 'got';
+
+import config from '../lib/Config.js';
+import logger from '../lib/Logger.js';
+import {WebhookParams} from '../lib/ServiceTypes.js';
+import {recordDelivery, signPayload} from '../lib/Webhook.js';
+
+export default async function deliverWebhook({url, event}: WebhookParams): Promise<void> {
+    const webhook = config.webhooks.find(webhook => webhook.url === url);
+    if (!webhook) {
+        logger.warn(`No webhook configured anymore for ${url}; skipping event '${event.event}'`);
+        return;
+    }
+
+    const payload = JSON.stringify(event);
+    const headers: { [name: string]: string } = {
+        'Content-Type': 'application/json',
+        'X-IIIF-Server-Event': event.event,
+        'X-IIIF-Server-Delivery': event.id
+    };
+    if (webhook.secret)
+        headers['X-IIIF-Server-Signature'] = signPayload(webhook.secret, payload);
+
+    try {
+        // Retries are handled by the task queue
+        const response = await got.post(url, {body: payload, headers, timeout: {request: 10_000}, retry: {limit: 0}});
+        await recordDelivery({
+            id: event.id,
+            url,
+            event: event.event,
+            status: 'delivered',
+            status_code: response.statusCode,
+            error: null,
+            delivered_at: new Date().toISOString()
+        });
+    }
+    catch (e: any) {
+        await recordDelivery({
+            id: event.id,
+            url,
+            event: event.event,
+            status: 'failed',
+            status_code: e instanceof HTTPError ? e.response.statusCode : null,
+            error: e.message,
+            delivered_at: new Date().toISOString()
+        });
+
+        const err = new Error(`Failed to deliver event '${event.event}' to the webhook ${url}: ${e.message}`);
+        err.stack = e.stack;
+        throw err;
+    }
+}
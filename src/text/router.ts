@@ -6,6 +6,7 @@ import {getText} from '../lib/Text.js';
 import logger from '../lib/Logger.js';
 import HttpError from '../lib/HttpError.js';
 import {ExtendedContext} from '../lib/Koa.js';
+import {getLastModified, setValidators} from '../lib/ConditionalGet.js';
 
 const htmlTemplate = readFileSync('src/text/text.html', 'utf8');
 
@@ -18,6 +19,9 @@ router.get('/:id', async ctx => {
     if (!text)
         throw new HttpError(404, `No text found with id ${ctx.params.id}`);
 
+    if (setValidators(ctx, {lastModified: await getLastModified(text)}))
+        return;
+
     const title = text.type === 'transcription' ? 'Transcription' : `Translation ${text.language}`;
 
     ctx.type = 'text/html';
@@ -33,6 +37,9 @@ router.get('/:id/txt', async ctx => {
     if (!text)
         throw new HttpError(404, `No text found with id ${ctx.params.id}`);
 
+    if (setValidators(ctx, {lastModified: await getLastModified(text)}))
+        return;
+
     const type = text.type === 'transcription' ? 'transcription' : text.language;
     ctx.set('Content-Disposition', `attachment; filename="${text.item_id}_${type}_${text.id}.txt`);
 
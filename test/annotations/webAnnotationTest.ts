@@ -0,0 +1,234 @@
+import sinon from 'sinon';
+import * as chai from 'chai';
+
+import HttpError from '../../src/lib/HttpError.js';
+import {setConfig} from '../../src/lib/Config.js';
+import {createItem} from '../../src/lib/Item.js';
+import {Item} from '../../src/lib/ItemInterfaces.js';
+import {setRedisClient} from '../../src/lib/Redis.js';
+import {extendContext, ExtendedContext} from '../../src/lib/Koa.js';
+import {
+    checkCreator, createUserAnnotation, getBodyText, getContainer, getContainerPreference, getIdentitiesForWriting,
+    getMotivations, getTarget
+} from '../../src/annotations/webAnnotation.js';
+
+const expect = chai.expect;
+
+describe('webAnnotation', () => {
+    const manifest = createItem({id: '12345', collection_id: '12345', label: 'Manifest', type: 'root'});
+    const items = [
+        createItem({id: 'a', parent_id: '12345', collection_id: '12345', label: 'a', type: 'image', order: 1}),
+        createItem({id: 'b', parent_id: '12345', collection_id: '12345', label: 'b', type: 'image', order: 2})
+    ] as Item[];
+
+    const annotation = {
+        '@context': 'http://www.w3.org/ns/anno.jsonld',
+        type: 'Annotation',
+        motivation: 'oa:commenting',
+        body: [
+            {type: 'TextualBody', value: 'A letter from', purpose: 'describing'},
+            {type: 'TextualBody', value: 'Amsterdam', purpose: 'tagging'},
+            {id: 'http://example.org/amsterdam', purpose: 'identifying'}
+        ],
+        target: {
+            source: 'http://localhost:3000/iiif/presentation/12345/canvas/2',
+            selector: {type: 'FragmentSelector', value: 'xywh=10,20,30,40'}
+        }
+    };
+
+    describe('#createUserAnnotation()', () => {
+        it('should extract the searchable fields of the annotation', () => {
+            const userAnnotation = createUserAnnotation('abc', annotation, manifest, items);
+
+            expect(userAnnotation).to.deep.include({
+                id: 'abc',
+                manifest_id: '12345',
+                item_id: 'b',
+                collection_id: '12345',
+                motivation: ['commenting', 'describing', 'tagging', 'identifying'],
+                target: 'http://localhost:3000/iiif/presentation/12345/canvas/2#xywh=10,20,30,40',
+                text: 'A letter from Amsterdam'
+            });
+            expect(userAnnotation.annotation.id).to.equal('http://localhost:3000/annotations/12345/abc');
+        });
+
+        it('should keep the creation date and the creator on an update', () => {
+            const existing = createUserAnnotation('abc', annotation, manifest, items, 'creator');
+            const updated = createUserAnnotation('abc', annotation, manifest, items, null,
+                {...existing, created_at: '2020-01-01T00:00:00.000Z'});
+
+            expect(updated.creator).to.equal('creator');
+            expect(updated.created_at).to.equal('2020-01-01T00:00:00.000Z');
+            expect(updated.annotation.created).to.equal('2020-01-01T00:00:00.000Z');
+            expect(updated.annotation.modified).to.equal(updated.modified_at);
+        });
+
+        it('should accept a canvas of the Presentation API 2.1 manifest as target', () => {
+            const v2Target = {...annotation, target: 'http://localhost:3000/iiif/presentation/v2/12345/canvas/1'};
+
+            expect(createUserAnnotation('abc', v2Target, manifest, items).item_id).to.equal('a');
+        });
+
+        it('should reject a target outside of the manifest', () => {
+            const otherTarget = {...annotation, target: 'http://localhost:3000/iiif/presentation/67890/canvas/1'};
+
+            expect(() => createUserAnnotation('abc', otherTarget, manifest, items))
+                .to.throw(HttpError)
+                .with.property('status', 400);
+        });
+
+        it('should reject a body which is not an annotation', () => {
+            expect(() => createUserAnnotation('abc', {type: 'AnnotationPage'}, manifest, items))
+                .to.throw(HttpError)
+                .with.property('status', 400);
+        });
+    });
+
+    describe('write access', () => {
+        const adminAccessToken = 'admin-token';
+
+        const createContext = ({cookie, token}: { cookie?: string, token?: string }): ExtendedContext => {
+            const ctx: unknown = {
+                query: {},
+                request: {body: {}},
+                headers: token ? {authorization: `Bearer ${token}`} : {},
+                cookies: {get: (name: string) => name === 'access' ? cookie : undefined}
+            };
+            extendContext(ctx as ExtendedContext);
+
+            return ctx as ExtendedContext;
+        };
+
+        beforeEach(() => {
+            const get = sinon.stub();
+            get.withArgs('access-token:creator-token').resolves('creator-access');
+            get.withArgs('access-id:creator-access').resolves(JSON.stringify({identities: ['creator'], token: null}));
+            get.withArgs('access-id:other-access').resolves(JSON.stringify({identities: ['other'], token: null}));
+            get.resolves(null);
+
+            setRedisClient({get} as any);
+            setConfig('loginEnabled', true);
+            setConfig('accessToken', adminAccessToken);
+        });
+
+        afterEach(() => {
+            sinon.restore();
+            setRedisClient(null);
+            setConfig('loginEnabled', false);
+        });
+
+        describe('#getIdentitiesForWriting()', () => {
+            it('should resolve the identities of a registered access token', async () => {
+                expect(await getIdentitiesForWriting(createContext({token: 'creator-token'})))
+                    .to.deep.equal(['creator']);
+            });
+
+            it('should refuse an access cookie which is not registered', async () => {
+                let error;
+                try {
+                    await getIdentitiesForWriting(createContext({cookie: 'made-up'}));
+                }
+                catch (err) {
+                    error = err;
+                }
+
+                expect(error).to.be.instanceOf(HttpError).with.property('status', 403);
+            });
+
+            it('should refuse users without authentication enabled', async () => {
+                setConfig('loginEnabled', false);
+                setConfig('externalEnabled', false);
+
+                let error;
+                try {
+                    await getIdentitiesForWriting(createContext({cookie: 'creator-access'}));
+                }
+                catch (err) {
+                    error = err;
+                }
+
+                expect(error).to.be.instanceOf(HttpError).with.property('status', 403);
+            });
+
+            it('should allow the administrator', async () => {
+                expect(await getIdentitiesForWriting(createContext({token: adminAccessToken}))).to.be.empty;
+            });
+        });
+
+        describe('#checkCreator()', () => {
+            const userAnnotation = createUserAnnotation('abc', annotation, manifest, items, 'creator');
+
+            it('should allow the creator to change the annotation', async () => {
+                const ctx = createContext({cookie: 'creator-access'});
+
+                expect(() => checkCreator(ctx, userAnnotation, ['creator'])).to.not.throw();
+            });
+
+            it('should refuse another user to change the annotation', async () => {
+                const ctx = createContext({cookie: 'other-access'});
+
+                expect(() => checkCreator(ctx, userAnnotation, ['other']))
+                    .to.throw(HttpError)
+                    .with.property('status', 403);
+            });
+
+            it('should allow the administrator to change the annotation', () => {
+                const ctx = createContext({token: adminAccessToken});
+
+                expect(() => checkCreator(ctx, userAnnotation, [])).to.not.throw();
+            });
+        });
+    });
+
+    describe('#getMotivations()', () => {
+        it('should return an empty list without motivations', () => {
+            expect(getMotivations({type: 'Annotation', bodyValue: 'Text'})).to.be.empty;
+        });
+    });
+
+    describe('#getBodyText()', () => {
+        it('should return the text of a body value', () => {
+            expect(getBodyText({type: 'Annotation', bodyValue: 'Text'})).to.equal('Text');
+        });
+    });
+
+    describe('#getTarget()', () => {
+        it('should return a target given as an IRI', () => {
+            expect(getTarget({target: ['http://example.org/target']})).to.equal('http://example.org/target');
+        });
+
+        it('should return null without a target', () => {
+            expect(getTarget({})).to.be.null;
+        });
+    });
+
+    describe('#getContainer()', () => {
+        const userAnnotations = {annotations: [createUserAnnotation('abc', annotation, manifest, items)], total: 150};
+
+        it('should embed the first page with the annotations', () => {
+            const container = getContainer('12345', userAnnotations, 'descriptions');
+
+            expect(container.total).to.equal(150);
+            expect(container.last).to.equal('http://localhost:3000/annotations/12345/?page=1');
+            expect(container.first).to.deep.include({
+                id: 'http://localhost:3000/annotations/12345/?page=0',
+                next: 'http://localhost:3000/annotations/12345/?page=1',
+                items: [userAnnotations.annotations[0].annotation]
+            });
+        });
+
+        it('should only refer to the first page in a minimal container', () => {
+            const container = getContainer('12345', userAnnotations,
+                getContainerPreference('return=representation;include="http://www.w3.org/ns/ldp#PreferMinimalContainer"'));
+
+            expect(container.first).to.equal('http://localhost:3000/annotations/12345/?page=0');
+        });
+
+        it('should only list the annotation IRIs if preferred', () => {
+            const container = getContainer('12345', userAnnotations,
+                getContainerPreference('return=representation;include="http://www.w3.org/ns/oa#PreferContainedIRIs"'));
+
+            expect(container.first).to.have.property('items').that.deep.equals(['http://localhost:3000/annotations/12345/abc']);
+        });
+    });
+});
@@ -0,0 +1,95 @@
+import * as chai from 'chai';
+
+import {setConfig} from '../../src/lib/Config.js';
+import {createItem} from '../../src/lib/Item.js';
+import {ImageItem} from '../../src/lib/ItemInterfaces.js';
+import {AccessState} from '../../src/lib/Security.js';
+import {ImplementationService, libsRunning, setLibsRunning} from '../../src/lib/Service.js';
+
+import {AuthService2, getAuthProbeResult, getAuthProbeService} from '../../src/builder/Auth.js';
+
+const expect = chai.expect;
+
+describe('Auth', () => {
+    let originalLibs: { [type: string]: ImplementationService };
+
+    const item = createItem({id: '12345', collection_id: '12345', label: 'Image', type: 'image'}) as ImageItem;
+    const authTexts = {
+        login: {
+            label: 'Login',
+            header: 'Please log in',
+            failureHeader: 'Restricted material',
+            failureDescription: 'You need to log in to view this image'
+        },
+        logout: {label: 'Logout'}
+    };
+
+    beforeEach(() => {
+        originalLibs = libsRunning;
+        setLibsRunning({
+            'auth-texts': {name: 'test', loadService: async () => async () => authTexts}
+        });
+    });
+
+    afterEach(() => {
+        setLibsRunning(originalLibs);
+        setConfig('imageApiVersion', 2);
+    });
+
+    describe('#getAuthProbeService()', () => {
+        it('should offer an active access service with a token and a logout service', async () => {
+            const probeService = await getAuthProbeService(item);
+
+            expect(probeService).to.deep.include({
+                id: 'http://localhost:3000/iiif/auth/probe/12345',
+                type: 'AuthProbeService2'
+            });
+            expect(probeService.service).to.have.lengthOf(1);
+
+            const accessService = probeService.service?.[0] as AuthService2;
+            expect(accessService).to.deep.include({
+                id: 'http://localhost:3000/iiif/auth/login',
+                type: 'AuthAccessService2',
+                profile: 'active',
+                label: {en: ['Login']},
+                heading: {en: ['Please log in']}
+            });
+            expect(accessService.service?.map(service => service.type))
+                .to.deep.equal(['AuthAccessTokenService2', 'AuthLogoutService2']);
+            expect(accessService.service?.[0]).to.deep.include({
+                errorHeading: {en: ['Restricted material']},
+                errorNote: {en: ['You need to log in to view this image']}
+            });
+        });
+    });
+
+    describe('#getAuthProbeResult()', () => {
+        it('should return status 200 for open access', async () => {
+            const probeResult = await getAuthProbeResult(item, {state: AccessState.OPEN});
+
+            expect(probeResult).to.deep.equal({
+                '@context': 'http://iiif.io/api/auth/2/context.json',
+                id: 'http://localhost:3000/iiif/auth/probe/12345',
+                type: 'AuthProbeResult2',
+                status: 200
+            });
+        });
+
+        it('should return status 401 with a substitute for tiered access', async () => {
+            setConfig('imageApiVersion', 3);
+
+            const probeResult = await getAuthProbeResult(item,
+                {state: AccessState.TIERED, tier: {name: 'tiered', maxSize: 500}});
+
+            expect(probeResult).to.deep.include({
+                status: 401,
+                substitute: [{
+                    id: 'http://localhost:3000/iiif/image/v3/12345_tiered/full/max/0/default.jpg',
+                    type: 'Image'
+                }],
+                heading: {en: ['Restricted material']},
+                note: {en: ['You need to log in to view this image']}
+            });
+        });
+    });
+});
@@ -0,0 +1,63 @@
+import * as chai from 'chai';
+
+import {setConfig} from '../../src/lib/Config.js';
+import {createItem} from '../../src/lib/Item.js';
+import {ImageItem} from '../../src/lib/ItemInterfaces.js';
+import {Access, AccessState} from '../../src/lib/Security.js';
+import {ImplementationService, libsRunning, setLibsRunning} from '../../src/lib/Service.js';
+
+import {sharpProfileV3} from '../../src/image/profiles.js';
+import {getInfoV3} from '../../src/builder/Image.js';
+
+const expect = chai.expect;
+
+describe('Image', () => {
+    let originalLibs: { [type: string]: ImplementationService };
+    let access: Access;
+
+    const item = createItem({
+        id: '12345', collection_id: '12345', label: 'Image', type: 'image', width: 2000, height: 1000
+    }) as ImageItem;
+
+    beforeEach(() => {
+        access = {state: AccessState.OPEN};
+        setConfig('loginEnabled', true);
+        originalLibs = libsRunning;
+        setLibsRunning({
+            'access': {name: 'test', loadService: async () => async () => access},
+            'auth-texts': {name: 'test', loadService: async () => async () => ({})}
+        });
+    });
+
+    afterEach(() => {
+        setLibsRunning(originalLibs);
+        setConfig('loginEnabled', false);
+    });
+
+    describe('#getInfoV3()', () => {
+        it('should describe an Image API 3.0 image service', async () => {
+            const info = await getInfoV3(item, null, sharpProfileV3);
+
+            expect(info).to.deep.include({
+                '@context': ['http://iiif.io/api/image/3/context.json'],
+                id: 'http://localhost:3000/iiif/image/v3/12345',
+                type: 'ImageService3',
+                protocol: 'http://iiif.io/api/image',
+                profile: 'level2',
+                width: 2000,
+                height: 1000,
+                extraFormats: sharpProfileV3.extraFormats,
+                extraQualities: sharpProfileV3.extraQualities
+            });
+            expect(info).to.not.have.property('maxWidth');
+        });
+
+        it('should limit the size of a tiered image', async () => {
+            access = {state: AccessState.TIERED, tier: {name: 'tiered', maxSize: 500}};
+
+            const info = await getInfoV3(item, null, sharpProfileV3);
+
+            expect(info).to.deep.include({maxWidth: 500, maxHeight: 250, maxArea: 125000});
+        });
+    });
+});
@@ -0,0 +1,93 @@
+import * as chai from 'chai';
+import {Manifest} from '@archival-iiif/presentation-builder/v3';
+
+import {createItem} from '../../src/lib/Item.js';
+import {Item, RangeItem} from '../../src/lib/ItemInterfaces.js';
+import {getEmbeddedCanvas, getEmbeddedRange, getLegacyRangeId} from '../../src/builder/PresentationUtils.js';
+
+const expect = chai.expect;
+
+describe('PresentationUtils', () => {
+    const createRange = (id: string, parentId?: string) => createItem({
+        id, collection_id: '12345', label: id, type: 'range', parent_id: parentId
+    }) as RangeItem;
+
+    const ranges = [
+        createRange('contents'),
+        createRange('chapter-1', 'contents'),
+        createRange('chapter-2', 'contents'),
+        createRange('endpapers')
+    ];
+
+    const items = [
+        createItem({id: 'a', collection_id: '12345', label: 'a', type: 'image', order: 1, range_ids: ['chapter-1']}),
+        createItem({id: 'b', collection_id: '12345', label: 'b', type: 'image', order: 2, range_ids: ['chapter-2']}),
+        createItem({id: 'c', collection_id: '12345', label: 'c', type: 'image', order: 3, range_ids: ['endpapers']})
+    ] as Item[];
+
+    describe('#getLegacyRangeId()', () => {
+        it('should number the ranges in the order of a depth-first traversal', () => {
+            expect(getLegacyRangeId(items, ranges, 1)).to.equal('contents');
+            expect(getLegacyRangeId(items, ranges, 2)).to.equal('chapter-1');
+            expect(getLegacyRangeId(items, ranges, 3)).to.equal('chapter-2');
+            expect(getLegacyRangeId(items, ranges, 4)).to.equal('endpapers');
+        });
+
+        it('should return null for an unknown number', () => {
+            expect(getLegacyRangeId(items, ranges, 0)).to.be.null;
+            expect(getLegacyRangeId(items, ranges, 5)).to.be.null;
+        });
+    });
+
+    describe('embedded resources', () => {
+        const prefix = 'http://localhost:3000/iiif/presentation/12345';
+        const root = createItem({id: '12345', collection_id: '12345', label: 'Book', type: 'root'});
+        const manifest = {
+            '@context': 'http://iiif.io/api/presentation/3/context.json',
+            id: `${prefix}/manifest`,
+            type: 'Manifest',
+            items: [
+                {id: `${prefix}/canvas/0`, type: 'Canvas'},
+                {id: `${prefix}/canvas/1`, type: 'Canvas'}
+            ],
+            structures: [{
+                id: `${prefix}/range/contents`,
+                type: 'Range',
+                items: [
+                    {id: `${prefix}/canvas/0`, type: 'Canvas'},
+                    {id: `${prefix}/range/chapter-1`, type: 'Range', items: []}
+                ]
+            }]
+        } as unknown as Manifest;
+        const partOf = [{id: `${prefix}/manifest`, type: 'Manifest'}];
+
+        describe('#getEmbeddedCanvas()', () => {
+            it('should return the canvas as part of the manifest', () => {
+                expect(getEmbeddedCanvas(manifest, root, 1)).to.deep.equal({
+                    '@context': 'http://iiif.io/api/presentation/3/context.json',
+                    id: `${prefix}/canvas/1`,
+                    type: 'Canvas',
+                    partOf
+                });
+            });
+
+            it('should return null for an unknown page', () => {
+                expect(getEmbeddedCanvas(manifest, root, 2)).to.be.null;
+            });
+        });
+
+        describe('#getEmbeddedRange()', () => {
+            it('should find a nested range', () => {
+                expect(getEmbeddedRange(manifest, root, 'chapter-1')).to.deep.include({
+                    id: `${prefix}/range/chapter-1`,
+                    type: 'Range',
+                    partOf
+                });
+            });
+
+            it('should return null for an unknown range', () => {
+                expect(getEmbeddedRange(manifest, root, 'chapter-2')).to.be.null;
+            });
+        });
+    });
+});
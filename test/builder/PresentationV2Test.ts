@@ -0,0 +1,41 @@
+import * as chai from 'chai';
+
+import {createItem} from '../../src/lib/Item.js';
+import {AccessState} from '../../src/lib/Security.js';
+import {FileItem} from '../../src/lib/ItemInterfaces.js';
+import {ImplementationService, libsRunning, setLibsRunning} from '../../src/lib/Service.js';
+
+import {getManifest} from '../../src/builder/PresentationV2.js';
+
+const expect = chai.expect;
+
+describe('PresentationV2', () => {
+    let originalLibs: { [type: string]: ImplementationService };
+
+    beforeEach(() => {
+        originalLibs = libsRunning;
+        setLibsRunning({
+            'basic-iiif-metadata': {name: 'test', loadService: async () => async () => ({})},
+            'canvas-iiif-metadata': {name: 'test', loadService: async () => async () => ({})}
+        });
+    });
+
+    afterEach(() => {
+        setLibsRunning(originalLibs);
+    });
+
+    describe('#getManifest()', () => {
+        it('should mint Presentation API 2.1 canvas URIs and give a canvas without a size a default size', async () => {
+            const item = createItem({id: '12345', collection_id: '12345', label: 'File', type: 'file'}) as FileItem;
+
+            const manifest = await getManifest(item, {state: AccessState.OPEN});
+            const canvas = manifest.sequences?.[0].canvases?.[0];
+
+            expect(canvas).to.deep.include({
+                '@id': 'http://localhost:3000/iiif/presentation/v2/12345/canvas/0',
+                width: 1000,
+                height: 1000
+            });
+        });
+    });
+});
@@ -0,0 +1,97 @@
+import * as chai from 'chai';
+
+import {createItem} from '../../src/lib/Item.js';
+import {Item} from '../../src/lib/ItemInterfaces.js';
+import {SearchService2} from '../../src/builder/Digitized.js';
+import {PresentationBuilder} from '../../src/builder/PresentationBuilder.js';
+import {getAnnotationPage, getItemsCollection, getTermPage} from '../../src/builder/Search.js';
+
+const expect = chai.expect;
+
+describe('Search', () => {
+    const items = [
+        createItem({id: 'a', parent_id: '12345', collection_id: '12345', label: 'a', type: 'image', order: 1})
+    ] as Item[];
+
+    const searchResults = {
+        results: [{
+            text: {
+                id: 'text-a', item_id: 'a', collection_id: '12345', type: 'transcription' as const,
+                language: 'en', uri: '', source: 'plain' as const, text: 'Hello world', structure: null
+            },
+            matches: [{match: 'world', before: 'Hello ', after: '', words: []}]
+        }],
+        total: 25,
+        page: 1,
+        pages: 3,
+        next: 'abc'
+    };
+
+    describe('#getAnnotationPage()', () => {
+        const annotationPage = getAnnotationPage(searchResults, 'world', [], items, '12345');
+
+        it('should refer to the other pages of the search results', () => {
+            expect(annotationPage.id).to.equal('http://localhost:3000/iiif/search/v2/12345?q=world&page=1');
+            expect(annotationPage).to.deep.include({
+                prev: {id: 'http://localhost:3000/iiif/search/v2/12345?q=world', type: 'AnnotationPage'},
+                next: {id: 'http://localhost:3000/iiif/search/v2/12345?q=world&page=2&after=abc', type: 'AnnotationPage'}
+            });
+            expect(annotationPage.partOf?.[0]).to.deep.include({
+                total: 25,
+                last: {id: 'http://localhost:3000/iiif/search/v2/12345?q=world&page=2', type: 'AnnotationPage'}
+            });
+        });
+
+        it('should add a hit with the surrounding text for every match', () => {
+            expect(annotationPage.annotations?.[0].items[0].target).to.deep.equal({
+                type: 'SpecificResource',
+                source: 'http://localhost:3000/iiif/search/v2/12345/anno/text-a?q=world',
+                selector: [{type: 'TextQuoteSelector', prefix: 'Hello ', exact: 'world', suffix: ''}]
+            });
+        });
+    });
+
+    describe('#getTermPage()', () => {
+        it('should refer to the search service for every term', () => {
+            const termPage = getTermPage(new Set(['world']), 'wor', [], '12345');
+
+            expect(termPage.items).to.deep.equal([{
+                value: 'world',
+                service: [{id: 'http://localhost:3000/iiif/search/v2/12345?q=world', type: 'SearchService2'}]
+            }]);
+        });
+    });
+
+    describe('#getItemsCollection()', () => {
+        const itemSearchResults = {
+            items: [],
+            total: 250,
+            page: 1,
+            pages: 3,
+            facets: {formats: [], type: [], dates: [], author_types: []}
+        };
+
+        it('should refer to the other pages of the search results with the same filters', async () => {
+            const builder = {getReference: async (_: Item) => null} as unknown as PresentationBuilder;
+            const collection = await getItemsCollection(itemSearchResults, 'world', {type: 'root'}, builder);
+
+            expect(collection.id).to.equal('http://localhost:3000/iiif/search/items?q=world&type=root&page=1');
+            expect(collection).to.deep.include({
+                first: {id: 'http://localhost:3000/iiif/search/items?q=world&type=root', type: 'Collection'},
+                last: {id: 'http://localhost:3000/iiif/search/items?q=world&type=root&page=2', type: 'Collection'},
+                prev: {id: 'http://localhost:3000/iiif/search/items?q=world&type=root', type: 'Collection'},
+                next: {id: 'http://localhost:3000/iiif/search/items?q=world&type=root&page=2', type: 'Collection'}
+            });
+        });
+    });
+
+    describe('SearchService2', () => {
+        it('should come without a profile', () => {
+            const service = new SearchService2('http://localhost:3000/iiif/search/v2/12345', 'SearchService2');
+            expect(JSON.parse(JSON.stringify(service))).to.deep.equal({
+                id: 'http://localhost:3000/iiif/search/v2/12345',
+                type: 'SearchService2'
+            });
+        });
+    });
+});
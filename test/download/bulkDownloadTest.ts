@@ -0,0 +1,122 @@
+import sinon from 'sinon';
+import * as chai from 'chai';
+import {join} from 'path';
+import {tmpdir} from 'os';
+import {Readable} from 'stream';
+import {ReadStream} from 'fs';
+import {createHash} from 'crypto';
+import {mkdtemp, rm, writeFile} from 'fs/promises';
+
+import {createItem} from '../../src/lib/Item.js';
+
+import {createDownload, DownloadEntry} from '../../src/download/bulkDownload.js';
+
+const expect = chai.expect;
+
+describe('bulkDownload', () => {
+    let directory: string;
+    let entries: DownloadEntry[];
+
+    const rootItem = createItem({id: '12345', collection_id: '12345', label: 'Root', type: 'root'});
+    const content = 'Some file content';
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), 'download-'));
+        await writeFile(join(directory, 'file.txt'), content);
+
+        entries = [{
+            item: createItem({id: '1', collection_id: '12345', label: 'File', type: 'file'}),
+            path: 'file.txt',
+            fullPath: join(directory, 'file.txt'),
+            size: content.length,
+            puid: 'x-fmt/111',
+            pronomName: 'Plain Text File',
+            mime: 'text/plain',
+            status: 'included'
+        }, {
+            item: createItem({id: '2', collection_id: '12345', label: 'Closed, "secret"', type: 'file'}),
+            path: 'secret.txt',
+            fullPath: null,
+            size: null,
+            puid: null,
+            pronomName: null,
+            mime: null,
+            status: 'no-access'
+        }];
+    });
+
+    afterEach(async () => {
+        sinon.restore();
+        await rm(directory, {recursive: true, force: true});
+    });
+
+    // The files are stored without compression, so the content can be found in the archive as is
+    async function read(stream: Readable): Promise<string> {
+        const chunks: Buffer[] = [];
+        for await (const chunk of stream)
+            chunks.push(chunk);
+
+        return Buffer.concat(chunks).toString('latin1');
+    }
+
+    describe('#createDownload()', () => {
+        it('should include the files and the inventories in a ZIP', async () => {
+            const zip = await read(createDownload(rootItem, entries, 'zip'));
+
+            expect(zip).to.contain('file.txt');
+            expect(zip).to.contain(content);
+            expect(zip).to.contain('inventory.json');
+            expect(zip).to.contain('1,File,file.txt,17,x-fmt/111,Plain Text File,text/plain,included');
+            expect(zip).to.contain('2,"Closed, ""secret""",secret.txt,,,,,no-access');
+            expect(zip).to.not.contain('manifest-sha256.txt');
+        });
+
+        it('should create a bag with the checksums of the payload', async () => {
+            const bag = await read(createDownload(rootItem, entries, 'bagit'));
+            const digest = createHash('sha256').update(content).digest('hex');
+
+            expect(bag).to.contain('12345/data/file.txt');
+            expect(bag).to.contain('12345/bagit.txt');
+            expect(bag).to.contain('12345/manifest-sha256.txt');
+            expect(bag).to.contain(`${digest}  data/file.txt`);
+            expect(bag).to.contain('Payload-Oxum: ');
+        });
+
+        it('should include multiple files in order', async () => {
+            await writeFile(join(directory, 'other.txt'), 'Other content');
+            entries.push({...entries[0], path: 'other.txt', fullPath: join(directory, 'other.txt'), size: 13});
+
+            const zip = await read(createDownload(rootItem, entries, 'zip'));
+
+            expect(zip.indexOf('Other content')).to.be.greaterThan(zip.indexOf(content));
+        });
+
+        it('should fail the download when a file cannot be read', async () => {
+            entries[0].fullPath = join(directory, 'missing.txt');
+
+            let error: any = null;
+            try {
+                await read(createDownload(rootItem, entries, 'bagit'));
+            }
+            catch (err) {
+                error = err;
+            }
+
+            expect(error).to.have.property('code', 'ENOENT');
+        });
+
+        it('should close the file being read when the download is aborted', async () => {
+            const destroy = sinon.spy(ReadStream.prototype, 'destroy');
+            await writeFile(join(directory, 'large.bin'), Buffer.alloc(8 * 1024 * 1024));
+            entries[0].fullPath = join(directory, 'large.bin');
+
+            const download = createDownload(rootItem, entries, 'zip');
+            await new Promise(resolve => download.once('data', resolve));
+            download.destroy();
+            await new Promise(resolve => setTimeout(resolve, 50));
+
+            const input = destroy.thisValues.find(stream => stream.path === entries[0].fullPath);
+            expect(input).to.have.property('closed', true);
+        });
+    });
+});
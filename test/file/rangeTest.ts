@@ -0,0 +1,71 @@
+import {expect} from 'chai';
+import {Stats} from 'fs';
+
+import {isRangeValid, parseRange} from '../../src/file/range.js';
+
+describe('range', () => {
+    describe('#parseRange()', () => {
+        it('should parse a single range', () => {
+            expect(parseRange('bytes=0-99', 1000)).to.deep.equal([{start: 0, end: 99}]);
+        });
+
+        it('should parse an open-ended range', () => {
+            expect(parseRange('bytes=900-', 1000)).to.deep.equal([{start: 900, end: 999}]);
+        });
+
+        it('should parse a suffix range', () => {
+            expect(parseRange('bytes=-500', 1000)).to.deep.equal([{start: 500, end: 999}]);
+            expect(parseRange('bytes=-5000', 1000)).to.deep.equal([{start: 0, end: 999}]);
+        });
+
+        it('should limit the end of a range to the size', () => {
+            expect(parseRange('bytes=500-5000', 1000)).to.deep.equal([{start: 500, end: 999}]);
+        });
+
+        it('should parse multiple ranges', () => {
+            expect(parseRange('bytes=500-599, 0-99', 1000)).to.deep.equal([
+                {start: 500, end: 599},
+                {start: 0, end: 99}
+            ]);
+        });
+
+        it('should combine overlapping ranges', () => {
+            expect(parseRange('bytes=0-99,50-149,-100', 1000)).to.deep.equal([
+                {start: 0, end: 149},
+                {start: 900, end: 999}
+            ]);
+        });
+
+        it('should skip unsatisfiable ranges', () => {
+            expect(parseRange('bytes=0-99,2000-', 1000)).to.deep.equal([{start: 0, end: 99}]);
+            expect(parseRange('bytes=1000-', 1000)).to.deep.equal([]);
+            expect(parseRange('bytes=-0', 1000)).to.deep.equal([]);
+        });
+
+        it('should ignore an invalid range header', () => {
+            expect(parseRange('items=0-99', 1000)).to.be.null;
+            expect(parseRange('bytes=99-0', 1000)).to.be.null;
+            expect(parseRange('bytes=a-b', 1000)).to.be.null;
+            expect(parseRange('bytes=-', 1000)).to.be.null;
+        });
+    });
+
+    describe('#isRangeValid()', () => {
+        const stat = {mtime: new Date('2020-01-01T12:00:00.500Z')} as Stats;
+
+        it('should be valid without an If-Range header', () => {
+            expect(isRangeValid(undefined, '"abc"', stat)).to.be.true;
+        });
+
+        it('should compare entity tags', () => {
+            expect(isRangeValid('"abc"', '"abc"', stat)).to.be.true;
+            expect(isRangeValid('"def"', '"abc"', stat)).to.be.false;
+            expect(isRangeValid('W/"abc"', '"abc"', stat)).to.be.false;
+        });
+
+        it('should compare dates', () => {
+            expect(isRangeValid('Wed, 01 Jan 2020 12:00:00 GMT', '"abc"', stat)).to.be.true;
+            expect(isRangeValid('Wed, 01 Jan 2020 11:00:00 GMT', '"abc"', stat)).to.be.false;
+        });
+    });
+});
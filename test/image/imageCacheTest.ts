@@ -0,0 +1,123 @@
+import sinon from 'sinon';
+import * as chai from 'chai';
+import sinonChai from 'sinon-chai';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {Buffer} from 'buffer';
+import {mkdir, mkdtemp, readdir, rm, writeFile} from 'fs/promises';
+
+import {setConfig} from '../../src/lib/Config.js';
+import {createItem} from '../../src/lib/Item.js';
+import {ImageItem} from '../../src/lib/ItemInterfaces.js';
+
+import {cacheImage, purgeImageCache} from '../../src/image/imageCache.js';
+
+chai.use(sinonChai);
+const expect = chai.expect;
+
+describe('imageCache', () => {
+    let dataRootPath: string;
+
+    const item = createItem({
+        id: '12345',
+        collection_id: 'collection',
+        label: 'Test image',
+        type: 'image',
+        width: 500,
+        height: 200
+    }) as ImageItem;
+
+    const imageOptions = {
+        region: 'full',
+        size: '200,',
+        rotation: '0',
+        quality: 'default',
+        format: 'jpg'
+    };
+
+    const image = Buffer.from('image');
+    const render = sinon.fake.resolves({
+        image,
+        status: 200,
+        contentType: 'image/jpeg',
+        contentLength: image.length
+    });
+
+    beforeEach(async () => {
+        dataRootPath = await mkdtemp(join(tmpdir(), 'iiif-server-'));
+        setConfig('dataRootPath', dataRootPath);
+        setConfig('imageCacheRelativePath', 'cache');
+        render.resetHistory();
+    });
+
+    afterEach(async () => {
+        setConfig('dataRootPath', '/data');
+        setConfig('imageCacheRelativePath', undefined);
+        await rm(dataRootPath, {recursive: true, force: true});
+    });
+
+    describe('#cacheImage()', () => {
+        it('should render and cache an image on a cache miss', async () => {
+            const result = await cacheImage(item, undefined, imageOptions, render);
+
+            expect(render).to.have.been.calledOnce;
+            expect(result.cacheHit).to.be.false;
+            expect(result.image).to.deep.equal(image);
+        });
+
+        it('should serve an image from the cache on a cache hit', async () => {
+            await cacheImage(item, undefined, imageOptions, render);
+            const result = await cacheImage(item, undefined, imageOptions, render);
+
+            expect(render).to.have.been.calledOnce;
+            expect(result).to.deep.equal({
+                image,
+                status: 200,
+                contentType: 'image/jpeg',
+                contentLength: image.length,
+                cacheHit: true
+            });
+        });
+
+        it('should cache an image separately for every tier', async () => {
+            await cacheImage(item, undefined, imageOptions, render);
+            const result = await cacheImage(item, 'tierName', imageOptions, render);
+
+            expect(render).to.have.been.calledTwice;
+            expect(result.cacheHit).to.be.false;
+        });
+
+        it('should cache an image once when rendered by concurrent requests', async () => {
+            const results = await Promise.all([
+                cacheImage(item, undefined, imageOptions, render),
+                cacheImage(item, undefined, imageOptions, render),
+                cacheImage(item, undefined, imageOptions, render)
+            ]);
+
+            expect(results.map(result => result.image)).to.deep.equal([image, image, image]);
+            expect(await readdir(join(dataRootPath, 'cache', item.collection_id, item.id)))
+                .to.have.lengthOf(1).and.satisfy((files: string[]) => !files[0].endsWith('.tmp'));
+        });
+
+        it('should still return the rendered image when it cannot be cached', async () => {
+            await mkdir(join(dataRootPath, 'cache', item.collection_id), {recursive: true});
+            await writeFile(join(dataRootPath, 'cache', item.collection_id, item.id), 'not a directory');
+
+            const result = await cacheImage(item, undefined, imageOptions, render);
+
+            expect(result.image).to.deep.equal(image);
+            expect(result.cacheHit).to.be.false;
+        });
+    });
+
+    describe('#purgeImageCache()', () => {
+        it('should remove all cached images of a collection', async () => {
+            await cacheImage(item, undefined, imageOptions, render);
+            await purgeImageCache(item.collection_id);
+            const result = await cacheImage(item, undefined, imageOptions, render);
+
+            expect(render).to.have.been.calledTwice;
+            expect(result.cacheHit).to.be.false;
+        });
+    });
+});
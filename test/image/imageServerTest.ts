@@ -1,13 +1,17 @@
 import {expect} from 'chai';
 import nock from 'nock';
+import sharp from 'sharp';
+import {tmpdir} from 'os';
+import {join} from 'path';
 import {Buffer} from 'buffer';
+import {mkdtemp, mkdir, rm} from 'fs/promises';
 import {AccessTier} from '@archival-iiif/presentation-builder/v2';
 
 import {setConfig} from '../../src/lib/Config.js';
 import {createItem} from '../../src/lib/Item.js';
 import {ImageItem} from '../../src/lib/ItemInterfaces.js';
 
-import {getImage} from '../../src/image/imageServer.js';
+import {getImage, getImageSizes} from '../../src/image/imageServer.js';
 
 describe('imageServer', () => {
     const item = createItem({
@@ -43,6 +47,11 @@ describe('imageServer', () => {
                 });
         });
 
+        afterEach(() => {
+            nock.cleanAll();
+            setConfig('imageServerName', 'sharp');
+        });
+
         it('should call an external IIIF image provider', async () => {
             const result = await getImage(item, null, null, {
                 region: 'full',
@@ -59,5 +68,103 @@ describe('imageServer', () => {
                 contentLength: 500
             });
         });
+
+        it('should never request a tiered image larger than the tier', async () => {
+            setConfig('imageServerName', 'cantaloupe');
+
+            let requestedUri = '';
+            nock.cleanAll();
+            nock('http://localhost:8080')
+                .get(uri => (requestedUri = uri).length > 0)
+                .times(2)
+                .reply(200, image, {'Content-Type': 'image/jpeg', 'Content-Length': '500'});
+
+            for (const size of ['pct:100', '!99999,99999']) {
+                await getImage(item, null, tier.maxSize, {
+                    region: 'full',
+                    size,
+                    rotation: '0',
+                    quality: 'default',
+                    format: 'jpg'
+                });
+
+                expect(requestedUri).to.match(/\/full\/150,60\/0\/default\.jpg$/);
+            }
+        });
+    });
+
+    describe('embedded image server', () => {
+        let dataRootPath: string;
+
+        before(async () => {
+            dataRootPath = await mkdtemp(join(tmpdir(), 'iiif-server-'));
+            await mkdir(join(dataRootPath, 'collections/some/path/to/an'), {recursive: true});
+            await sharp({create: {width: 2000, height: 800, channels: 3, background: '#ff0000'}})
+                .tiff({pyramid: true, tile: true, tileWidth: 256, tileHeight: 256})
+                .toFile(join(dataRootPath, 'collections', item.access.uri as string));
+
+            setConfig('dataRootPath', dataRootPath);
+            setConfig('imageServerName', 'embedded');
+        });
+
+        after(async () => {
+            setConfig('dataRootPath', '/data');
+            setConfig('imageServerName', 'sharp');
+            await rm(dataRootPath, {recursive: true, force: true});
+        });
+
+        it('should provide the sizes of the levels of a pyramidal TIFF', async () => {
+            const info = await getImageSizes(item, null);
+
+            expect(info.sizes).to.deep.equal([
+                {width: 250, height: 100},
+                {width: 500, height: 200},
+                {width: 1000, height: 400},
+                {width: 2000, height: 800}
+            ]);
+            expect(info.tiles).to.deep.equal([{width: 512, height: 512, scaleFactors: [1, 2, 4, 8]}]);
+        });
+
+        it('should render the requested region and size', async () => {
+            const result = await getImage(item, null, null, {
+                region: '0,0,1000,400',
+                size: '200,',
+                rotation: '0',
+                quality: 'gray',
+                format: 'png'
+            });
+
+            const metadata = await sharp(result.image as Buffer).metadata();
+            expect(result.status).to.equal(200);
+            expect(result.contentType).to.equal('image/png');
+            expect(metadata.width).to.equal(200);
+            expect(metadata.height).to.equal(80);
+        });
+
+        it('should restrict the size of the image to the given maximum', async () => {
+            const result = await getImage(item, null, tier.maxSize, {
+                region: 'full',
+                size: 'max',
+                rotation: '0',
+                quality: 'default',
+                format: 'jpg'
+            });
+
+            const metadata = await sharp(result.image as Buffer).metadata();
+            expect(metadata.width).to.equal(150);
+            expect(metadata.height).to.equal(60);
+        });
+
+        it('should reject an invalid region', async () => {
+            const result = await getImage(item, null, null, {
+                region: '3000,0,100,100',
+                size: 'max',
+                rotation: '0',
+                quality: 'default',
+                format: 'jpg'
+            });
+
+            expect(result.status).to.equal(400);
+        });
     });
-});
\ No newline at end of file
+});
@@ -0,0 +1,97 @@
+import sinon from 'sinon';
+import * as chai from 'chai';
+import sinonChai from 'sinon-chai';
+
+import {createItem} from '../../src/lib/Item.js';
+import {setRedisClient} from '../../src/lib/Redis.js';
+import {recordDeleted, recordIndexed, recordUpdated} from '../../src/lib/ChangeDiscovery.js';
+
+chai.use(sinonChai);
+const expect = chai.expect;
+
+describe('ChangeDiscovery', () => {
+    let redis: any;
+    let redisMulti: any;
+
+    const rootItem = createItem({id: '12345', collection_id: '12345', label: 'Root', type: 'root'});
+    const folderItem = createItem({id: '67890', collection_id: '12345', label: 'Folder', type: 'folder'});
+    const fileItem = createItem({id: 'abcde', collection_id: '12345', label: 'File', type: 'file'});
+
+    const pushedActivities = (stub: sinon.SinonStub) =>
+        (stub.firstCall.args[1] as string[]).map(activity => JSON.parse(activity));
+
+    beforeEach(() => {
+        redisMulti = {
+            rPush: sinon.stub().returnsThis(),
+            hSet: sinon.stub().returnsThis(),
+            hDel: sinon.stub().returnsThis(),
+            del: sinon.stub().returnsThis(),
+            exec: sinon.fake()
+        };
+
+        redis = {
+            hmGet: sinon.stub().callsFake(async (_key: string, ids: string[]) => ids.map(_ => null)),
+            sMembers: sinon.stub().resolves([]),
+            sAdd: sinon.stub().resolves(1),
+            rPush: sinon.stub().resolves(1),
+            multi: () => redisMulti
+        };
+
+        setRedisClient(redis);
+    });
+
+    afterEach(() => {
+        sinon.restore();
+        setRedisClient(null);
+    });
+
+    describe('#recordIndexed()', () => {
+        it('should record the creation of new collections and manifests only', async () => {
+            await recordIndexed([rootItem, folderItem, fileItem]);
+
+            const activities = pushedActivities(redisMulti.rPush);
+            expect(activities.map(activity => [activity.type, activity.objectId, activity.objectType])).to.deep.equal([
+                ['Create', '12345', 'root'],
+                ['Create', '67890', 'folder']
+            ]);
+            expect(redisMulti.hSet).to.have.been.calledWith('discovery:objects', {'12345': 'root', '67890': 'folder'});
+        });
+
+        it('should record an update of known objects and the deletion of objects that are gone', async () => {
+            redis.hmGet.callsFake(async (_key: string, ids: string[]) => ids.map(_ => 'folder'));
+            redis.sMembers.resolves(['12345', 'fghij']);
+
+            await recordIndexed([rootItem]);
+
+            const activities = pushedActivities(redisMulti.rPush);
+            expect(activities.map(activity => [activity.type, activity.objectId])).to.deep.equal([
+                ['Update', '12345'],
+                ['Delete', 'fghij']
+            ]);
+            expect(redisMulti.hDel).to.have.been.calledWith('discovery:objects', ['fghij']);
+            expect(redisMulti.del).to.have.been.calledWith(['discovery:deleted:12345']);
+        });
+    });
+
+    describe('#recordUpdated()', () => {
+        it('should only record updates of known objects', async () => {
+            redis.hmGet.resolves(['root', null]);
+
+            await recordUpdated([rootItem, fileItem, rootItem]);
+
+            const activities = pushedActivities(redis.rPush);
+            expect(activities.map(activity => [activity.type, activity.objectId])).to.deep.equal([
+                ['Update', '12345']
+            ]);
+        });
+    });
+
+    describe('#recordDeleted()', () => {
+        it('should remember the deleted objects until the collection is indexed again', async () => {
+            await recordDeleted('12345', [rootItem, folderItem, fileItem]);
+
+            expect(redis.sAdd).to.have.been.calledWith('discovery:deleted:12345', ['12345', '67890']);
+            expect(redis.rPush).to.not.have.been.called;
+        });
+    });
+});
@@ -0,0 +1,110 @@
+import Koa, {Context} from 'koa';
+import {Socket} from 'net';
+import * as chai from 'chai';
+import {IncomingMessage, IncomingHttpHeaders, ServerResponse} from 'http';
+
+import {conditionalGet, getLastModified, setValidators} from '../../src/lib/ConditionalGet.js';
+
+const expect = chai.expect;
+
+describe('ConditionalGet', () => {
+    const lastModified = new Date('2020-01-01T12:00:00.000Z');
+
+    function createContext(headers: IncomingHttpHeaders = {}, method = 'GET'): Context {
+        const req = new IncomingMessage(new Socket());
+        req.method = method;
+        req.url = '/';
+        req.headers = headers;
+
+        return new Koa().createContext(req, new ServerResponse(req));
+    }
+
+    describe('#setValidators()', () => {
+        it('should set the validators on the response', () => {
+            const ctx = createContext();
+            const isFresh = setValidators(ctx, {lastModified, etag: 'abc'});
+
+            expect(isFresh).to.be.false;
+            expect(ctx.response.get('ETag')).to.equal('"abc"');
+            expect(ctx.response.get('Last-Modified')).to.equal(lastModified.toUTCString());
+        });
+
+        it('should respond with 304 on a matching entity tag', () => {
+            const ctx = createContext({'if-none-match': 'W/"def", "abc"'});
+            const isFresh = setValidators(ctx, {lastModified, etag: 'abc'});
+
+            expect(isFresh).to.be.true;
+            expect(ctx.status).to.equal(304);
+        });
+
+        it('should not respond with 304 on a non-matching entity tag', () => {
+            const ctx = createContext({
+                'if-none-match': '"def"',
+                'if-modified-since': lastModified.toUTCString()
+            });
+            const isFresh = setValidators(ctx, {lastModified, etag: 'abc'});
+
+            expect(isFresh).to.be.false;
+        });
+
+        it('should respond with 304 if not modified since', () => {
+            const ctx = createContext({'if-modified-since': new Date('2020-02-01').toUTCString()});
+            const isFresh = setValidators(ctx, {lastModified});
+
+            expect(isFresh).to.be.true;
+            expect(ctx.status).to.equal(304);
+        });
+
+        it('should not respond with 304 if modified since', () => {
+            const ctx = createContext({'if-modified-since': new Date('2019-12-01').toUTCString()});
+            const isFresh = setValidators(ctx, {lastModified});
+
+            expect(isFresh).to.be.false;
+        });
+
+        it('should not respond with 304 on other methods than GET and HEAD', () => {
+            const ctx = createContext({'if-none-match': '"abc"'}, 'POST');
+            const isFresh = setValidators(ctx, {etag: 'abc'});
+
+            expect(isFresh).to.be.false;
+        });
+    });
+
+    describe('#conditionalGet()', () => {
+        it('should derive a weak entity tag from the body', async () => {
+            const ctx = createContext();
+            await conditionalGet(ctx, async () => {
+                ctx.body = {id: '12345'};
+            });
+
+            expect(ctx.status).to.equal(200);
+            expect(ctx.response.get('ETag')).to.match(/^W\/".+"$/);
+        });
+
+        it('should respond with 304 on a matching derived entity tag', async () => {
+            const first = createContext();
+            await conditionalGet(first, async () => {
+                first.body = {id: '12345'};
+            });
+
+            const second = createContext({'if-none-match': first.response.get('ETag')});
+            await conditionalGet(second, async () => {
+                second.body = {id: '12345'};
+            });
+
+            expect(second.status).to.equal(304);
+            expect(second.body).to.be.null;
+        });
+    });
+
+    describe('#getLastModified()', () => {
+        it('should take the moment the item was last indexed into account', async () => {
+            const indexedAt = '2024-06-01T08:00:00.000Z';
+
+            expect(await getLastModified({collection_id: '12345', created_at: lastModified, indexed_at: indexedAt}))
+                .to.deep.equal(new Date(indexedAt));
+            expect(await getLastModified({collection_id: '12345', created_at: lastModified}))
+                .to.deep.equal(lastModified);
+        });
+    });
+});
@@ -18,6 +18,7 @@ describe('Item', () => {
 
     const dataPath = '/data';
     const collectionsPath = 'collections';
+    const indexedAt = '2020-01-01T12:00:00.000Z';
 
     const itemWithOriginal = {
         original: {uri: 'dip/with/original/file.txt', puid: 'fmt/org'},
@@ -97,14 +98,16 @@ describe('Item', () => {
 
     describe('#indexItems()', () => {
         it('should send a valid bulk index action to ElasticSearch', async () => {
+            sinon.useFakeTimers(new Date(indexedAt));
+
             const items = [{id: '123', label: 'A'}, {id: '456', label: 'B'}, {id: '789', label: 'C'}] as Item[];
             const operations = [
                 {index: {_index: 'items', _id: '123'}},
-                {id: '123', label: 'A'},
+                {id: '123', label: 'A', indexed_at: indexedAt},
                 {index: {_index: 'items', _id: '456'}},
-                {id: '456', label: 'B'},
+                {id: '456', label: 'B', indexed_at: indexedAt},
                 {index: {_index: 'items', _id: '789'}},
-                {id: '789', label: 'C'}
+                {id: '789', label: 'C', indexed_at: indexedAt}
             ];
 
             await indexItems(items);
@@ -120,22 +123,24 @@ describe('Item', () => {
 
     describe('#updateItems()', () => {
         it('should send a valid bulk update action to ElasticSearch', async () => {
+            sinon.useFakeTimers(new Date(indexedAt));
+
             const items = [{id: '123', label: 'A'}, {id: '456', label: 'B'}, {id: '789', label: 'C'}] as Item[];
             const operations = [
                 {update: {_index: 'items', _id: '123'}},
                 {
-                    doc: {id: '123', label: 'A'},
-                    upsert: createItem({id: '123', label: 'A'} as MinimalItem)
+                    doc: {id: '123', label: 'A', indexed_at: indexedAt},
+                    upsert: {...createItem({id: '123', label: 'A'} as MinimalItem), indexed_at: indexedAt}
                 },
                 {update: {_index: 'items', _id: '456'}},
                 {
-                    doc: {id: '456', label: 'B'},
-                    upsert: createItem({id: '456', label: 'B'} as MinimalItem)
+                    doc: {id: '456', label: 'B', indexed_at: indexedAt},
+                    upsert: {...createItem({id: '456', label: 'B'} as MinimalItem), indexed_at: indexedAt}
                 },
                 {update: {_index: 'items', _id: '789'}},
                 {
-                    doc: {id: '789', label: 'C'},
-                    upsert: createItem({id: '789', label: 'C'} as MinimalItem)
+                    doc: {id: '789', label: 'C', indexed_at: indexedAt},
+                    upsert: {...createItem({id: '789', label: 'C'} as MinimalItem), indexed_at: indexedAt}
                 },
             ];
 
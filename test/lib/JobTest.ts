@@ -0,0 +1,92 @@
+import sinon from 'sinon';
+import * as chai from 'chai';
+import sinonChai from 'sinon-chai';
+
+import {setRedisClient} from '../../src/lib/Redis.js';
+import {completeJobTasks, followUps, getJob, getJobStatus} from '../../src/lib/Job.js';
+
+chai.use(sinonChai);
+const expect = chai.expect;
+
+describe('Job', () => {
+    let redis: any;
+    let jobTasks: { [taskId: string]: string };
+    let followUp: sinon.SinonStub;
+
+    beforeEach(() => {
+        jobTasks = {'metadata:12345': 'succeeded', 'text:a': 'waiting'};
+        followUp = sinon.stub().resolves();
+        followUps['test'] = followUp;
+
+        redis = {
+            sMembers: sinon.stub().resolves(['{"jobId":"job","taskId":"text:a"}']),
+            del: sinon.stub().resolves(1),
+            exists: sinon.stub().resolves(1),
+            hSetNX: sinon.stub().resolves(true),
+            hSet: sinon.stub().callsFake(async (key: string, field: string, value: string) => {
+                if (key === 'jobs:job:tasks')
+                    jobTasks[field] = value;
+            }),
+            hGetAll: sinon.stub().callsFake(async (key: string) => key === 'jobs:job:tasks' ? {...jobTasks} : {
+                name: 'index',
+                collection_id: '12345',
+                created_at: '2020-01-01T00:00:00.000Z',
+                follow_ups: '["test"]'
+            })
+        };
+
+        setRedisClient(redis);
+    });
+
+    afterEach(() => {
+        sinon.restore();
+        delete followUps['test'];
+
+        setRedisClient(null);
+    });
+
+    describe('#getJob()', () => {
+        it('should aggregate the status of the tasks', async () => {
+            const job = await getJob('job');
+
+            expect(job).to.deep.include({
+                id: 'job',
+                collection_id: '12345',
+                status: 'running',
+                counts: {waiting: 1, succeeded: 1, failed: 0}
+            });
+        });
+    });
+
+    describe('#getJobStatus()', () => {
+        it('should fail once no task is waiting and a task failed', () => {
+            expect(getJobStatus({waiting: 0, succeeded: 3, failed: 1})).to.equal('failed');
+        });
+    });
+
+    describe('#completeJobTasks()', () => {
+        it('should run the follow-ups once all tasks succeeded', async () => {
+            await completeJobTasks('text', '12345', 'succeeded');
+
+            expect(jobTasks['text:a']).to.equal('succeeded');
+            expect(redis.sMembers).to.have.been.calledOnceWithExactly('tasks:text:jobs:12345');
+            expect(redis.del).to.have.been.calledOnceWithExactly('tasks:text:jobs:12345');
+            expect(followUp).to.have.been.calledOnceWith(sinon.match({id: 'job', status: 'succeeded'}));
+        });
+
+        it('should not run the follow-ups after a failure', async () => {
+            await completeJobTasks('text', '12345', 'failed');
+
+            expect(jobTasks['text:a']).to.equal('failed');
+            expect(redis.del).to.have.not.been.called;
+            expect(followUp).to.have.not.been.called;
+        });
+
+        it('should only run the follow-ups once', async () => {
+            redis.hSetNX.resolves(false);
+            await completeJobTasks('text', '12345', 'succeeded');
+
+            expect(followUp).to.have.not.been.called;
+        });
+    });
+});
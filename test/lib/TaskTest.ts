@@ -2,7 +2,8 @@ import sinon from 'sinon';
 import * as chai from 'chai';
 import sinonChai from 'sinon-chai';
 
-import {runTask} from '../../src/lib/Task.js';
+import {queueTask, runTask} from '../../src/lib/Task.js';
+import {JOB_TTL_SEC} from '../../src/lib/Job.js';
 import {setRedisClient} from '../../src/lib/Redis.js';
 import {setWorkersRunning} from '../../src/lib/Service.js';
 
@@ -15,7 +16,7 @@ describe('Task', () => {
     beforeEach(() => {
         redis = {
             connect: sinon.fake(),
-            rPush: sinon.spy(),
+            eval: sinon.stub().resolves('12345'),
             disconnect: sinon.spy()
         };
 
@@ -37,12 +38,55 @@ describe('Task', () => {
     describe('#runTask()', () => {
         it('should run local tasks; do not send to queue', async () => {
             await runTask('local-test', {echo: 'Hello!'});
-            expect(redis.rPush).to.have.not.been.called;
+            expect(redis.eval).to.have.not.been.called;
         });
 
         it('should send remote or unknown tasks to the queue', async () => {
             await runTask('not-local-test', {echo: 'Hello!'});
-            expect(redis.rPush).to.have.been.calledOnce;
+
+            expect(redis.eval).to.have.been.calledOnce;
+            expect(redis.eval.firstCall.args[1].keys).to.deep.equal([
+                'tasks:not-local-test:queued',
+                'tasks:not-local-test:payloads',
+                'tasks:not-local-test',
+                'tasks:not-local-test:bulk'
+            ]);
+            expect(redis.eval.firstCall.args[1].arguments.slice(1))
+                .to.deep.equal(['{"echo":"Hello!"}', 'interactive', '', '', String(JOB_TTL_SEC),
+                    'tasks:not-local-test:jobs:', 'interactive', 'bulk']);
+        });
+
+        it('should send bulk tasks to the bulk lane', async () => {
+            await runTask('not-local-test', {echo: 'Hello!'}, {priority: 'bulk'});
+            expect(redis.eval.firstCall.args[1].arguments[2]).to.equal('bulk');
+        });
+
+        it('should send the dedupe key and the job along with the task', async () => {
+            await runTask('not-local-test', {echo: 'Hello!'},
+                {dedupeKey: 'echo', job: {jobId: 'job', taskId: 'echo'}});
+
+            expect(redis.eval.firstCall.args[1].arguments.slice(3, 5))
+                .to.deep.equal(['echo', '{"jobId":"job","taskId":"echo"}']);
+        });
+    });
+
+    describe('#queueTask()', () => {
+        it('should give every task its own id', async () => {
+            await queueTask('not-local-test', '{"echo":"Hello!"}');
+            await queueTask('not-local-test', '{"echo":"Hello!"}');
+
+            expect(redis.eval.firstCall.args[1].arguments[0])
+                .to.not.equal(redis.eval.secondCall.args[1].arguments[0]);
+        });
+
+        it('should keep the id of a task which is sent back to the queue', async () => {
+            await queueTask('not-local-test', '{"echo":"Hello!"}', 'bulk', 'echo', undefined, 'abc');
+
+            expect(redis.eval.firstCall.args[1].arguments[0]).to.equal('abc');
+        });
+
+        it('should return the id of the task which is waiting', async () => {
+            expect(await queueTask('not-local-test', '{"echo":"Hello!"}', 'bulk', 'echo')).to.equal('12345');
         });
     });
 });
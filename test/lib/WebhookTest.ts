@@ -0,0 +1,69 @@
+import sinon from 'sinon';
+import * as chai from 'chai';
+import sinonChai from 'sinon-chai';
+
+import {setConfig} from '../../src/lib/Config.js';
+import {setRedisClient} from '../../src/lib/Redis.js';
+import {fireWebhooks, matchesEvent, signPayload} from '../../src/lib/Webhook.js';
+
+chai.use(sinonChai);
+const expect = chai.expect;
+
+describe('Webhook', () => {
+    let redis: any;
+
+    beforeEach(() => {
+        redis = {
+            eval: sinon.stub().resolves('12345')
+        };
+
+        setRedisClient(redis);
+        setConfig('webhooks', [
+            {url: 'http://example.org/all'},
+            {url: 'http://example.org/index', secret: 'secret', events: ['index.*']},
+            {url: 'http://example.org/metadata', events: ['metadata.failed']}
+        ]);
+    });
+
+    afterEach(() => {
+        sinon.restore();
+
+        setRedisClient(null);
+        setConfig('webhooks', []);
+    });
+
+    describe('#fireWebhooks()', () => {
+        it('should send a task for every webhook listening to the event', () => {
+            fireWebhooks('index.succeeded', {collection_id: '12345'});
+
+            const payloads = redis.eval.getCalls().map((call: sinon.SinonSpyCall) => call.args[1].arguments[1]);
+            expect(payloads).to.have.lengthOf(2);
+            expect(payloads[0]).to.contain('"url":"http://example.org/all"');
+            expect(payloads[1]).to.contain('"url":"http://example.org/index"');
+            expect(payloads[1]).to.contain('"collection_id":"12345"');
+        });
+
+        it('should not fail without a Redis server', () => {
+            setRedisClient(null);
+            expect(() => fireWebhooks('index.succeeded', {collection_id: '12345'})).to.not.throw();
+        });
+    });
+
+    describe('#matchesEvent()', () => {
+        it('should match all events without an event filter', () => {
+            expect(matchesEvent(undefined, 'index.failed')).to.be.true;
+        });
+
+        it('should match the events with a wildcard', () => {
+            expect(matchesEvent(['index.*'], 'index.failed')).to.be.true;
+            expect(matchesEvent(['index.*'], 'metadata.failed')).to.be.false;
+        });
+    });
+
+    describe('#signPayload()', () => {
+        it('should sign the payload with HMAC SHA-256', () => {
+            expect(signPayload('secret', '{}'))
+                .to.equal('sha256=77325902caca812dc259733aacd046b73817372c777b8d95b402647474516e13');
+        });
+    });
+});
@@ -2,7 +2,12 @@ import sinon from 'sinon';
 import * as chai from 'chai';
 import sinonChai from 'sinon-chai';
 
-import {waitForTask} from '../../src/lib/Worker.js';
+import {setConfig} from '../../src/lib/Config.js';
+import {setRedisClient} from '../../src/lib/Redis.js';
+import {setWorkersRunning} from '../../src/lib/Service.js';
+import {
+    handleMessage, hasWorkers, moveDelayedTasksToQueue, moveExpiredTasksToQueue, retryFailedTasks, waitForTask
+} from '../../src/lib/Worker.js';
 
 chai.use(sinonChai);
 const expect = chai.expect;
@@ -10,31 +15,278 @@ const expect = chai.expect;
 describe('Worker', () => {
     let redis: any;
     let redisMulti: any;
+    let failureHandler: sinon.SinonStub;
+
+    const queuedTask = '{"id":"1","priority":"bulk","task":{"id":"1"}}';
 
     beforeEach(() => {
         redis = {
             multi: () => redisMulti,
-            setEx: sinon.stub(),
+            eval: sinon.stub().resolves(queuedTask),
+            get: sinon.stub().resolves(null),
+            hmGet: sinon.stub().resolves([queuedTask]),
+            lRange: sinon.stub().resolves(['1']),
+            lIndex: sinon.stub().resolves(null),
+            zRangeByScore: sinon.stub().resolves(['1']),
+            zRem: sinon.stub().resolves(1),
+            rPush: sinon.stub().resolves(1),
+            set: sinon.stub().resolves('OK'),
+            expire: sinon.stub().resolves(true),
             lRem: sinon.spy(),
-            blMove: sinon.stub().resolves(undefined),
+            hIncrBy: sinon.stub().resolves(1),
+            lMove: sinon.stub().resolves(null),
+            blMove: sinon.stub().returns(new Promise(() => null)),
+            zCount: sinon.stub().resolves(0),
         };
 
         redisMulti = {
-            publish: sinon.stub().returns(redisMulti),
+            publish: sinon.stub().callsFake(() => redisMulti),
+            del: sinon.stub().callsFake(() => redisMulti),
+            lRem: sinon.stub().callsFake(() => redisMulti),
+            hDel: sinon.stub().callsFake(() => redisMulti),
+            zAdd: sinon.stub().callsFake(() => redisMulti),
+            rPush: sinon.stub().callsFake(() => redisMulti),
             exec: sinon.fake(),
         };
+
+        failureHandler = sinon.stub().resolves();
+        setWorkersRunning({
+            'text': {
+                name: 'text',
+                loadService: async () => async () => null,
+                loadFailureHandler: async () => failureHandler
+            }
+        });
     });
 
     afterEach(() => {
         sinon.restore();
+        setRedisClient(null);
+        setWorkersRunning({});
+        setConfig('webhooks', []);
+    });
+
+    describe('#hasWorkers()', () => {
+        it('should only find workers which registered within the visibility timeout', async () => {
+            sinon.useFakeTimers(new Date('2020-01-01T00:00:00Z'));
+            redis.zCount.resolves(1);
+            setRedisClient(redis);
+
+            expect(await hasWorkers('text')).to.be.true;
+            expect(redis.zCount).to.be.calledWithExactly('workers:text', Date.now() - 60_000, '+inf');
+        });
+
+        it('should not find workers without a persistent Redis server', async () => {
+            expect(await hasWorkers('text')).to.be.false;
+        });
     });
 
     describe('#waitForTask()', () => {
-        it('should monitor a queue', () => {
+        it('should monitor the queues in the order of priority', async () => {
             waitForTask('test', async () => null, [], redis, redis);
+            await new Promise(resolve => setImmediate(resolve));
 
+            expect(redis.lMove.firstCall).to.be.calledWithExactly('tasks:test', 'tasks:test:progress', 'RIGHT', 'LEFT');
+            expect(redis.lMove.secondCall).to.be.calledWithExactly('tasks:test:bulk', 'tasks:test:progress', 'RIGHT', 'LEFT');
             expect(redis.blMove).to.be.calledOnce;
-            expect(redis.blMove).to.be.calledWithExactly('tasks:test', 'tasks:test:progress', 'RIGHT', 'LEFT', 0);
+            expect(redis.blMove).to.be.calledWithExactly('tasks:test', 'tasks:test:progress', 'RIGHT', 'LEFT', 1);
+        });
+    });
+
+    describe('#handleMessage()', () => {
+        const failingProcess = async () => {
+            throw new Error('Failure');
+        };
+
+        it('should retry a failed task with a backoff', async () => {
+            const clock = sinon.useFakeTimers(new Date('2020-01-01T00:00:00Z'));
+            redis.hIncrBy.resolves(2);
+
+            await handleMessage('text', '1', failingProcess, redis);
+
+            expect(redisMulti.lRem).to.be.calledWithExactly('tasks:text:progress', 1, '1');
+            expect(redisMulti.zAdd).to.be.calledWithExactly('tasks:text:delayed',
+                {score: clock.now + 20_000, value: '1'});
+            expect(redisMulti.rPush).to.not.be.called;
+            expect(failureHandler).to.not.be.called;
+        });
+
+        it('should postpone a task which is already in progress', async () => {
+            const clock = sinon.useFakeTimers(new Date('2020-01-01T00:00:00Z'));
+            const process = sinon.stub().resolves();
+            redis.set.resolves(null);
+
+            await handleMessage('text', '1', process, redis);
+
+            expect(process).to.not.be.called;
+            expect(redisMulti.lRem).to.be.calledWithExactly('tasks:text:progress', 1, '1');
+            expect(redisMulti.zAdd).to.be.calledWithExactly('tasks:text:delayed',
+                {score: clock.now + 60_000, value: '1'});
+        });
+
+        it('should renew the heartbeat while a task is running', async () => {
+            const clock = sinon.useFakeTimers(new Date('2020-01-01T00:00:00Z'));
+            const process = async () => clock.tickAsync(50_000);
+
+            await handleMessage('text', '1', process, redis);
+
+            const lock = redis.set.firstCall.args[0];
+            const renewals: sinon.SinonSpyCall[] = redis.eval.getCalls().filter((call: sinon.SinonSpyCall) =>
+                call.args[1].keys[0] === lock && call.args[1].arguments.length === 2);
+
+            expect(redis.set).to.be.calledWith(sinon.match.string, sinon.match.string, {NX: true, EX: 60});
+            expect(renewals).to.have.lengthOf(2);
+            expect(renewals.map(call => call.args[1].arguments))
+                .to.deep.equal([[redis.set.firstCall.args[1], '60'], [redis.set.firstCall.args[1], '60']]);
+        });
+
+        it('should only release the lock when it is still held by this worker', async () => {
+            await handleMessage('text', '1', sinon.stub().resolves(), redis);
+
+            const [lock, workerId] = redis.set.firstCall.args;
+            expect(redis.eval).to.be.calledWithMatch(sinon.match(/'GET', KEYS\[1\]\) == ARGV\[1\]/),
+                {keys: [lock], arguments: [workerId]});
+            expect(redisMulti.del).to.not.be.called;
+        });
+
+        it('should move a task to the failed tasks after the last attempt', async () => {
+            sinon.useFakeTimers(new Date('2020-01-01T00:00:00Z'));
+            redis.hIncrBy.resolves(3);
+
+            await handleMessage('text', '1', failingProcess, redis);
+
+            expect(redisMulti.zAdd).to.not.be.called;
+            expect(redisMulti.rPush).to.be.calledWithExactly('tasks:text:failed', JSON.stringify({
+                id: '1',
+                payload: '{"id":"1"}',
+                priority: 'bulk',
+                dedupe_key: null,
+                error: 'Failure',
+                attempts: 3,
+                failed_at: '2020-01-01T00:00:00.000Z'
+            }));
+            expect(redisMulti.hDel).to.be.calledWithExactly('tasks:text:payloads', '1');
+            expect(failureHandler).to.be.calledOnceWithExactly({id: '1'}, sinon.match.instanceOf(Error));
+        });
+
+        it('should remove the payload once the task succeeded', async () => {
+            const process = sinon.stub().resolves();
+
+            await handleMessage('text', '1', process, redis);
+
+            expect(redis.eval).to.be.calledWithMatch(sinon.match.string,
+                {keys: ['tasks:text:queued', 'tasks:text:payloads'], arguments: ['1']});
+            expect(process).to.be.calledOnceWithExactly({id: '1'});
+            expect(redisMulti.hDel).to.be.calledWithExactly('tasks:text:payloads', '1');
+        });
+
+        it('should only run one task with the same dedupe key at the same time', async () => {
+            redis.eval.resolves('{"id":"1","priority":"bulk","dedupeKey":"a","task":{"id":"1"}}');
+
+            await handleMessage('text', '1', sinon.stub().resolves(), redis);
+
+            expect(redis.set).to.be.calledWith('tasks:text:0cc175b9c0f1b6a831c399e269772661');
+        });
+
+        it('should only complete the jobs of the task itself when the same task runs again', async () => {
+            // A reindex queued a new task with the same dedupe key while the previous task was still running
+            redis.eval.resolves('{"id":"1","priority":"bulk","dedupeKey":"a","task":{"id":"1"}}');
+            redis.sMembers = sinon.stub().callsFake(async (key: string) =>
+                key === 'tasks:text:jobs:1' ? ['{"jobId":"index","taskId":"text:a"}'] : []);
+            redis.exists = sinon.stub().resolves(0);
+            redis.del = sinon.stub().resolves(1);
+            setRedisClient(redis);
+
+            await handleMessage('text', '1', sinon.stub().resolves(), redis);
+
+            expect(redis.sMembers).to.be.calledOnceWithExactly('tasks:text:jobs:1');
+            expect(redis.del).to.be.calledOnceWithExactly('tasks:text:jobs:1');
+        });
+
+        it('should keep the id of a failed task, so its jobs are completed once it is retried', async () => {
+            redis.hIncrBy.resolves(3);
+
+            await handleMessage('text', '1', async () => {
+                throw new Error('Failure');
+            }, redis);
+
+            expect(JSON.parse(redisMulti.rPush.firstCall.args[1])).to.have.property('id', '1');
+        });
+
+        it('should only send the failure event of a service after the last attempt', async () => {
+            const {onFailure} = await import('../../src/service/iish/metadata.js');
+            const webhookTasks = () => redis.eval.getCalls()
+                .filter((call: sinon.SinonSpyCall) => call.args[1].keys[0] === 'tasks:webhook:queued')
+                .map((call: sinon.SinonSpyCall) => call.args[1].arguments[1]);
+
+            redis.eval.resolves('{"id":"1","priority":"bulk","task":{"collectionId":"12345"}}');
+            redis.sMembers = sinon.stub().resolves([]);
+            setRedisClient(redis);
+            setConfig('webhooks', [{url: 'http://example.org/failed', events: ['metadata.failed']}]);
+            setWorkersRunning({
+                'metadata': {
+                    name: 'iish-metadata',
+                    loadService: async () => async () => null,
+                    loadFailureHandler: async () => onFailure
+                }
+            });
+
+            await handleMessage('metadata', '1', failingProcess, redis);
+            await new Promise(resolve => setImmediate(resolve));
+            expect(webhookTasks()).to.be.empty;
+
+            redis.hIncrBy.resolves(5);
+            await handleMessage('metadata', '1', failingProcess, redis);
+            await new Promise(resolve => setImmediate(resolve));
+
+            expect(webhookTasks()).to.have.lengthOf(1);
+            expect(webhookTasks()[0]).to.contain('"event":"metadata.failed"').and.to.contain('"error":"Failure"');
+        });
+
+        it('should skip a task without a payload', async () => {
+            const process = sinon.stub().resolves();
+            redis.eval.resolves(null);
+
+            await handleMessage('text', '1', process, redis);
+
+            expect(process).to.not.be.called;
+            expect(redis.lRem).to.be.calledWithExactly('tasks:text:progress', 1, '1');
+        });
+    });
+
+    describe('#moveDelayedTasksToQueue()', () => {
+        it('should move a task which is due back to its own lane', async () => {
+            await moveDelayedTasksToQueue('text', redis);
+
+            expect(redis.zRem).to.be.calledWithExactly('tasks:text:delayed', '1');
+            expect(redis.rPush).to.be.calledOnceWithExactly('tasks:text:bulk', '1');
+        });
+    });
+
+    describe('#moveExpiredTasksToQueue()', () => {
+        it('should move a task without a heartbeat back to its own lane', async () => {
+            await moveExpiredTasksToQueue('text', redis);
+
+            expect(redisMulti.lRem).to.be.calledWithExactly('tasks:text:progress', 1, '1');
+            expect(redisMulti.rPush).to.be.calledOnceWithExactly('tasks:text:bulk', '1');
+        });
+    });
+
+    describe('#retryFailedTasks()', () => {
+        it('should send a failed task back to its own lane', async () => {
+            redis.lIndex.resolves(JSON.stringify({
+                id: '1',
+                payload: '{"id":"1"}',
+                priority: 'bulk',
+                dedupe_key: 'a',
+                error: 'Failure',
+                attempts: 3,
+                failed_at: '2020-01-01T00:00:00.000Z'
+            }));
+            setRedisClient(redis);
+
+            expect(await retryFailedTasks('text', 0)).to.equal(1);
+            expect(redis.eval.firstCall.args[1].arguments.slice(0, 4)).to.deep.equal(['1', '{"id":"1"}', 'bulk', 'a']);
         });
     });
 });
@@ -0,0 +1,102 @@
+import sinon from 'sinon';
+import * as chai from 'chai';
+import sinonChai from 'sinon-chai';
+
+import {createItem} from '../../src/lib/Item.js';
+import {setElasticSearchClient} from '../../src/lib/ElasticSearch.js';
+
+import {fromSpec, getEarliestDatestamp, listRecordItems, toSpec} from '../../src/oai/oaiRecords.js';
+
+chai.use(sinonChai);
+const expect = chai.expect;
+
+describe('oaiRecords', () => {
+    let elasticSearch: any;
+
+    beforeEach(() => {
+        elasticSearch = {search: sinon.stub()};
+        setElasticSearchClient(elasticSearch);
+    });
+
+    afterEach(() => {
+        sinon.restore();
+    });
+
+    describe('#toSpec()', () => {
+        it('should only use the characters allowed in a set spec', () => {
+            expect(toSpec('visual material')).to.equal('visual_material');
+            expect(toSpec('a_b.c d/é')).to.match(/^[A-Za-z0-9\-_.!~*'()]+$/);
+        });
+
+        it('should be reversible', () => {
+            for (const format of ['visual material', 'under_score', 'a _b', 'v1.0', '100%', 'café/bar'])
+                expect(fromSpec(toSpec(format))).to.equal(format);
+        });
+    });
+
+    describe('#getEarliestDatestamp()', () => {
+        it('should fall back to the date of creation', async () => {
+            elasticSearch.search.resolves({
+                aggregations: {
+                    indexed_at: {value: Date.parse('2021-01-01T00:00:00Z')},
+                    created_at: {value: Date.parse('2020-01-01T00:00:00Z')}
+                }
+            });
+
+            expect(await getEarliestDatestamp()).to.deep.equal(new Date('2020-01-01T00:00:00Z'));
+        });
+
+        it('should return null without records', async () => {
+            elasticSearch.search.resolves({aggregations: {indexed_at: {value: null}, created_at: {value: null}}});
+
+            expect(await getEarliestDatestamp()).to.be.null;
+        });
+    });
+
+    describe('#listRecordItems()', () => {
+        it('should select on the date of creation of records which were never indexed', async () => {
+            elasticSearch.search.resolves({
+                hits: {
+                    total: {value: 1},
+                    hits: [{_source: createItem({id: '12345', collection_id: '12345', label: 'Root', type: 'root'})}]
+                }
+            });
+
+            await listRecordItems({metadataPrefix: 'oai_dc', set: 'format-under.5Fscore', from: '2020-01-01'});
+
+            const filter = elasticSearch.search.firstCall.args[0].query.bool.filter;
+            const range = {gte: '2020-01-01T00:00:00Z', lte: undefined};
+
+            expect(filter).to.deep.include({term: {formats: 'under_score'}});
+            expect(filter).to.deep.include({
+                bool: {
+                    should: [
+                        {range: {indexed_at: range}},
+                        {
+                            bool: {
+                                must_not: {exists: {field: 'indexed_at'}},
+                                should: undefined,
+                                filter: {range: {created_at: range}}
+                            }
+                        }
+                    ],
+                    minimum_should_match: 1
+                }
+            });
+        });
+
+        it('should select on the collection of a set spec with escaped characters', async () => {
+            elasticSearch.search.resolves({
+                hits: {
+                    total: {value: 1},
+                    hits: [{_source: createItem({id: '12345', collection_id: 'ARCH 1/2', label: 'Root', type: 'root'})}]
+                }
+            });
+
+            await listRecordItems({metadataPrefix: 'oai_dc', set: `collection-${toSpec('ARCH 1/2')}`});
+
+            expect(elasticSearch.search.firstCall.args[0].query.bool.filter)
+                .to.deep.include({term: {collection_id: 'ARCH 1/2'}});
+        });
+    });
+});
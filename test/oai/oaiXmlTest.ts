@@ -0,0 +1,83 @@
+import * as chai from 'chai';
+import {readFile} from 'fs/promises';
+import {parseXml} from 'libxmljs2';
+
+import {createItem} from '../../src/lib/Item.js';
+
+import OaiError from '../../src/oai/OaiError.js';
+import {decodeToken} from '../../src/oai/oaiRecords.js';
+import {getListIdentifiers, getListRecords} from '../../src/oai/oaiXml.js';
+
+const expect = chai.expect;
+
+describe('oaiXml', () => {
+    const rootItem = createItem({
+        id: '12345',
+        collection_id: '12345',
+        label: 'Letters & notes',
+        type: 'root',
+        formats: ['visual material'],
+        authors: [{type: 'Author', name: ['First', 'Second']}],
+        indexed_at: '2020-01-01T12:00:00.123Z'
+    });
+
+    describe('#getListRecords()', () => {
+        it('should return the records with Dublin Core metadata', () => {
+            const xml = getListRecords({items: [rootItem], cursor: 0, completeListSize: 1, resumptionToken: null}, 'oai_dc');
+
+            expect(xml).to.contain('<identifier>oai:localhost:12345</identifier>');
+            expect(xml).to.contain('<datestamp>2020-01-01T12:00:00Z</datestamp>');
+            expect(xml).to.contain('<setSpec>format-visual_material</setSpec><setSpec>collection-12345</setSpec>');
+            expect(xml).to.contain('<dc:title>Letters &amp; notes</dc:title>');
+            expect(xml).to.contain('<dc:creator>First</dc:creator><dc:creator>Second</dc:creator>');
+            expect(xml).to.contain('<dc:identifier>http://localhost:3000/iiif/presentation/12345/manifest</dc:identifier>');
+            expect(xml).to.not.contain('resumptionToken');
+        });
+
+        it('should return a link to the manifest', () => {
+            const xml = getListRecords({items: [rootItem], cursor: 0, completeListSize: 1, resumptionToken: null}, 'iiif');
+
+            expect(xml).to.contain('<iiif:id>http://localhost:3000/iiif/presentation/12345/manifest</iiif:id>');
+            expect(xml).to.contain('<iiif:type>Manifest</iiif:type>');
+        });
+
+        it('should return IIIF metadata which is valid according to its schema', async () => {
+            const xml = getListRecords({items: [rootItem], cursor: 0, completeListSize: 1, resumptionToken: null}, 'iiif');
+            const metadata = xml.substring(xml.indexOf('<iiif:resource'), xml.indexOf('</metadata>'));
+            const schema = parseXml(await readFile('src/static/oai-iiif.xsd', 'utf8'));
+
+            expect(parseXml(metadata).validate(schema)).to.be.true;
+        });
+    });
+
+    describe('#getListIdentifiers()', () => {
+        it('should return a resumption token for an incomplete list', () => {
+            const xml = getListIdentifiers({items: [rootItem], cursor: 100, completeListSize: 250, resumptionToken: 'abc'});
+
+            expect(xml).to.contain('<resumptionToken completeListSize="250" cursor="100">abc</resumptionToken>');
+        });
+
+        it('should return an empty resumption token for the last part of a list', () => {
+            const xml = getListIdentifiers({items: [rootItem], cursor: 200, completeListSize: 201, resumptionToken: null});
+
+            expect(xml).to.contain('<resumptionToken completeListSize="201" cursor="200"></resumptionToken>');
+        });
+    });
+
+    describe('#decodeToken()', () => {
+        it('should throw a badResumptionToken error on an invalid token', () => {
+            expect(() => decodeToken('invalid'))
+                .to.throw(OaiError)
+                .with.property('code', 'badResumptionToken');
+        });
+
+        it('should throw a badResumptionToken error on a token with an invalid set', () => {
+            const token = Buffer.from(JSON.stringify({metadataPrefix: 'oai_dc', searchAfter: '1', cursor: 100, set: 1}))
+                .toString('base64url');
+
+            expect(() => decodeToken(token))
+                .to.throw(OaiError)
+                .with.property('code', 'badResumptionToken');
+        });
+    });
+});
@@ -0,0 +1,64 @@
+import sinon from 'sinon';
+import * as chai from 'chai';
+import sinonChai from 'sinon-chai';
+import {PDFDocument, PDFFont, PDFPage, StandardFonts} from 'pdf-lib';
+
+import {createItem} from '../../src/lib/Item.js';
+import {ImageItem} from '../../src/lib/ItemInterfaces.js';
+import {TextStructure} from '../../src/lib/TextStructure.js';
+
+import {drawTextLayer} from '../../src/pdf/pdfCreation.js';
+
+chai.use(sinonChai);
+const expect = chai.expect;
+
+describe('pdfCreation', () => {
+    let page: PDFPage;
+    let font: PDFFont;
+
+    const item = createItem({
+        id: 'image-1', collection_id: '12345', type: 'image', label: '1', order: 1, width: 2000, height: 1000
+    }) as ImageItem;
+
+    const words = [{idx: 0, x: 400, y: 200, width: 400, height: 100, isHyphenated: false, content: 'Hello'}];
+
+    beforeEach(async () => {
+        const document = await PDFDocument.create();
+        font = await document.embedFont(StandardFonts.Helvetica);
+        page = document.addPage([1000, 500]);
+        sinon.spy(page, 'drawText');
+    });
+
+    afterEach(() => {
+        sinon.restore();
+    });
+
+    describe('#drawTextLayer()', () => {
+        it('should scale the words from the size of the ALTO page', () => {
+            const structure: TextStructure = {
+                page: {width: 4000, height: 2000, unit: 'mm10'},
+                blocks: [{lines: [{words}]}]
+            };
+
+            drawTextLayer(page, font, item, structure);
+
+            expect(page.drawText).to.have.been.calledOnceWith('Hello', sinon.match({
+                x: 100,
+                y: 500 - 50 - 25,
+                size: Math.min(25, 100 / font.widthOfTextAtSize('Hello', 1))
+            }));
+        });
+
+        it('should scale the pixels of the words from the size of the image without a page size', () => {
+            drawTextLayer(page, font, item, {blocks: [{lines: [{words}]}]});
+
+            expect(page.drawText).to.have.been.calledOnceWith('Hello', sinon.match({x: 200, y: 500 - 100 - 50}));
+        });
+
+        it('should not place the words without a page size in another unit than pixels', () => {
+            drawTextLayer(page, font, item, {page: {unit: 'inch1200'}, blocks: [{lines: [{words}]}]});
+
+            expect(page.drawText).to.not.have.been.called;
+        });
+    });
+});
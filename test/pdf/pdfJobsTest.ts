@@ -0,0 +1,91 @@
+import sinon from 'sinon';
+import * as chai from 'chai';
+import sinonChai from 'sinon-chai';
+
+import {createItem} from '../../src/lib/Item.js';
+import {setRedisClient} from '../../src/lib/Redis.js';
+
+import {getPdfJob, getPdfJobId, updatePdfJob} from '../../src/pdf/pdfJobs.js';
+
+chai.use(sinonChai);
+const expect = chai.expect;
+
+describe('pdfJobs', () => {
+    let redis: any;
+    let redisMulti: any;
+
+    const rootItem = createItem({id: '12345', collection_id: '12345', label: 'Root', type: 'root'});
+    const lastModified = new Date('2020-01-01T12:00:00.000Z');
+
+    beforeEach(() => {
+        redis = {
+            hGetAll: sinon.stub().resolves({}),
+            multi: () => redisMulti
+        };
+
+        redisMulti = {
+            hSet: sinon.stub().returnsThis(),
+            expire: sinon.stub().returnsThis(),
+            exec: sinon.fake()
+        };
+
+        setRedisClient(redis);
+    });
+
+    afterEach(() => {
+        sinon.restore();
+        setRedisClient(null);
+    });
+
+    describe('#getPdfJobId()', () => {
+        it('should return the same id regardless of the order of the pages', () => {
+            expect(getPdfJobId(rootItem, [3, 1, 2], null, undefined, lastModified))
+                .to.equal(getPdfJobId(rootItem, [1, 2, 3], null, undefined, lastModified));
+        });
+
+        it('should return a different id for a different tier', () => {
+            expect(getPdfJobId(rootItem, null, null, {name: 'tier', maxSize: 500}, lastModified))
+                .to.not.equal(getPdfJobId(rootItem, null, null, undefined, lastModified));
+        });
+
+        it('should return a different id with a text layer', () => {
+            expect(getPdfJobId(rootItem, null, 'transcription', undefined, lastModified))
+                .to.not.equal(getPdfJobId(rootItem, null, null, undefined, lastModified));
+        });
+
+        it('should return a different id once modified', () => {
+            expect(getPdfJobId(rootItem, null, null, undefined, new Date()))
+                .to.not.equal(getPdfJobId(rootItem, null, null, undefined, lastModified));
+        });
+    });
+
+    describe('#getPdfJob()', () => {
+        it('should return the status of a job', async () => {
+            redis.hGetAll.resolves({status: 'working', pagesDone: '5', pagesTotal: '10', download: 'url'});
+
+            const job = await getPdfJob('abc');
+
+            expect(redis.hGetAll).to.have.been.calledWithExactly('pdf:job:abc');
+            expect(job).to.deep.equal({id: 'abc', status: 'working', pagesDone: 5, pagesTotal: 10, download: 'url'});
+        });
+
+        it('should return null for an unknown job', async () => {
+            expect(await getPdfJob('abc')).to.be.null;
+        });
+
+        it('should return null without a persistent Redis server', async () => {
+            setRedisClient(null);
+            expect(await getPdfJob('abc')).to.be.null;
+        });
+    });
+
+    describe('#updatePdfJob()', () => {
+        it('should update the status of a job with an expiration', async () => {
+            await updatePdfJob('abc', {status: 'working', pagesDone: 5});
+
+            expect(redisMulti.hSet).to.have.been.calledWithExactly('pdf:job:abc', {status: 'working', pagesDone: '5'});
+            expect(redisMulti.expire).to.have.been.calledWith('pdf:job:abc');
+            expect(redisMulti.exec).to.have.been.calledOnce;
+        });
+    });
+});
@@ -0,0 +1,92 @@
+import {expect} from 'chai';
+import {PDFDict, PDFDocument, PDFName, PDFPage, StandardFonts} from 'pdf-lib';
+
+import {createItem} from '../../src/lib/Item.js';
+import {ImageItem, RangeItem, RootItem} from '../../src/lib/ItemInterfaces.js';
+import {getRangeHierarchy} from '../../src/builder/PresentationUtils.js';
+
+import {addCoverPage, addOutline, setMetadata} from '../../src/pdf/pdfMetadata.js';
+
+describe('pdfMetadata', () => {
+    const rootItem = createItem({
+        id: '12345',
+        collection_id: '12345',
+        type: 'root',
+        label: 'A root item – with a dash ✓',
+        formats: ['archival'],
+        authors: [{type: 'Author', name: 'Jane Doe'}],
+        dates: ['1900'],
+        description: 'Description'
+    }) as RootItem;
+
+    const md = {homepage: [{id: 'https://hdl.handle.net/10622/12345', label: 'Homepage'}], metadata: [], seeAlso: []};
+
+    const ranges = [
+        createItem({id: 'range-1', collection_id: '12345', type: 'range', label: 'Chapter 1'}),
+        createItem({id: 'range-2', collection_id: '12345', type: 'range', label: 'Chapter 2'}),
+        createItem({id: 'range-1-1', parent_id: 'range-1', collection_id: '12345', type: 'range', label: 'Section'})
+    ] as RangeItem[];
+
+    const items = [
+        createItem({id: 'image-1', collection_id: '12345', type: 'image', label: '1', order: 1, range_ids: ['range-1']}),
+        createItem({id: 'image-2', collection_id: '12345', type: 'image', label: '2', order: 2, range_ids: ['range-1-1']}),
+        createItem({id: 'image-3', collection_id: '12345', type: 'image', label: '3', order: 3, range_ids: ['range-2']})
+    ] as ImageItem[];
+
+    async function createDocument(includedItems: ImageItem[]): Promise<PDFDocument> {
+        const document = await PDFDocument.create();
+        const font = await document.embedFont(StandardFonts.Helvetica);
+        const boldFont = await document.embedFont(StandardFonts.HelveticaBold);
+
+        setMetadata(document, rootItem, md);
+        addCoverPage(document, rootItem, md, font, boldFont);
+
+        const pagesByItemId = new Map<string, PDFPage>();
+        for (const item of includedItems)
+            pagesByItemId.set(item.id, document.addPage());
+
+        addOutline(document, getRangeHierarchy(includedItems, ranges), pagesByItemId);
+
+        return PDFDocument.load(await document.save());
+    }
+
+    function getOutlineTitles(dict: PDFDict | undefined): string[] {
+        const titles = [];
+        let item = dict?.lookupMaybe(PDFName.of('First'), PDFDict);
+        while (item) {
+            titles.push(item.lookup(PDFName.of('Title'))?.toString() || '');
+            item = item.lookupMaybe(PDFName.of('Next'), PDFDict);
+        }
+        return titles;
+    }
+
+    it('should write the metadata', async () => {
+        const document = await createDocument(items);
+
+        expect(document.getTitle()).to.equal(rootItem.label);
+        expect(document.getAuthor()).to.equal('Jane Doe');
+        expect(document.getSubject()).to.equal('Description');
+        expect(document.getKeywords()).to.equal('archival');
+        expect(document.catalog.has(PDFName.of('Metadata'))).to.be.true;
+    });
+
+    it('should prepend a cover page', async () => {
+        const document = await createDocument(items);
+        expect(document.getPageCount()).to.equal(4);
+    });
+
+    it('should build an outline from the ranges', async () => {
+        const document = await createDocument(items);
+        const outlines = document.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+
+        expect(getOutlineTitles(outlines)).to.have.lengthOf(2);
+        expect(getOutlineTitles(outlines?.lookupMaybe(PDFName.of('First'), PDFDict))).to.have.lengthOf(1);
+    });
+
+    it('should only refer to included pages from the outline', async () => {
+        const document = await createDocument([items[2]]);
+        const outlines = document.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+
+        expect(getOutlineTitles(outlines)).to.have.lengthOf(1);
+    });
+});
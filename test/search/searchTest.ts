@@ -0,0 +1,120 @@
+import sinon from 'sinon';
+import * as chai from 'chai';
+import sinonChai from 'sinon-chai';
+
+import {setConfig} from '../../src/lib/Config.js';
+import {setElasticSearchClient} from '../../src/lib/ElasticSearch.js';
+import {searchInAllCollections, searchInCollection, searchItems} from '../../src/search/search.js';
+
+chai.use(sinonChai);
+const expect = chai.expect;
+
+describe('search', () => {
+    let elasticSearch: any;
+
+    const hit = (collectionId: string, hits = 1) => ({
+        _source: {collection_id: collectionId},
+        inner_hits: {texts: {hits: {total: {value: hits}}}},
+        highlight: {text: [`snippet of ${collectionId}`]}
+    });
+
+    beforeEach(() => {
+        elasticSearch = {search: sinon.stub()};
+        elasticSearch.search.onFirstCall().resolves({hits: {hits: ['a', 'b', 'c', 'd'].map(id => hit(id))}});
+
+        setConfig('searchResultsPerPage', 2);
+        setElasticSearchClient(elasticSearch);
+    });
+
+    afterEach(() => {
+        sinon.restore();
+        setConfig('searchResultsPerPage', 100);
+    });
+
+    describe('#searchInCollection()', () => {
+        const textHit = (id: string) => ({
+            _index: 'texts',
+            _source: {id, collection_id: '12345', structure: null},
+            highlight: {text: ['hello {{{world}}}']},
+            sort: [1, id]
+        });
+
+        it('should return a cursor to the next page', async () => {
+            elasticSearch.search.onFirstCall().resolves({hits: {hits: [textHit('a'), textHit('b')], total: {value: 5}}});
+
+            const results = await searchInCollection('world', '12345', {page: 0});
+
+            expect(results).to.deep.include({total: 5, page: 0, pages: 3});
+            expect(JSON.parse(Buffer.from(results.next as string, 'base64url').toString())).to.deep.equal([1, 'b']);
+            expect(elasticSearch.search.firstCall.args[0]).to.deep.include({size: 2, search_after: undefined});
+        });
+
+        it('should continue after the cursor of the previous page', async () => {
+            elasticSearch.search.onFirstCall().resolves({hits: {hits: [textHit('c')], total: {value: 5}}});
+            const after = Buffer.from(JSON.stringify([1, 'b'])).toString('base64url');
+
+            const results = await searchInCollection('world', '12345', {page: 2, after});
+
+            expect(results).to.deep.include({total: 5, page: 2, pages: 3, next: undefined});
+            expect(elasticSearch.search).to.have.been.calledOnce;
+            expect(elasticSearch.search.firstCall.args[0].search_after).to.deep.equal([1, 'b']);
+        });
+
+        it('should find the cursor of a page requested without a cursor', async () => {
+            elasticSearch.search.onFirstCall().resolves({hits: {hits: [textHit('a'), textHit('b')]}});
+            elasticSearch.search.onSecondCall().resolves({hits: {hits: [textHit('c'), textHit('d')]}});
+            elasticSearch.search.onThirdCall().resolves({hits: {hits: [textHit('e')], total: {value: 5}}});
+
+            const results = await searchInCollection('world', '12345', {page: 2});
+
+            expect(results).to.deep.include({total: 5, page: 2, pages: 3});
+            expect(elasticSearch.search.secondCall.args[0].search_after).to.deep.equal([1, 'b']);
+            expect(elasticSearch.search.thirdCall.args[0].search_after).to.deep.equal([1, 'd']);
+        });
+    });
+
+    describe('#searchInAllCollections()', () => {
+        it('should only count and page over the accessible collections', async () => {
+            elasticSearch.search.onSecondCall().resolves({hits: {hits: [hit('c', 2), hit('a', 3)]}});
+
+            const results = await searchInAllCollections('test', {}, async id => id !== 'b', 0);
+
+            expect(results).to.deep.equal({
+                results: [
+                    {collectionId: 'a', hits: 3, snippets: ['snippet of a']},
+                    {collectionId: 'c', hits: 2, snippets: ['snippet of c']}
+                ],
+                total: 3,
+                page: 0,
+                pages: 2
+            });
+            expect(elasticSearch.search.secondCall.args[0].query.bool.filter)
+                .to.deep.include({terms: {collection_id: ['a', 'c']}});
+        });
+
+        it('should not search for snippets when no collection is accessible', async () => {
+            const results = await searchInAllCollections('test', {}, async _ => false, 0);
+
+            expect(results).to.deep.equal({results: [], total: 0, page: 0, pages: 0});
+            expect(elasticSearch.search).to.have.been.calledOnce;
+        });
+    });
+
+    describe('#searchItems()', () => {
+        it('should leave out the files which are part of a manifest', async () => {
+            elasticSearch.search.onFirstCall().resolves({hits: {hits: [], total: {value: 0}}});
+
+            await searchItems('test', {type: 'image'}, 0);
+
+            const query = elasticSearch.search.firstCall.args[0].query;
+            expect(query.bool.filter).to.deep.equal([{term: {type: 'image'}}]);
+            expect(query.bool.must_not).to.deep.include({
+                bool: {
+                    filter: {exists: {field: 'order'}},
+                    should: ['file', 'pdf', 'image', 'audio', 'video'].map(type => ({term: {type}})),
+                    minimum_should_match: 1
+                }
+            });
+        });
+    });
+});
@@ -11,6 +11,7 @@ describe('text_index', () => {
             const structure = await getTextStructure(join(testRootDirectory, 'test-text/alto.xml'));
 
             expect(structure).to.deep.equal({
+                page: {width: 3533, height: 4450, unit: 'pixel'},
                 blocks: [{
                     lines: [{
                         words: [